@@ -0,0 +1,31 @@
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+import { authOptions } from '../auth/options';
+import { DEFAULT_GHOSTED_AFTER_DAYS, getAnalytics } from '../../../utils/analytics';
+import { getOrCreateUser } from '../../../utils/applications';
+
+export async function GET(request: Request): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const ghostedParam = new URL(request.url).searchParams.get('ghostedDays');
+  const ghostedAfterDays = ghostedParam === null ? DEFAULT_GHOSTED_AFTER_DAYS : Number(ghostedParam);
+  if (!Number.isInteger(ghostedAfterDays) || ghostedAfterDays < 1 || ghostedAfterDays > 365) {
+    return NextResponse.json({ error: 'ghostedDays must be a whole number between 1 and 365' }, { status: 400 });
+  }
+
+  try {
+    const user = await getOrCreateUser(session);
+    if (!user) {
+      return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+    }
+
+    return NextResponse.json(await getAnalytics(user.id, ghostedAfterDays));
+  } catch (error) {
+    console.error('Error computing analytics:', error);
+    return NextResponse.json({ error: 'Failed to compute analytics' }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+import { authOptions } from '../../../auth/options';
+import { getOrCreateUser } from '../../../../../utils/applications';
+import { deleteOffer, OfferInputError, parseOfferInput, saveOffer } from '../../../../../utils/offers';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function PUT(request: Request, { params }: RouteContext): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const user = await getOrCreateUser(session);
+    if (!user) {
+      return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+    }
+
+    const input = parseOfferInput(await request.json().catch(() => null));
+    const { id } = await params;
+    const offer = await saveOffer(user.id, id, input);
+    if (!offer) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(offer);
+  } catch (error) {
+    if (error instanceof OfferInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error saving offer:', error);
+    return NextResponse.json({ error: 'Failed to save offer' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const user = await getOrCreateUser(session);
+    if (!user) {
+      return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+    }
+
+    const { id } = await params;
+    if (!(await deleteOffer(user.id, id))) {
+      return NextResponse.json({ error: 'Offer not found' }, { status: 404 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error deleting offer:', error);
+    return NextResponse.json({ error: 'Failed to delete offer' }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+import { authOptions } from '../../auth/options';
+import {
+  ApplicationInputError,
+  deleteApplication,
+  getOrCreateUser,
+  parseApplicationInput,
+  updateApplication,
+} from '../../../../utils/applications';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: Request, { params }: RouteContext): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const user = await getOrCreateUser(session);
+    if (!user) {
+      return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const input = parseApplicationInput(await request.json().catch(() => null), true);
+    const application = await updateApplication(user.id, id, input);
+    if (!application) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(application);
+  } catch (error) {
+    if (error instanceof ApplicationInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error updating application:', error);
+    return NextResponse.json({ error: 'Failed to update application' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const user = await getOrCreateUser(session);
+    if (!user) {
+      return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+    }
+
+    const { id } = await params;
+    if (!(await deleteApplication(user.id, id))) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error deleting application:', error);
+    return NextResponse.json({ error: 'Failed to delete application' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+import { authOptions } from '../../auth/options';
+import { getOrCreateUser, listApplications } from '../../../../utils/applications';
+import { listCustomFields } from '../../../../utils/customFields';
+import { applicationsToCsv, applicationsToJson, type ExportFormat } from '../../../../utils/export';
+import { buildSearchWhere, SearchQueryError, searchFromParams } from '../../../../utils/search';
+
+export async function GET(request: Request): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const format = (searchParams.get('format') ?? 'csv') as ExportFormat;
+  if (format !== 'csv' && format !== 'json') {
+    return NextResponse.json({ error: 'format must be csv or json' }, { status: 400 });
+  }
+
+  try {
+    const user = await getOrCreateUser(session);
+    if (!user) {
+      return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+    }
+
+    // The same filters as the dashboard, so an export contains what the user is looking at
+    const customFields = await listCustomFields(user.id);
+    const applications = await listApplications(
+      user.id,
+      buildSearchWhere(searchFromParams(searchParams), customFields)
+    );
+
+    const filename = `applications-${new Date().toISOString().slice(0, 10)}.${format}`;
+    const body =
+      format === 'csv' ? applicationsToCsv(applications, customFields) : applicationsToJson(applications, customFields);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof SearchQueryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error exporting applications:', error);
+    return NextResponse.json({ error: 'Failed to export applications' }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+import { authOptions } from '../../auth/options';
+import { ApplicationInputError, getOrCreateUser } from '../../../../utils/applications';
+import { importApplicationsCsv, type ColumnMapping } from '../../../../utils/import';
+
+// Accepts either a raw text/csv body, or JSON of the form { csv, mapping? } where
+// mapping names the CSV header to read each application field from.
+async function readImportRequest(request: Request): Promise<{ csv: string; mapping?: ColumnMapping }> {
+  if (request.headers.get('content-type')?.includes('text/csv')) {
+    return { csv: await request.text() };
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body.csv !== 'string') {
+    throw new ApplicationInputError('Send a text/csv body or JSON with a "csv" string');
+  }
+  if (
+    body.mapping !== undefined &&
+    (typeof body.mapping !== 'object' ||
+      body.mapping === null ||
+      Array.isArray(body.mapping) ||
+      Object.values(body.mapping).some((header) => typeof header !== 'string'))
+  ) {
+    throw new ApplicationInputError('mapping must be an object of field names to CSV headers');
+  }
+  return { csv: body.csv, mapping: body.mapping };
+}
+
+export async function POST(request: Request): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const user = await getOrCreateUser(session);
+    if (!user) {
+      return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+    }
+
+    const { csv, mapping } = await readImportRequest(request);
+    const report = await importApplicationsCsv(user.id, csv, mapping);
+    return NextResponse.json(report);
+  } catch (error) {
+    if (error instanceof ApplicationInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error importing applications:', error);
+    return NextResponse.json({ error: 'Failed to import applications' }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+import { authOptions } from '../auth/options';
+import {
+  ApplicationInputError,
+  createApplication,
+  getOrCreateUser,
+  listApplications,
+  parseApplicationInput,
+} from '../../../utils/applications';
+import { listCustomFields } from '../../../utils/customFields';
+import { buildSearchWhere, SearchQueryError, searchFromParams } from '../../../utils/search';
+
+// Accepts the dashboard's search parameters (q, status, after, before); without them lists everything
+export async function GET(request: Request): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const user = await getOrCreateUser(session);
+    if (!user) {
+      return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+    }
+
+    const search = searchFromParams(new URL(request.url).searchParams);
+    // Operators that are not built in may name one of the user's custom fields
+    const customFields = search.fields.length > 0 ? await listCustomFields(user.id) : [];
+    const applications = await listApplications(user.id, buildSearchWhere(search, customFields));
+    return NextResponse.json(applications);
+  } catch (error) {
+    if (error instanceof SearchQueryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error loading applications:', error);
+    return NextResponse.json(
+      { error: 'Failed to load applications', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const user = await getOrCreateUser(session);
+    if (!user) {
+      return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+    }
+
+    const input = parseApplicationInput(await request.json().catch(() => null));
+    const application = await createApplication(user.id, input);
+    return NextResponse.json(application, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApplicationInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error creating application:', error);
+    return NextResponse.json({ error: 'Failed to create application' }, { status: 500 });
+  }
+}
@@ -1,6 +1,54 @@
+import type { NextAuthOptions, DefaultSession } from "next-auth";
+import type { JWT } from "next-auth/jwt";
 import GoogleProvider from "next-auth/providers/google";
+import { refreshGoogleTokens, storeRefreshToken } from "../../../utils/googleAuth";
 
-export const authOptions = {
+export type AuthError = "RefreshAccessTokenError";
+
+declare module "next-auth" {
+  interface Session extends DefaultSession {
+    accessToken?: string;
+    error?: AuthError;
+  }
+}
+
+declare module "next-auth/jwt" {
+  interface JWT {
+    accessToken?: string;
+    refreshToken?: string;
+    accessTokenExpires?: number;
+    error?: AuthError;
+  }
+}
+
+// Refresh a minute early so a token never expires in the middle of a Gmail call
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+async function refreshAccessToken(token: JWT): Promise<JWT> {
+  if (!token.refreshToken) {
+    return { ...token, error: "RefreshAccessTokenError" };
+  }
+
+  try {
+    const refreshed = await refreshGoogleTokens(token.refreshToken);
+    if (token.email && refreshed.refreshToken !== token.refreshToken) {
+      await storeRefreshToken(token.email, refreshed.refreshToken);
+    }
+
+    return {
+      ...token,
+      accessToken: refreshed.accessToken,
+      accessTokenExpires: refreshed.expiresAt,
+      refreshToken: refreshed.refreshToken,
+      error: undefined,
+    };
+  } catch (error) {
+    console.error("Error refreshing access token:", error);
+    return { ...token, error: "RefreshAccessTokenError" };
+  }
+}
+
+export const authOptions: NextAuthOptions = {
   providers: [
     GoogleProvider({
       clientId: process.env.GOOGLE_CLIENT_ID!,
@@ -8,6 +56,9 @@ export const authOptions = {
       authorization: {
         params: {
           scope: "openid email profile https://www.googleapis.com/auth/gmail.readonly",
+          // Needed for Google to issue a refresh token
+          access_type: "offline",
+          prompt: "consent",
         },
       },
     }),
@@ -15,13 +66,34 @@ export const authOptions = {
   callbacks: {
     async jwt({ token, account }) {
       if (account) {
-        token.accessToken = account.access_token as string;
+        if (token.email && account.refresh_token) {
+          try {
+            await storeRefreshToken(token.email, account.refresh_token);
+          } catch (error) {
+            // The dashboard still works without background sync
+            console.error("Error storing refresh token:", error);
+          }
+        }
+
+        return {
+          ...token,
+          accessToken: account.access_token,
+          refreshToken: account.refresh_token,
+          accessTokenExpires: account.expires_at ? account.expires_at * 1000 : undefined,
+          error: undefined,
+        };
       }
-      return token;
+
+      if (!token.accessTokenExpires || Date.now() < token.accessTokenExpires - EXPIRY_MARGIN_MS) {
+        return token;
+      }
+
+      return refreshAccessToken(token);
     },
     async session({ session, token }) {
-      session.accessToken = token.accessToken as string;
+      session.accessToken = token.accessToken;
+      session.error = token.error;
       return session;
     },
   },
-}; 
\ No newline at end of file
+};
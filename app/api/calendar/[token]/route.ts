@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { buildInterviewCalendar } from '../../../../utils/ics';
+import { findUserIdByCalendarToken, listInterviews } from '../../../../utils/interviews';
+
+// Past interviews stay on the calendar for a while rather than vanishing on the next refresh
+const HISTORY_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface RouteContext {
+  params: Promise<{ token: string }>;
+}
+
+// Calendar apps cannot sign in, so the secret token in the URL identifies the user
+export async function GET(_request: Request, { params }: RouteContext): Promise<NextResponse> {
+  const { token } = await params;
+
+  try {
+    const userId = await findUserIdByCalendarToken(token.replace(/\.ics$/, ''));
+    if (!userId) {
+      return NextResponse.json({ error: 'Calendar not found' }, { status: 404 });
+    }
+
+    const interviews = await listInterviews(userId, new Date(Date.now() - HISTORY_MS));
+    return new NextResponse(buildInterviewCalendar(interviews), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="interviews.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    return NextResponse.json({ error: 'Failed to build calendar feed' }, { status: 500 });
+  }
+}
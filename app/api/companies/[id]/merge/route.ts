@@ -0,0 +1,40 @@
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+import { authOptions } from '../../../auth/options';
+import { getOrCreateUser } from '../../../../../utils/applications';
+import { CompanyInputError, mergeCompanies, parseMergeInput } from '../../../../../utils/companies';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Folds the companies listed in `companyIds` into this one
+export async function POST(request: Request, { params }: RouteContext): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const user = await getOrCreateUser(session);
+    if (!user) {
+      return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+    }
+
+    const companyIds = parseMergeInput(await request.json().catch(() => null));
+    const { id } = await params;
+    const company = await mergeCompanies(user.id, id, companyIds);
+    if (!company) {
+      return NextResponse.json({ error: 'Company not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(company);
+  } catch (error) {
+    if (error instanceof CompanyInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error merging companies:', error);
+    return NextResponse.json({ error: 'Failed to merge companies' }, { status: 500 });
+  }
+}
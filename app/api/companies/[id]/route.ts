@@ -0,0 +1,65 @@
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+import { authOptions } from '../../auth/options';
+import { getOrCreateUser } from '../../../../utils/applications';
+import { CompanyInputError, getCompanyProfile, parseCompanyName, renameCompany } from '../../../../utils/companies';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const user = await getOrCreateUser(session);
+    if (!user) {
+      return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const company = await getCompanyProfile(user.id, id);
+    if (!company) {
+      return NextResponse.json({ error: 'Company not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(company);
+  } catch (error) {
+    console.error('Error loading company:', error);
+    return NextResponse.json({ error: 'Failed to load company' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteContext): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const user = await getOrCreateUser(session);
+    if (!user) {
+      return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+    }
+
+    const name = parseCompanyName(await request.json().catch(() => null));
+    const { id } = await params;
+    const company = await renameCompany(user.id, id, name);
+    if (!company) {
+      return NextResponse.json({ error: 'Company not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(company);
+  } catch (error) {
+    if (error instanceof CompanyInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error renaming company:', error);
+    return NextResponse.json({ error: 'Failed to rename company' }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+import { authOptions } from '../auth/options';
+import { getOrCreateUser } from '../../../utils/applications';
+import { listCompanies } from '../../../utils/companies';
+
+export async function GET(): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const user = await getOrCreateUser(session);
+    if (!user) {
+      return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+    }
+
+    return NextResponse.json(await listCompanies(user.id));
+  } catch (error) {
+    console.error('Error loading companies:', error);
+    return NextResponse.json({ error: 'Failed to load companies' }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+import { authOptions } from '../../auth/options';
+import { getOrCreateUser } from '../../../../utils/applications';
+import {
+  CustomFieldInputError,
+  deleteCustomField,
+  parseCustomFieldInput,
+  updateCustomField,
+} from '../../../../utils/customFields';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: Request, { params }: RouteContext): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const user = await getOrCreateUser(session);
+    if (!user) {
+      return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const input = parseCustomFieldInput(await request.json().catch(() => null), true);
+    const field = await updateCustomField(user.id, id, input);
+    if (!field) {
+      return NextResponse.json({ error: 'Custom field not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(field);
+  } catch (error) {
+    if (error instanceof CustomFieldInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error updating custom field:', error);
+    return NextResponse.json({ error: 'Failed to update custom field' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const user = await getOrCreateUser(session);
+    if (!user) {
+      return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+    }
+
+    const { id } = await params;
+    if (!(await deleteCustomField(user.id, id))) {
+      return NextResponse.json({ error: 'Custom field not found' }, { status: 404 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error deleting custom field:', error);
+    return NextResponse.json({ error: 'Failed to delete custom field' }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+import { authOptions } from '../auth/options';
+import { getOrCreateUser } from '../../../utils/applications';
+import {
+  createCustomField,
+  CustomFieldInputError,
+  listCustomFields,
+  parseCustomFieldInput,
+} from '../../../utils/customFields';
+
+export async function GET(): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const user = await getOrCreateUser(session);
+    if (!user) {
+      return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+    }
+
+    return NextResponse.json(await listCustomFields(user.id));
+  } catch (error) {
+    console.error('Error loading custom fields:', error);
+    return NextResponse.json({ error: 'Failed to load custom fields' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const user = await getOrCreateUser(session);
+    if (!user) {
+      return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+    }
+
+    const input = parseCustomFieldInput(await request.json().catch(() => null));
+    return NextResponse.json(await createCustomField(user.id, input), { status: 201 });
+  } catch (error) {
+    if (error instanceof CustomFieldInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error creating custom field:', error);
+    return NextResponse.json({ error: 'Failed to create custom field' }, { status: 500 });
+  }
+}
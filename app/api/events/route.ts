@@ -0,0 +1,112 @@
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+import { authOptions } from '../auth/options';
+import { getApplicationsByIds, getOrCreateUser } from '../../../utils/applications';
+import { getLatestEventId, listEventsAfter, onApplicationEvents } from '../../../utils/events';
+import type { ApplicationEventMessage, ApplicationEventType } from '../../../utils/types';
+
+export const dynamic = 'force-dynamic';
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_MS = 15 * 1000;
+// Events written by other server instances cannot wake this one, so check for them too
+const POLL_MS = 10 * 1000;
+// How long the browser waits before reconnecting after the stream drops
+const RETRY_MS = 5 * 1000;
+const BATCH_SIZE = 100;
+
+/**
+ * Streams application.created / application.updated events for the signed-in
+ * user. A reconnecting EventSource sends Last-Event-ID and receives everything
+ * it missed; a fresh connection starts from the latest event.
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const user = await getOrCreateUser(session);
+  if (!user) {
+    return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+  }
+
+  const lastEventId = Number(request.headers.get('last-event-id'));
+  let cursor = Number.isInteger(lastEventId) && lastEventId > 0 ? lastEventId : await getLatestEventId(user.id);
+
+  const encoder = new TextEncoder();
+  let close = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const send = (text: string) => {
+        if (!closed) controller.enqueue(encoder.encode(text));
+      };
+
+      const sendNewEvents = async () => {
+        let events;
+        do {
+          events = await listEventsAfter(user.id, cursor, BATCH_SIZE);
+          const ids = Array.from(new Set(events.map((event) => event.applicationId)));
+          const applications = new Map((await getApplicationsByIds(user.id, ids)).map((app) => [app.id, app]));
+
+          for (const event of events) {
+            cursor = event.id;
+            // Deleted since the event was recorded
+            const application = applications.get(event.applicationId);
+            if (!application) continue;
+
+            const message: ApplicationEventMessage = {
+              id: event.id,
+              type: event.type as ApplicationEventType,
+              application,
+            };
+            send(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(message)}\n\n`);
+          }
+        } while (!closed && events.length === BATCH_SIZE);
+      };
+
+      // Passes run one after another so events are never sent twice or out of order
+      let queue = Promise.resolve();
+      const flush = () => {
+        queue = queue.then(sendNewEvents).catch((error) => console.error('Error streaming events:', error));
+      };
+
+      const unsubscribe = onApplicationEvents(user.id, flush);
+      const poll = setInterval(flush, POLL_MS);
+      const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_MS);
+
+      close = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(poll);
+        clearInterval(heartbeat);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      request.signal.addEventListener('abort', close);
+
+      send(`retry: ${RETRY_MS}\n\n`);
+      flush();
+    },
+    cancel() {
+      close();
+    },
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Stops nginx from buffering the stream
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
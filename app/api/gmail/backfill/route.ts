@@ -0,0 +1,50 @@
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+import { authOptions } from '../../auth/options';
+import { getOrCreateUser } from '../../../../utils/applications';
+import { getBackfillProgress, startBackfill, toBackfillProgress } from '../../../../utils/backfill';
+
+export async function GET(): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const user = await getOrCreateUser(session);
+  if (!user) {
+    return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await getBackfillProgress(user.id));
+  } catch (error) {
+    console.error('Error loading backfill status:', error);
+    return NextResponse.json({ error: 'Failed to load backfill status' }, { status: 500 });
+  }
+}
+
+export async function POST(): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  if (session.error) {
+    return NextResponse.json({ error: 'Gmail access expired', reauth: true }, { status: 401 });
+  }
+
+  const user = await getOrCreateUser(session);
+  if (!user) {
+    return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+  }
+
+  try {
+    const job = await startBackfill(user.id, session.accessToken);
+    return NextResponse.json(toBackfillProgress(job), { status: 202 });
+  } catch (error) {
+    console.error('Error starting backfill:', error);
+    return NextResponse.json({ error: 'Failed to start backfill' }, { status: 500 });
+  }
+}
@@ -1,48 +1,34 @@
-import { google } from 'googleapis';
 import { getServerSession } from 'next-auth';
 import { NextResponse } from 'next/server';
-import { authOptions } from '../../auth/[...nextauth]/route';
+import { authOptions } from '../../auth/options';
+import { getOrCreateUser } from '../../../../utils/applications';
+import { createGmailClient, isGmailAuthError } from '../../../../utils/gmail';
+import { syncNewMessages } from '../../../../utils/sync';
 
-export async function POST(request: Request) {
+export async function POST() {
   const session = await getServerSession(authOptions);
   
   if (!session?.accessToken) {
     return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
   }
 
-  const { lastFetchTime } = await request.json();
-  const afterDate = new Date(lastFetchTime).toISOString();
+  if (session.error) {
+    return NextResponse.json({ error: 'Gmail access expired', reauth: true }, { status: 401 });
+  }
 
-  const oauth2Client = new google.auth.OAuth2();
-  oauth2Client.setCredentials({ access_token: session.accessToken });
-  const gmail = google.gmail({ version: 'v1', auth: oauth2Client });
+  const user = await getOrCreateUser(session);
+  if (!user) {
+    return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+  }
 
   try {
-    const response = await gmail.users.messages.list({
-      userId: 'me',
-      q: `subject:(job OR application OR applied OR position OR opportunity OR software) after:${afterDate}`,
-      maxResults: 100,
-    });
-
-    const messages = response.data.messages || [];
-    if (messages.length === 0) {
-      return NextResponse.json([]);
-    }
-
-    const messageDetails = await Promise.all(
-      messages.map(async (message) => {
-        const details = await gmail.users.messages.get({
-          userId: 'me',
-          id: message.id!,
-          format: 'full',
-        });
-        return extractEmailInfo(details);
-      })
-    );
-
-    return NextResponse.json(messageDetails);
+    const { emails } = await syncNewMessages(createGmailClient(session.accessToken), user.id);
+    return NextResponse.json(emails);
   } catch (error) {
     console.error('Error details:', error);
+    if (isGmailAuthError(error)) {
+      return NextResponse.json({ error: 'Gmail access expired', reauth: true }, { status: 401 });
+    }
     return NextResponse.json({ error: 'Failed to fetch new emails' }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
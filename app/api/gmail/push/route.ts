@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import {
+  isPushVerificationConfigured,
+  parsePushPayload,
+  PushPayloadError,
+  queuePushSync,
+  verifyPushRequest,
+} from '../../../../utils/push';
+
+// Pub/Sub push endpoint for Gmail users.watch notifications. Any 2xx acknowledges
+// the message; anything else makes Pub/Sub redeliver it later.
+export async function POST(request: Request): Promise<NextResponse> {
+  if (!isPushVerificationConfigured()) {
+    return NextResponse.json({ error: 'Push notifications are not configured' }, { status: 503 });
+  }
+
+  if (!(await verifyPushRequest(request))) {
+    return NextResponse.json({ error: 'Invalid push credentials' }, { status: 403 });
+  }
+
+  try {
+    const notification = parsePushPayload(await request.json().catch(() => null));
+    const outcome = await queuePushSync(notification);
+    return NextResponse.json({ outcome }, { status: 202 });
+  } catch (error) {
+    if (error instanceof PushPayloadError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error handling Gmail push:', error);
+    return NextResponse.json({ error: 'Failed to handle push notification' }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+import { authOptions } from '../../auth/options';
+import { getOrCreateUser } from '../../../../utils/applications';
+import { calendarFeedPath, getCalendarToken } from '../../../../utils/interviews';
+
+// Issues a new feed URL; calendars subscribed to the old one stop updating
+export async function POST(): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const user = await getOrCreateUser(session);
+    if (!user) {
+      return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+    }
+
+    return NextResponse.json({ feedPath: calendarFeedPath(await getCalendarToken(user.id, true)) });
+  } catch (error) {
+    console.error('Error rotating calendar feed:', error);
+    return NextResponse.json({ error: 'Failed to rotate calendar feed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+import { authOptions } from '../auth/options';
+import { getOrCreateUser } from '../../../utils/applications';
+import { calendarFeedPath, getCalendarToken, listInterviews } from '../../../utils/interviews';
+import type { InterviewSummary } from '../../../utils/types';
+
+// Interviews that started within this window still count as upcoming
+const IN_PROGRESS_MS = 2 * 60 * 60 * 1000;
+
+export async function GET(): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const user = await getOrCreateUser(session);
+    if (!user) {
+      return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+    }
+
+    const summary: InterviewSummary = {
+      interviews: await listInterviews(user.id, new Date(Date.now() - IN_PROGRESS_MS)),
+      feedPath: calendarFeedPath(await getCalendarToken(user.id)),
+    };
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('Error loading interviews:', error);
+    return NextResponse.json({ error: 'Failed to load interviews' }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+import { authOptions } from '../../auth/options';
+import { getOrCreateUser } from '../../../../utils/applications';
+import { DEFAULT_SNOOZE_DAYS, dismissReminder, snoozeReminder } from '../../../../utils/reminders';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Body: { action: "snooze", days?: number } or { action: "dismiss" }
+export async function POST(request: Request, { params }: RouteContext): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const days = body?.days ?? DEFAULT_SNOOZE_DAYS;
+  if (body?.action !== 'snooze' && body?.action !== 'dismiss') {
+    return NextResponse.json({ error: 'action must be snooze or dismiss' }, { status: 400 });
+  }
+  if (!Number.isInteger(days) || days < 1 || days > 365) {
+    return NextResponse.json({ error: 'days must be a whole number between 1 and 365' }, { status: 400 });
+  }
+
+  try {
+    const user = await getOrCreateUser(session);
+    if (!user) {
+      return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const found =
+      body.action === 'snooze' ? await snoozeReminder(user.id, id, days) : await dismissReminder(user.id, id);
+    if (!found) {
+      return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error updating reminder:', error);
+    return NextResponse.json({ error: 'Failed to update reminder' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+import { authOptions } from '../../auth/options';
+import { getOrCreateUser } from '../../../../utils/applications';
+import { collectNewlyStale } from '../../../../utils/reminders';
+
+// Called by the dashboard poller; each stale application is reported once
+export async function POST(): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const user = await getOrCreateUser(session);
+    if (!user) {
+      return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+    }
+
+    const newlyStale = await collectNewlyStale(user.id);
+    return NextResponse.json({ newlyStale });
+  } catch (error) {
+    console.error('Error checking reminders:', error);
+    return NextResponse.json({ error: 'Failed to check reminders' }, { status: 500 });
+  }
+}
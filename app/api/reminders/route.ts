@@ -0,0 +1,59 @@
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+import { authOptions } from '../auth/options';
+import { getOrCreateUser, listApplications } from '../../../utils/applications';
+import { parseFollowUpAfterDays, ReminderInputError, setFollowUpAfterDays } from '../../../utils/reminders';
+import type { ReminderSummary } from '../../../utils/types';
+
+export async function GET(): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const user = await getOrCreateUser(session);
+    if (!user) {
+      return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+    }
+
+    const applications = await listApplications(user.id);
+    const summary: ReminderSummary = {
+      followUpAfterDays: user.followUpAfterDays,
+      reminders: applications
+        .filter((application) => application.needsFollowUp)
+        .sort((a, b) => a.lastActivityAt.localeCompare(b.lastActivityAt)),
+    };
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('Error loading reminders:', error);
+    return NextResponse.json({ error: 'Failed to load reminders' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: Request): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const user = await getOrCreateUser(session);
+    if (!user) {
+      return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const followUpAfterDays = parseFollowUpAfterDays(body?.followUpAfterDays);
+    await setFollowUpAfterDays(user.id, followUpAfterDays);
+    return NextResponse.json({ followUpAfterDays });
+  } catch (error) {
+    if (error instanceof ReminderInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error updating reminder settings:', error);
+    return NextResponse.json({ error: 'Failed to update reminder settings' }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+import { authOptions } from '../../auth/options';
+import { getOrCreateUser } from '../../../../utils/applications';
+import { parseReviewAction, resolveReview, ReviewInputError } from '../../../../utils/review';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Body: { action: "confirm" } or { action: "dismiss" }
+export async function POST(request: Request, { params }: RouteContext): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const user = await getOrCreateUser(session);
+    if (!user) {
+      return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+    }
+
+    const action = parseReviewAction(await request.json().catch(() => null));
+    const { id } = await params;
+    if (!(await resolveReview(user.id, id, action))) {
+      return NextResponse.json({ error: 'Message not found in review queue' }, { status: 404 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof ReviewInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error resolving review:', error);
+    return NextResponse.json({ error: 'Failed to update review' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+import { authOptions } from '../../../auth/options';
+import { createGmailClient, isGmailAuthError } from '../../../../../utils/gmail';
+import { parseSearchSettings, previewSearch, SearchSettingsError } from '../../../../../utils/searchSettings';
+
+// Shows what a draft of the search settings would match, without saving it
+export async function POST(request: Request): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.accessToken) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  if (session.error) {
+    return NextResponse.json({ error: 'Gmail access expired', reauth: true }, { status: 401 });
+  }
+
+  try {
+    const settings = parseSearchSettings(await request.json().catch(() => null));
+    const preview = await previewSearch(createGmailClient(session.accessToken), settings);
+    return NextResponse.json(preview);
+  } catch (error) {
+    if (error instanceof SearchSettingsError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (isGmailAuthError(error)) {
+      return NextResponse.json({ error: 'Gmail access expired', reauth: true }, { status: 401 });
+    }
+    console.error('Error previewing search:', error);
+    return NextResponse.json({ error: 'Failed to preview search' }, { status: 500 });
+  }
+}
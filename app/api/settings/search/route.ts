@@ -0,0 +1,57 @@
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+import { authOptions } from '../../auth/options';
+import { getOrCreateUser } from '../../../../utils/applications';
+import {
+  buildSearchQuery,
+  getSearchSettings,
+  parseSearchSettings,
+  saveSearchSettings,
+  SearchSettingsError,
+} from '../../../../utils/searchSettings';
+
+export async function GET(): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const user = await getOrCreateUser(session);
+    if (!user) {
+      return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+    }
+
+    const settings = await getSearchSettings(user.id);
+    return NextResponse.json({ ...settings, query: buildSearchQuery(settings) });
+  } catch (error) {
+    console.error('Error loading search settings:', error);
+    return NextResponse.json({ error: 'Failed to load search settings' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: Request): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const user = await getOrCreateUser(session);
+    if (!user) {
+      return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+    }
+
+    const settings = parseSearchSettings(await request.json().catch(() => null));
+    await saveSearchSettings(user.id, settings);
+    return NextResponse.json({ ...settings, query: buildSearchQuery(settings) });
+  } catch (error) {
+    if (error instanceof SearchSettingsError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error saving search settings:', error);
+    return NextResponse.json({ error: 'Failed to save search settings' }, { status: 500 });
+  }
+}
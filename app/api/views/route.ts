@@ -0,0 +1,49 @@
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+import { authOptions } from '../auth/options';
+import { getOrCreateUser } from '../../../utils/applications';
+import { listViews, parseViewInput, saveView, ViewInputError } from '../../../utils/views';
+
+export async function GET(): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const user = await getOrCreateUser(session);
+    if (!user) {
+      return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+    }
+
+    return NextResponse.json(await listViews(user.id));
+  } catch (error) {
+    console.error('Error loading saved views:', error);
+    return NextResponse.json({ error: 'Failed to load saved views' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request): Promise<NextResponse> {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const user = await getOrCreateUser(session);
+    if (!user) {
+      return NextResponse.json({ error: 'Session has no email address' }, { status: 400 });
+    }
+
+    const input = parseViewInput(await request.json().catch(() => null));
+    return NextResponse.json(await saveView(user.id, input), { status: 201 });
+  } catch (error) {
+    if (error instanceof ViewInputError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Error saving view:', error);
+    return NextResponse.json({ error: 'Failed to save view' }, { status: 500 });
+  }
+}
@@ -0,0 +1,201 @@
+'use client';
+
+import { useSession, signIn } from "next-auth/react";
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import type { ApplicationStatus, CompanyProfile } from "../../../utils/types";
+
+// Same colors as the dashboard cards
+const STATUS_COLORS: Record<ApplicationStatus, string> = {
+  Rejected: 'bg-red-100 text-red-800',
+  Interview: 'bg-blue-100 text-blue-800',
+  Offer: 'bg-green-100 text-green-800',
+  Applied: 'bg-yellow-100 text-yellow-800',
+  'Application Received': 'bg-purple-100 text-purple-800'
+};
+
+export default function CompanyPage() {
+  const { id } = useParams<{ id: string }>();
+  const { data: session, status } = useSession();
+  const [company, setCompany] = useState<CompanyProfile | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [renaming, setRenaming] = useState(false);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!session) return;
+    const loadCompany = async () => {
+      try {
+        const response = await fetch(`/api/companies/${id}`);
+        if (response.status === 404) {
+          setNotFound(true);
+          return;
+        }
+        if (!response.ok) throw new Error('Failed to load company');
+        setCompany(await response.json());
+      } catch (error) {
+        console.error('Error loading company:', error);
+        setError('Failed to load company');
+      }
+    };
+    loadCompany();
+  }, [session, id]);
+
+  const saveName = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      const response = await fetch(`/api/companies/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to rename company');
+      setCompany(data);
+      setRenaming(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to rename company');
+    }
+  };
+
+  if (status !== 'loading' && !session) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <button onClick={() => signIn('google')} className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+          Sign in with Google
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="max-w-5xl mx-auto py-6 px-4 sm:px-6 lg:px-8 space-y-6">
+        <Link href="/companies" className="text-blue-600 hover:text-blue-800 dark:text-blue-400">
+          All companies
+        </Link>
+
+        {error && (
+          <div className="p-4 bg-red-100 text-red-800 rounded-lg">{error}</div>
+        )}
+
+        {notFound ? (
+          <p className="text-gray-500 dark:text-gray-400">This company does not exist, or was merged into another one.</p>
+        ) : !company ? (
+          <p className="text-gray-500 dark:text-gray-400">Loading company...</p>
+        ) : (
+          <>
+            <header className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 space-y-3">
+              {renaming ? (
+                <form onSubmit={saveName} className="flex gap-3">
+                  <input
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    autoFocus
+                    className="flex-1 px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                  />
+                  <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+                    Save
+                  </button>
+                  <button type="button" onClick={() => setRenaming(false)} className="px-4 py-2 text-gray-600 dark:text-gray-300">
+                    Cancel
+                  </button>
+                </form>
+              ) : (
+                <div className="flex items-center gap-3">
+                  <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">{company.name}</h1>
+                  <button
+                    onClick={() => {
+                      setName(company.name);
+                      setRenaming(true);
+                    }}
+                    className="text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400"
+                  >
+                    Rename
+                  </button>
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-2 text-xs">
+                {company.domains.map(domain => (
+                  <span key={domain} className="px-2 py-0.5 rounded-full bg-blue-50 text-blue-700 dark:bg-blue-900 dark:text-blue-200">
+                    {domain}
+                  </span>
+                ))}
+                {company.aliases.map(alias => (
+                  <span key={alias} className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300">
+                    {alias}
+                  </span>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(company.statusCounts).map(([status, count]) => (
+                  <span key={status} className={`px-3 py-1 rounded-full text-sm font-medium ${STATUS_COLORS[status as ApplicationStatus]}`}>
+                    {status}: {count}
+                  </span>
+                ))}
+              </div>
+
+              {company.latestActivityAt && (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Last activity {new Date(company.latestActivityAt).toLocaleDateString()}
+                </p>
+              )}
+            </header>
+
+            <section className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+              <h2 className="font-semibold text-gray-900 dark:text-white mb-3">Roles</h2>
+              <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                {company.roles.map(role => (
+                  <li key={role.applicationId} className="py-2 flex items-center justify-between gap-4 text-sm">
+                    <div className="min-w-0">
+                      <p className="text-gray-900 dark:text-white truncate">{role.jobProfile}</p>
+                      <p className="text-gray-500 dark:text-gray-400">
+                        Applied {new Date(role.appliedAt).toLocaleDateString()} · last activity{' '}
+                        {new Date(role.lastActivityAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <span className={`px-3 py-1 rounded-full text-xs font-medium shrink-0 ${STATUS_COLORS[role.applicationStatus]}`}>
+                      {role.applicationStatus}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+
+            <section className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
+              <h2 className="font-semibold text-gray-900 dark:text-white mb-3">Contacts</h2>
+              {company.contacts.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Only automated senders have written so far.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {company.contacts.map(contact => (
+                    <li key={contact.id} className="py-2 flex items-center justify-between gap-4 text-sm">
+                      <div className="min-w-0">
+                        <p className="text-gray-900 dark:text-white truncate">{contact.name ?? contact.email}</p>
+                        {contact.title && <p className="text-gray-500 dark:text-gray-400 truncate">{contact.title}</p>}
+                        {contact.name && (
+                          <a href={`mailto:${contact.email}`} className="text-blue-600 hover:text-blue-800 dark:text-blue-400">
+                            {contact.email}
+                          </a>
+                        )}
+                      </div>
+                      <p className="text-gray-500 dark:text-gray-400 shrink-0 text-right">
+                        {contact.messageCount} email{contact.messageCount === 1 ? '' : 's'}
+                        {contact.lastContactedAt && <> · {new Date(contact.lastContactedAt).toLocaleDateString()}</>}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
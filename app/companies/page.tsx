@@ -0,0 +1,144 @@
+'use client';
+
+import { useSession, signIn } from "next-auth/react";
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import type { CompanySummary } from "../../utils/types";
+
+export default function CompaniesPage() {
+  const { data: session, status } = useSession();
+  const [companies, setCompanies] = useState<CompanySummary[] | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [targetId, setTargetId] = useState('');
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCompanies = async () => {
+    try {
+      const response = await fetch('/api/companies');
+      if (!response.ok) throw new Error('Failed to load companies');
+      setCompanies(await response.json());
+    } catch (error) {
+      console.error('Error loading companies:', error);
+      setError('Failed to load companies');
+    }
+  };
+
+  useEffect(() => {
+    if (session) loadCompanies();
+  }, [session]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]));
+  };
+
+  const mergeSelected = async () => {
+    const target = selectedIds.includes(targetId) ? targetId : selectedIds[0];
+    setMerging(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/companies/${target}/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ companyIds: selectedIds.filter(id => id !== target) }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to merge companies');
+
+      setSelectedIds([]);
+      setTargetId('');
+      await loadCompanies();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to merge companies');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  if (status !== 'loading' && !session) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <button onClick={() => signIn('google')} className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+          Sign in with Google
+        </button>
+      </div>
+    );
+  }
+
+  const selected = companies?.filter(company => selectedIds.includes(company.id)) ?? [];
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="max-w-5xl mx-auto py-6 px-4 sm:px-6 lg:px-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">Companies</h1>
+          <Link href="/" className="text-blue-600 hover:text-blue-800 dark:text-blue-400">
+            Back to dashboard
+          </Link>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-100 text-red-800 rounded-lg">{error}</div>
+        )}
+
+        {selected.length > 1 && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-4 flex flex-wrap items-center gap-3 text-sm">
+            <span className="text-gray-700 dark:text-gray-300">Merge {selected.length} companies into</span>
+            <select
+              value={selectedIds.includes(targetId) ? targetId : selectedIds[0]}
+              onChange={(e) => setTargetId(e.target.value)}
+              className="px-3 py-1.5 border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+            >
+              {selected.map(company => (
+                <option key={company.id} value={company.id}>{company.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={mergeSelected}
+              disabled={merging}
+              className="px-4 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {merging ? 'Merging...' : 'Merge'}
+            </button>
+          </div>
+        )}
+
+        {companies === null ? (
+          <p className="text-gray-500 dark:text-gray-400">Loading companies...</p>
+        ) : companies.length === 0 ? (
+          <p className="text-gray-500 dark:text-gray-400">No companies yet. They appear as applications are synced or added.</p>
+        ) : (
+          <ul className="bg-white dark:bg-gray-800 rounded-lg shadow-sm divide-y divide-gray-100 dark:divide-gray-700">
+            {companies.map(company => (
+              <li key={company.id} className="flex items-center gap-4 p-4">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(company.id)}
+                  onChange={() => toggleSelected(company.id)}
+                  aria-label={`Select ${company.name} to merge`}
+                />
+                <div className="min-w-0 flex-1">
+                  <Link
+                    href={`/companies/${company.id}`}
+                    className="font-medium text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400"
+                  >
+                    {company.name}
+                  </Link>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                    {[...company.domains, ...company.aliases].join(' · ')}
+                  </p>
+                </div>
+                <div className="text-right text-sm text-gray-500 dark:text-gray-400 shrink-0">
+                  <p>{company.applicationCount} application{company.applicationCount === 1 ? '' : 's'}</p>
+                  {company.latestActivityAt && (
+                    <p>Last activity {new Date(company.latestActivityAt).toLocaleDateString()}</p>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+'use client';
+
+import { useSession, signIn } from "next-auth/react";
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import type { ContactRole, JobContact } from "../../utils/types";
+
+type RoleFilter = 'all' | Exclude<ContactRole, 'ats_noreply'>;
+
+const ROLE_LABELS: Record<Exclude<ContactRole, 'ats_noreply'>, string> = {
+  recruiter: 'Recruiter',
+  hiring_manager: 'Hiring manager',
+  other: 'Other',
+};
+
+const ROLE_COLORS: Record<Exclude<ContactRole, 'ats_noreply'>, string> = {
+  recruiter: 'bg-purple-100 text-purple-800',
+  hiring_manager: 'bg-blue-100 text-blue-800',
+  other: 'bg-gray-100 text-gray-600',
+};
+
+function ContactNotes({ contact, onSaved }: { contact: JobContact; onSaved: (contact: JobContact) => void }) {
+  const [editing, setEditing] = useState(false);
+  const [notes, setNotes] = useState(contact.notes ?? '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const saveNotes = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/contacts/${contact.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ notes }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save notes');
+      onSaved(data);
+      setEditing(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save notes');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!editing) {
+    return (
+      <div className="text-sm">
+        {contact.notes && (
+          <p className="text-gray-600 dark:text-gray-300 whitespace-pre-line">{contact.notes}</p>
+        )}
+        <button
+          onClick={() => {
+            setNotes(contact.notes ?? '');
+            setEditing(true);
+          }}
+          className="text-blue-600 hover:text-blue-800 dark:text-blue-400"
+        >
+          {contact.notes ? 'Edit notes' : 'Add notes'}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 text-sm">
+      {error && <p className="text-red-600">{error}</p>}
+      <textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        rows={3}
+        autoFocus
+        className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+      />
+      <div className="flex gap-3">
+        <button
+          onClick={saveNotes}
+          disabled={saving}
+          className="px-4 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+        <button onClick={() => setEditing(false)} className="text-gray-600 dark:text-gray-300">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function ContactsPage() {
+  const { data: session, status } = useSession();
+  const [contacts, setContacts] = useState<JobContact[] | null>(null);
+  const [roleFilter, setRoleFilter] = useState<RoleFilter>('all');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!session) return;
+    const loadContacts = async () => {
+      try {
+        const response = await fetch('/api/contacts');
+        if (!response.ok) throw new Error('Failed to load contacts');
+        setContacts(await response.json());
+      } catch (error) {
+        console.error('Error loading contacts:', error);
+        setError('Failed to load contacts');
+      }
+    };
+    loadContacts();
+  }, [session]);
+
+  const filteredContacts = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return (contacts ?? []).filter(contact =>
+      (roleFilter === 'all' || contact.role === roleFilter) &&
+      (!term || [contact.name, contact.email, contact.companyName, contact.title]
+        .some(value => value?.toLowerCase().includes(term)))
+    );
+  }, [contacts, roleFilter, searchTerm]);
+
+  const replaceContact = (updated: JobContact) => {
+    setContacts(prev => prev?.map(contact => (contact.id === updated.id ? updated : contact)) ?? null);
+  };
+
+  if (status !== 'loading' && !session) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <button onClick={() => signIn('google')} className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+          Sign in with Google
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="max-w-5xl mx-auto py-6 px-4 sm:px-6 lg:px-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">Contacts</h1>
+          <Link href="/" className="text-blue-600 hover:text-blue-800 dark:text-blue-400">
+            Back to dashboard
+          </Link>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-100 text-red-800 rounded-lg">{error}</div>
+        )}
+
+        <div className="flex flex-wrap gap-4">
+          <input
+            type="text"
+            placeholder="Search by name, email or company..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="flex-1 min-w-60 px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          />
+          <select
+            value={roleFilter}
+            onChange={(e) => setRoleFilter(e.target.value as RoleFilter)}
+            className="px-4 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          >
+            <option value="all">All roles</option>
+            <option value="recruiter">Recruiters</option>
+            <option value="hiring_manager">Hiring managers</option>
+            <option value="other">Other</option>
+          </select>
+        </div>
+
+        {contacts === null ? (
+          <p className="text-gray-500 dark:text-gray-400">Loading contacts...</p>
+        ) : filteredContacts.length === 0 ? (
+          <p className="text-gray-500 dark:text-gray-400">
+            {contacts.length === 0 ? 'No contacts yet. People who write about your applications appear here.' : 'No contacts match.'}
+          </p>
+        ) : (
+          <ul className="space-y-4">
+            {filteredContacts.map(contact => (
+              <li key={contact.id} className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-4 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 dark:text-white">{contact.name ?? contact.email}</p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      {contact.title}
+                      {contact.title && contact.companyName && ' · '}
+                      {contact.companyId && contact.companyName && (
+                        <Link href={`/companies/${contact.companyId}`} className="hover:text-blue-600 dark:hover:text-blue-400">
+                          {contact.companyName}
+                        </Link>
+                      )}
+                    </p>
+                  </div>
+                  {contact.role !== 'ats_noreply' && (
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium shrink-0 ${ROLE_COLORS[contact.role]}`}>
+                      {ROLE_LABELS[contact.role]}
+                    </span>
+                  )}
+                </div>
+
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                  <a href={`mailto:${contact.email}`} className="text-blue-600 hover:text-blue-800 dark:text-blue-400">
+                    {contact.email}
+                  </a>
+                  {contact.phone && (
+                    <a href={`tel:${contact.phone.replace(/[^\d+]/g, '')}`} className="text-gray-600 dark:text-gray-300">
+                      {contact.phone}
+                    </a>
+                  )}
+                  {contact.linkedinUrl && (
+                    <a
+                      href={contact.linkedinUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-600 hover:text-blue-800 dark:text-blue-400"
+                    >
+                      LinkedIn
+                    </a>
+                  )}
+                  <span className="text-gray-400">
+                    {contact.messageCount} email{contact.messageCount === 1 ? '' : 's'}
+                    {contact.lastContactedAt && `, last ${new Date(contact.lastContactedAt).toLocaleDateString()}`}
+                  </span>
+                </div>
+
+                {contact.applications.length > 0 && (
+                  <div className="flex flex-wrap gap-2 text-xs">
+                    {contact.applications.map(application => (
+                      <span key={application.id} className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+                        {application.companyName}: {application.jobProfile} ({application.applicationStatus})
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                <ContactNotes contact={contact} onSaved={replaceContact} />
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
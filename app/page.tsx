@@ -1,20 +1,119 @@
 'use client';
 
 import { useSession, signIn, signOut } from "next-auth/react";
-import { useEffect, useState, useMemo } from "react";
+import { useCallback, useEffect, useState, useMemo, useRef } from "react";
 import Image from "next/image";
+import Link from "next/link";
+import { AnalyticsPanel } from "../components/AnalyticsPanel";
+import { ApplicationForm } from "../components/ApplicationForm";
+import { CustomFieldsForm } from "../components/CustomFieldsForm";
+import { FollowUpPanel } from "../components/FollowUpPanel";
+import { KanbanBoard } from "../components/KanbanBoard";
+import { OfferComparison } from "../components/OfferComparison";
+import { ReviewQueue } from "../components/ReviewQueue";
+import { SavedViews } from "../components/SavedViews";
+import { SearchSettingsForm } from "../components/SearchSettingsForm";
+import { UpcomingInterviews } from "../components/UpcomingInterviews";
+import {
+  APPLICATION_STATUSES,
+  PRIORITIES,
+  type ApplicationEventMessage,
+  type ApplicationInput,
+  type ApplicationStatus,
+  type BackfillProgress,
+  type CustomFieldDefinition,
+  type CustomFieldValue,
+  type ImportReport,
+  type JobApplication,
+  type Priority,
+} from "../utils/types";
 
-type Status = 'All' | 'Applied' | 'Application Received' | 'Interview' | 'Rejected' | 'Offer';
-type SortField = 'date' | 'company';
+// Custom fields sort as `field:<id>`
+type SortField = 'date' | 'company' | 'priority' | `field:${string}`;
 type SortOrder = 'asc' | 'desc';
+type ViewMode = 'grid' | 'board';
 
-interface JobEmail {
-  id: string;
-  companyName: string;
-  jobProfile: string;
-  applicationStatus: Status;
-  date: string;
-  from: string;
+const VIEW_MODE_KEY = 'dashboardView';
+
+const REMINDER_CHECK_MS = 5 * 60 * 1000;
+// Pause in typing before the search box queries the server
+const SEARCH_DEBOUNCE_MS = 300;
+// Events arriving this close together are announced in one notification
+const NOTIFY_BATCH_MS = 2000;
+
+type JobEmail = JobApplication;
+
+// Dashboard filters as they appear in the URL: q, status, after and before
+interface DashboardFilters {
+  q: string;
+  statuses: ApplicationStatus[];
+  after: string;
+  before: string;
+}
+
+const NO_FILTERS: DashboardFilters = { q: '', statuses: [], after: '', before: '' };
+
+function parseFilterQuery(query: string): DashboardFilters {
+  const params = new URLSearchParams(query);
+  return {
+    q: params.get('q') ?? '',
+    statuses: APPLICATION_STATUSES.filter(status => (params.get('status') ?? '').split(',').includes(status)),
+    after: params.get('after') ?? '',
+    before: params.get('before') ?? '',
+  };
+}
+
+function toFilterQuery(filters: DashboardFilters): string {
+  const params = new URLSearchParams();
+  if (filters.q.trim()) params.set('q', filters.q.trim());
+  if (filters.statuses.length > 0) params.set('status', filters.statuses.join(','));
+  if (filters.after) params.set('after', filters.after);
+  if (filters.before) params.set('before', filters.before);
+  return params.toString();
+}
+
+const PRIORITY_RANK: Record<Priority, number> = { low: 1, medium: 2, high: 3 };
+
+const PRIORITY_COLORS: Record<Priority, string> = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-amber-100 text-amber-800',
+  low: 'bg-gray-100 text-gray-600',
+};
+
+function sortValue(application: JobApplication, sortBy: SortField): string | number | null {
+  if (sortBy === 'date') return new Date(application.date).getTime();
+  if (sortBy === 'company') return application.companyName;
+  if (sortBy === 'priority') return application.priority ? PRIORITY_RANK[application.priority] : null;
+  return application.customFields[sortBy.slice('field:'.length)] ?? null;
+}
+
+// Applications without a value sort last in either direction
+function compareApplications(a: JobApplication, b: JobApplication, sortBy: SortField, sortOrder: SortOrder): number {
+  const valueA = sortValue(a, sortBy);
+  const valueB = sortValue(b, sortBy);
+  if (valueA === null || valueB === null) {
+    return valueA === valueB ? 0 : valueA === null ? 1 : -1;
+  }
+  const order = typeof valueA === 'number' && typeof valueB === 'number'
+    ? valueA - valueB
+    : String(valueA).localeCompare(String(valueB));
+  return sortOrder === 'desc' ? -order : order;
+}
+
+function formatCustomValue(field: CustomFieldDefinition, value: CustomFieldValue): string {
+  if (field.type === 'number' && typeof value === 'number') return value.toLocaleString();
+  if (field.type === 'date') return new Date(`${value}T00:00:00`).toLocaleDateString();
+  return String(value);
+}
+
+// The search operator that finds applications with a tag
+const tagSearch = (tag: string) => (tag.includes(' ') ? `tag:"${tag}"` : `tag:${tag}`);
+
+async function fetchCustomFields(): Promise<CustomFieldDefinition[]> {
+  const response = await fetch('/api/custom-fields');
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || 'Failed to load custom fields');
+  return data;
 }
 
 const SkeletonCard = () => (
@@ -75,20 +174,56 @@ export default function Home() {
   const [jobEmails, setJobEmails] = useState<JobEmail[]>([]);
   const [loading, setLoading] = useState(false);
   const [initialLoading, setInitialLoading] = useState(true);
-  const [statusFilter, setStatusFilter] = useState<Status>('All');
-  const [searchTerm, setSearchTerm] = useState('');
+  const [filters, setFilters] = useState<DashboardFilters>(NO_FILTERS);
+  // Ids the server matched for the current filters; null when nothing is filtered
+  const [matchingIds, setMatchingIds] = useState<Set<string> | null>(null);
+  const [searchError, setSearchError] = useState<string | null>(null);
   const [sortBy, setSortBy] = useState<SortField>('date');
   const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
-  const [lastFetchTime, setLastFetchTime] = useState<number>(0);
   const [error, setError] = useState<string | null>(null);
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [backfill, setBackfill] = useState<BackfillProgress | null>(null);
+  const [gmailAccessExpired, setGmailAccessExpired] = useState(false);
+  const [editing, setEditing] = useState<JobEmail | 'new' | null>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>('grid');
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [showSearchSettings, setShowSearchSettings] = useState(false);
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([]);
+  const [showCustomFields, setShowCustomFields] = useState(false);
+  const [followUpAfterDays, setFollowUpAfterDays] = useState(14);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const needsReauth = gmailAccessExpired || session?.error === 'RefreshAccessTokenError';
+
+  // Stable so the effects that call it on load and on a timer can list it
+  const checkReminders = useCallback(async () => {
+    try {
+      const response = await fetch('/api/reminders/check', { method: 'POST' });
+      if (!response.ok) return;
+
+      const { newlyStale } = await response.json();
+      if (newlyStale.length > 0) {
+        await loadApplications();
+        showNotification(
+          "Applications Need a Follow-up",
+          `${newlyStale.length} application${newlyStale.length > 1 ? 's have' : ' has'} gone quiet`
+        );
+      }
+    } catch (error) {
+      console.error('Error checking reminders:', error);
+    }
+  }, []);
 
   useEffect(() => {
     if (session) {
       const initialize = async () => {
         setInitialLoading(true);
         try {
-          await loadSavedEmails();
+          await loadApplications();
+          await loadBackfillProgress();
+          await loadReminderSettings();
           await fetchEmails();
+          await checkReminders();
         } catch (error) {
           setError(error instanceof Error ? error.message : 'Failed to initialize');
         } finally {
@@ -98,74 +233,388 @@ export default function Home() {
       };
       initialize();
     }
+  }, [session, checkReminders]);
+
+  useEffect(() => {
+    if (!session) return;
+    fetchCustomFields()
+      .then(setCustomFields)
+      .catch((error) => console.error('Error loading custom fields:', error));
   }, [session]);
 
   useEffect(() => {
     if (!session) return;
 
-    const pollInterval = 5 * 60 * 1000; // 5 minutes
-    const intervalId = setInterval(checkNewEmails, pollInterval);
+    const intervalId = setInterval(checkReminders, REMINDER_CHECK_MS);
     return () => clearInterval(intervalId);
-  }, [session, lastFetchTime]);
+  }, [session, checkReminders]);
 
   useEffect(() => {
-    if (jobEmails.length > 0) {
-      localStorage.setItem('jobEmails', JSON.stringify(jobEmails));
+    if (!session) return;
+
+    // New mail is synced on the server and pushed here. After a dropped
+    // connection the browser resumes from the last event id it saw.
+    const source = new EventSource('/api/events');
+    let batch: ApplicationEventMessage[] = [];
+    let notifyTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const announceBatch = () => {
+      const created = batch.filter((message) => message.type === 'application.created');
+      const updated = batch.filter((message) => message.type === 'application.updated');
+      // Every open tab sees the same events; a shared tag shows the notification once
+      const tag = `applications-${batch[batch.length - 1].id}`;
+      batch = [];
+
+      if (created.length > 0) {
+        showNotification(
+          "New Job Applications",
+          `You have ${created.length} new job application${created.length > 1 ? 's' : ''}`,
+          tag
+        );
+      } else if (updated.length === 1) {
+        const { companyName, applicationStatus } = updated[0].application;
+        showNotification("Application Updated", `${companyName}: ${applicationStatus}`, tag);
+      } else if (updated.length > 1) {
+        showNotification("Applications Updated", `${updated.length} applications have new emails`, tag);
+      }
+    };
+
+    const applyEvent = (event: MessageEvent<string>) => {
+      const message: ApplicationEventMessage = JSON.parse(event.data);
+      const { application } = message;
+      setJobEmails((current) =>
+        current.some((other) => other.id === application.id)
+          ? current.map((other) => (other.id === application.id ? application : other))
+          : [application, ...current]
+      );
+
+      batch.push(message);
+      clearTimeout(notifyTimer);
+      notifyTimer = setTimeout(announceBatch, NOTIFY_BATCH_MS);
+    };
+
+    source.addEventListener('application.created', applyEvent);
+    source.addEventListener('application.updated', applyEvent);
+    return () => {
+      source.close();
+      clearTimeout(notifyTimer);
+    };
+  }, [session]);
+
+  // Filters come from the URL on load and on back/forward, so filtered views can be bookmarked
+  useEffect(() => {
+    const readLocation = () => setFilters(parseFilterQuery(window.location.search));
+    readLocation();
+    window.addEventListener('popstate', readLocation);
+    return () => window.removeEventListener('popstate', readLocation);
+  }, []);
+
+  const filterQuery = useMemo(() => toFilterQuery(filters), [filters]);
+
+  useEffect(() => {
+    if (!session || !filterQuery) {
+      setMatchingIds(null);
+      setSearchError(null);
+      return;
     }
-  }, [jobEmails]);
 
-  const loadSavedEmails = async () => {
-    const savedEmails = localStorage.getItem('jobEmails');
-    if (savedEmails) {
-      setJobEmails(JSON.parse(savedEmails));
+    // Runs again when applications change, so newly synced ones are matched too
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/applications?${filterQuery}`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Search failed');
+        if (cancelled) return;
+        setMatchingIds(new Set((data as JobApplication[]).map(application => application.id)));
+        setSearchError(null);
+      } catch (error) {
+        if (!cancelled) setSearchError(error instanceof Error ? error.message : 'Search failed');
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [session, filterQuery, jobEmails]);
+
+  const updateFilters = (changes: Partial<DashboardFilters>) => {
+    const next = { ...filters, ...changes };
+    setFilters(next);
+    const query = toFilterQuery(next);
+    window.history.replaceState(null, '', query ? `?${query}` : window.location.pathname);
+  };
+
+  const selectView = (query: string) => {
+    window.history.pushState(null, '', query ? `?${query}` : window.location.pathname);
+    setFilters(parseFilterQuery(query));
+  };
+
+  const toggleStatusFilter = (status: ApplicationStatus) => {
+    updateFilters({
+      statuses: filters.statuses.includes(status)
+        ? filters.statuses.filter(other => other !== status)
+        : [...filters.statuses, status],
+    });
+  };
+
+  useEffect(() => {
+    if (localStorage.getItem(VIEW_MODE_KEY) === 'board') {
+      setViewMode('board');
     }
+  }, []);
+
+  const changeViewMode = (mode: ViewMode) => {
+    setViewMode(mode);
+    localStorage.setItem(VIEW_MODE_KEY, mode);
   };
 
-  const setupNotifications = () => {
-    if ("Notification" in window && Notification.permission === "default") {
-      Notification.requestPermission();
+  const loadApplications = async () => {
+    const response = await fetch('/api/applications');
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to load applications');
     }
+
+    setJobEmails(data);
   };
 
-  const checkNewEmails = async () => {
-    if (!session || loading) return;
+  useEffect(() => {
+    if (backfill?.status !== 'running') return;
+
+    const intervalId = setInterval(async () => {
+      try {
+        const response = await fetch('/api/gmail/backfill');
+        if (!response.ok) return;
+        setBackfill(await response.json());
+
+        const applications = await fetch('/api/applications');
+        if (applications.ok) {
+          setJobEmails(await applications.json());
+        }
+      } catch (error) {
+        console.error('Error checking backfill progress:', error);
+      }
+    }, 3000);
+    return () => clearInterval(intervalId);
+  }, [backfill?.status]);
+
+  const loadBackfillProgress = async () => {
+    const response = await fetch('/api/gmail/backfill');
+    if (response.ok) {
+      setBackfill(await response.json());
+    }
+  };
 
+  const startBackfill = async () => {
+    setError(null);
     try {
-      const response = await fetch('/api/gmail/new', {
-        method: 'POST',
+      const response = await fetch('/api/gmail/backfill', { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start import');
+      }
+
+      setBackfill(data);
+    } catch (error) {
+      console.error('Error starting backfill:', error);
+      setError(error instanceof Error ? error.message : 'Failed to start import');
+    }
+  };
+
+  const saveApplication = async (input: ApplicationInput) => {
+    const response = editing && editing !== 'new'
+      ? await fetch(`/api/applications/${editing.id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input),
+        })
+      : await fetch('/api/applications', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input),
+        });
+
+    if (!response.ok) {
+      const data = await response.json();
+      throw new Error(data.error || 'Failed to save application');
+    }
+
+    setEditing(null);
+    await loadApplications();
+  };
+
+  const changeStatus = async (application: JobEmail, status: ApplicationStatus) => {
+    setError(null);
+    // Move the card right away; the reload brings in the new timeline entry
+    setJobEmails(prev => prev.map(app => app.id === application.id ? { ...app, applicationStatus: status } : app));
+    try {
+      const response = await fetch(`/api/applications/${application.id}`, {
+        method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ lastFetchTime }),
+        body: JSON.stringify({ applicationStatus: status }),
       });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update status');
+      }
+    } catch (error) {
+      console.error('Error updating status:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update status');
+    }
+    await loadApplications().catch(() => undefined);
+  };
 
+  const changePriority = async (application: JobEmail, priority: Priority | null) => {
+    setError(null);
+    setJobEmails(prev => prev.map(app => app.id === application.id ? { ...app, priority } : app));
+    try {
+      const response = await fetch(`/api/applications/${application.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ priority }),
+      });
       if (!response.ok) {
-        throw new Error('Failed to fetch new emails');
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update priority');
       }
+    } catch (error) {
+      console.error('Error updating priority:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update priority');
+      await loadApplications().catch(() => undefined);
+    }
+  };
 
-      const newEmails = await response.json();
-      
-      if (newEmails.length > 0) {
-        updateEmailsWithNewData(newEmails);
-        showNotification(newEmails.length);
+  const filterByTag = (tag: string) => {
+    const token = tagSearch(tag);
+    if (!filters.q.includes(token)) updateFilters({ q: `${filters.q} ${token}`.trim() });
+  };
+
+  // Renamed or deleted fields change what is shown and what a sort refers to
+  const closeCustomFields = async () => {
+    setShowCustomFields(false);
+    try {
+      const fields = await fetchCustomFields();
+      setCustomFields(fields);
+      setSortBy(prev =>
+        prev.startsWith('field:') && !fields.some(field => `field:${field.id}` === prev) ? 'date' : prev
+      );
+      await loadApplications();
+    } catch (error) {
+      console.error('Error reloading custom fields:', error);
+    }
+  };
+
+  const deleteApplication = async (application: JobEmail) => {
+    if (!window.confirm(`Delete ${application.companyName} – ${application.jobProfile}?`)) return;
+
+    setError(null);
+    try {
+      const response = await fetch(`/api/applications/${application.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete application');
       }
+      await loadApplications();
     } catch (error) {
-      console.error('Error checking new emails:', error);
-      setError(error instanceof Error ? error.message : 'Failed to check new emails');
+      console.error('Error deleting application:', error);
+      setError(error instanceof Error ? error.message : 'Failed to delete application');
     }
   };
 
-  const updateEmailsWithNewData = (newEmails: JobEmail[]) => {
-    setJobEmails(prev => {
-      const combined = [...newEmails, ...prev];
-      return Array.from(new Map(combined.map(item => [item.id, item])).values());
-    });
-    setLastFetchTime(Date.now());
+  const exportUrl = (format: 'csv' | 'json') => {
+    const params = new URLSearchParams(filterQuery);
+    params.set('format', format);
+    return `/api/applications/export?${params}`;
   };
 
-  const showNotification = (count: number) => {
-    if (Notification.permission === "granted") {
-      new Notification("New Job Applications", {
-        body: `You have ${count} new job application${count > 1 ? 's' : ''}`,
+  const importCsv = async (file: File) => {
+    setError(null);
+    setImportReport(null);
+    try {
+      const response = await fetch('/api/applications/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/csv' },
+        body: await file.text(),
       });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import applications');
+      }
+
+      setImportReport(data);
+      await loadApplications();
+    } catch (error) {
+      console.error('Error importing applications:', error);
+      setError(error instanceof Error ? error.message : 'Failed to import applications');
+    }
+  };
+
+  const backfillPercent = useMemo(() => {
+    if (!backfill?.total) return null;
+    const done = backfill.processed + backfill.failed;
+    return Math.min(100, Math.round((done / Math.max(backfill.total, done)) * 100));
+  }, [backfill]);
+
+  const setupNotifications = () => {
+    if ("Notification" in window && Notification.permission === "default") {
+      Notification.requestPermission();
+    }
+  };
+
+  const loadReminderSettings = async () => {
+    const response = await fetch('/api/reminders');
+    if (response.ok) {
+      const data = await response.json();
+      setFollowUpAfterDays(data.followUpAfterDays);
+    }
+  };
+
+  const changeFollowUpAfterDays = async (days: number) => {
+    setFollowUpAfterDays(days);
+    try {
+      const response = await fetch('/api/reminders', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ followUpAfterDays: days }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update reminder settings');
+      }
+      await loadApplications();
+    } catch (error) {
+      console.error('Error updating reminder settings:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update reminder settings');
+    }
+  };
+
+  const updateReminder = async (application: JobEmail, action: 'snooze' | 'dismiss') => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/reminders/${application.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update reminder');
+      }
+      await loadApplications();
+    } catch (error) {
+      console.error('Error updating reminder:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update reminder');
+    }
+  };
+
+  const showNotification = (title: string, body: string, tag?: string) => {
+    if (Notification.permission === "granted") {
+      new Notification(title, { body, tag });
     }
   };
 
@@ -179,11 +628,11 @@ export default function Home() {
       const data = await response.json();
       
       if (!response.ok) {
+        if (data.reauth) setGmailAccessExpired(true);
         throw new Error(data.error || 'Failed to fetch emails');
       }
       
-      setJobEmails(data);
-      setLastFetchTime(Date.now());
+      await loadApplications();
     } catch (error) {
       console.error('Error fetching emails:', error);
       setError(error instanceof Error ? error.message : 'Failed to fetch emails');
@@ -199,29 +648,28 @@ export default function Home() {
     }, {});
   }, [jobEmails]);
 
+  const reminders = useMemo(() => jobEmails.filter(email => email.needsFollowUp), [jobEmails]);
+
   const filteredAndSortedEmails = useMemo(() => {
     return jobEmails
-      .filter(email => {
-        const matchesStatus = statusFilter === 'All' || email.applicationStatus === statusFilter;
-        const matchesSearch = !searchTerm || 
-          email.companyName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          email.jobProfile?.toLowerCase().includes(searchTerm.toLowerCase());
-        return matchesStatus && matchesSearch;
-      })
-      .sort((a, b) => {
-        if (sortBy === 'date') {
-          const dateA = new Date(a.date).getTime();
-          const dateB = new Date(b.date).getTime();
-          return sortOrder === 'desc' ? dateB - dateA : dateA - dateB;
-        }
-        return sortOrder === 'desc'
-          ? b.companyName.localeCompare(a.companyName)
-          : a.companyName.localeCompare(b.companyName);
-      });
-  }, [jobEmails, statusFilter, searchTerm, sortBy, sortOrder]);
+      .filter(email => !matchingIds || matchingIds.has(email.id))
+      .sort((a, b) => compareApplications(a, b, sortBy, sortOrder));
+  }, [jobEmails, matchingIds, sortBy, sortOrder]);
+
+  const toggleExpanded = (id: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
 
-  const getStatusColor = (status: Status) => {
-    const colors = {
+  const getStatusColor = (status: ApplicationStatus) => {
+    const colors: Record<string, string> = {
       Rejected: 'bg-red-100 text-red-800',
       Interview: 'bg-blue-100 text-blue-800',
       Offer: 'bg-green-100 text-green-800',
@@ -287,6 +735,12 @@ export default function Home() {
               </div>
             </div>
             <div className="flex gap-4">
+              <button
+                onClick={() => setEditing('new')}
+                className="px-6 py-2 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 dark:hover:bg-gray-700 transition-all duration-200"
+              >
+                Add application
+              </button>
               <button
                 onClick={fetchEmails}
                 disabled={loading}
@@ -301,6 +755,37 @@ export default function Home() {
                   'Refresh'
                 )}
               </button>
+              <button
+                onClick={startBackfill}
+                disabled={backfill?.status === 'running'}
+                className="px-6 py-2 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-all duration-200"
+              >
+                {backfill?.status === 'failed' ? 'Resume import' : 'Import history'}
+              </button>
+              <Link
+                href="/companies"
+                className="px-6 py-2 text-gray-600 hover:text-gray-800 dark:text-gray-300 transition-colors"
+              >
+                Companies
+              </Link>
+              <Link
+                href="/contacts"
+                className="px-6 py-2 text-gray-600 hover:text-gray-800 dark:text-gray-300 transition-colors"
+              >
+                Contacts
+              </Link>
+              <button
+                onClick={() => setShowCustomFields(true)}
+                className="px-6 py-2 text-gray-600 hover:text-gray-800 dark:text-gray-300 transition-colors"
+              >
+                Custom fields
+              </button>
+              <button
+                onClick={() => setShowSearchSettings(true)}
+                className="px-6 py-2 text-gray-600 hover:text-gray-800 dark:text-gray-300 transition-colors"
+              >
+                Mail filters
+              </button>
               <button
                 onClick={() => signOut()}
                 className="px-6 py-2 text-gray-600 hover:text-gray-800 transition-colors"
@@ -311,14 +796,103 @@ export default function Home() {
           </div>
         </header>
 
+        {/* Re-consent Prompt */}
+        {needsReauth && (
+          <div className="mb-6 p-4 bg-yellow-100 text-yellow-800 rounded-lg flex items-center justify-between gap-4">
+            <span>Your Gmail access has expired. Reconnect your Google account to keep syncing.</span>
+            <button
+              onClick={() => signIn('google')}
+              className="px-4 py-2 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 transition-colors"
+            >
+              Reconnect Gmail
+            </button>
+          </div>
+        )}
+
         {/* Error Message */}
-        {error && (
+        {error && !needsReauth && (
           <div className="mb-6 p-4 bg-red-100 text-red-800 rounded-lg">
             {error}
           </div>
         )}
 
+        {/* Import Report */}
+        {importReport && (
+          <div className="mb-6 p-4 bg-blue-50 text-blue-900 dark:bg-gray-800 dark:text-blue-200 rounded-lg">
+            <div className="flex items-center justify-between gap-4">
+              <span>
+                Import finished: {importReport.created} created, {importReport.merged} merged, {importReport.rejected} rejected
+              </span>
+              <button onClick={() => setImportReport(null)} className="text-sm hover:underline">
+                Dismiss
+              </button>
+            </div>
+            {importReport.rejected > 0 && (
+              <ul className="mt-2 text-sm list-disc pl-5">
+                {importReport.rows.filter(row => row.outcome === 'rejected').map(row => (
+                  <li key={row.row}>Row {row.row}: {row.error}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {/* Backfill Progress */}
+        {backfill && backfill.status !== 'completed' && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-4 mb-6">
+            <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-300 mb-2">
+              <span>
+                {backfill.status === 'running' ? 'Importing mailbox history...' : 'Import stopped'}
+              </span>
+              <span>
+                {backfill.processed} processed
+                {backfill.total ? ` of ~${backfill.total}` : ''}
+                {backfill.failed > 0 ? `, ${backfill.failed} failed` : ''}
+              </span>
+            </div>
+            <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+              <div
+                className={`h-full transition-all duration-500 ${backfill.status === 'failed' ? 'bg-red-500' : 'bg-blue-600'} ${backfillPercent === null ? 'animate-pulse w-full' : ''}`}
+                style={backfillPercent === null ? undefined : { width: `${backfillPercent}%` }}
+              />
+            </div>
+            {backfill.error && (
+              <p className="mt-2 text-sm text-red-600">{backfill.error}</p>
+            )}
+          </div>
+        )}
+
+        {/* Review queue */}
+        <ReviewQueue refreshKey={jobEmails} onConfirmed={loadApplications} />
+
+        {/* Follow-ups */}
+        <FollowUpPanel
+          reminders={reminders}
+          followUpAfterDays={followUpAfterDays}
+          onFollowUpAfterDaysChange={changeFollowUpAfterDays}
+          onSnooze={(application) => updateReminder(application, 'snooze')}
+          onDismiss={(application) => updateReminder(application, 'dismiss')}
+        />
+
+        {/* Interviews */}
+        <UpcomingInterviews refreshKey={jobEmails} />
+
+        {/* Offers */}
+        <OfferComparison
+          offerApplications={jobEmails.filter((email) => email.applicationStatus === 'Offer')}
+          refreshKey={jobEmails}
+        />
+
         {/* Stats */}
+        <div className="flex justify-end mb-2">
+          <button
+            onClick={() => setShowAnalytics(!showAnalytics)}
+            className="text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400"
+          >
+            {showAnalytics ? 'Hide analytics' : 'Show analytics'}
+          </button>
+        </div>
+        {showAnalytics && <AnalyticsPanel />}
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
           {loading && !jobEmails.length ? (
             Array(4).fill(0).map((_, index) => (
@@ -339,108 +913,346 @@ export default function Home() {
           )}
         </div>
 
-        {/* Filters */}
-        <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-sm mb-6">
-          <div className="flex flex-wrap gap-4 items-center justify-between">
-            <div className="flex gap-4 items-center">
-              <input
-                type="text"
-                placeholder="Search companies or roles..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
-                disabled={loading}
-              />
-              <select
-                value={statusFilter}
-                onChange={(e) => setStatusFilter(e.target.value as Status)}
-                className="px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
-                disabled={loading}
-              >
-                <option value="All">All Status</option>
-                {Object.entries(statusCounts).map(([status, count]) => (
-                  <option key={status} value={status}>
-                    {status} ({count})
-                  </option>
+        <div className="lg:flex lg:gap-6">
+          {/* Saved Views */}
+          <aside className="lg:w-56 shrink-0 mb-6">
+            <SavedViews currentQuery={filterQuery} onSelect={selectView} />
+          </aside>
+
+          <div className="flex-1 min-w-0">
+            {/* Filters */}
+            <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-sm mb-6">
+              <div className="flex flex-wrap gap-4 items-center justify-between">
+                <div className="flex flex-wrap gap-4 items-center">
+                  <input
+                    type="text"
+                    placeholder="Search, e.g. status:interview company:acme tag:remote priority:high"
+                    value={filters.q}
+                    onChange={(e) => updateFilters({ q: e.target.value })}
+                    className="w-96 max-w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                    disabled={loading}
+                  />
+                  <label className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+                    From
+                    <input
+                      type="date"
+                      value={filters.after}
+                      onChange={(e) => updateFilters({ after: e.target.value })}
+                      className="px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                    />
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+                    Before
+                    <input
+                      type="date"
+                      value={filters.before}
+                      onChange={(e) => updateFilters({ before: e.target.value })}
+                      className="px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                    />
+                  </label>
+                </div>
+                <div className="flex gap-4 items-center">
+                  <div className="flex gap-3 text-sm">
+                    <a href={exportUrl('csv')} className="text-blue-600 hover:text-blue-800 dark:text-blue-400">
+                      Export CSV
+                    </a>
+                    <a href={exportUrl('json')} className="text-blue-600 hover:text-blue-800 dark:text-blue-400">
+                      Export JSON
+                    </a>
+                    <button
+                      onClick={() => importInputRef.current?.click()}
+                      className="text-blue-600 hover:text-blue-800 dark:text-blue-400"
+                    >
+                      Import CSV
+                    </button>
+                    <input
+                      ref={importInputRef}
+                      type="file"
+                      accept=".csv,text/csv"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) importCsv(file);
+                        e.target.value = '';
+                      }}
+                    />
+                  </div>
+                  <div className="flex rounded-lg border dark:border-gray-600 overflow-hidden">
+                    {(['grid', 'board'] as const).map((mode) => (
+                      <button
+                        key={mode}
+                        onClick={() => changeViewMode(mode)}
+                        className={`px-4 py-2 text-sm capitalize transition-colors ${
+                          viewMode === mode
+                            ? 'bg-blue-600 text-white'
+                            : 'text-gray-600 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700'
+                        }`}
+                      >
+                        {mode}
+                      </button>
+                    ))}
+                  </div>
+                  <select
+                    value={sortBy}
+                    onChange={(e) => setSortBy(e.target.value as SortField)}
+                    className="px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                    disabled={loading}
+                  >
+                    <option value="date">Sort by Date</option>
+                    <option value="company">Sort by Company</option>
+                    <option value="priority">Sort by Priority</option>
+                    {customFields.map(field => (
+                      <option key={field.id} value={`field:${field.id}`}>Sort by {field.name}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc')}
+                    className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                    disabled={loading}
+                  >
+                    {sortOrder === 'asc' ? '↑' : '↓'}
+                  </button>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2 items-center mt-4">
+                {APPLICATION_STATUSES.map(status => (
+                  <button
+                    key={status}
+                    onClick={() => toggleStatusFilter(status)}
+                    className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                      filters.statuses.includes(status)
+                        ? `${getStatusColor(status)} ring-2 ring-blue-500`
+                        : 'bg-gray-100 text-gray-600 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+                    }`}
+                  >
+                    {status} ({statusCounts[status] ?? 0})
+                  </button>
                 ))}
-              </select>
-            </div>
-            <div className="flex gap-4 items-center">
-              <select
-                value={sortBy}
-                onChange={(e) => setSortBy(e.target.value as SortField)}
-                className="px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
-                disabled={loading}
-              >
-                <option value="date">Sort by Date</option>
-                <option value="company">Sort by Company</option>
-              </select>
-              <button
-                onClick={() => setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc')}
-                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
-                disabled={loading}
-              >
-                {sortOrder === 'asc' ? '↑' : '↓'}
-              </button>
+                {filterQuery && (
+                  <button
+                    onClick={() => updateFilters(NO_FILTERS)}
+                    className="text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400"
+                  >
+                    Clear filters
+                  </button>
+                )}
+              </div>
+              {searchError && <p className="mt-2 text-sm text-red-600">{searchError}</p>}
             </div>
-          </div>
-        </div>
 
-        {/* Job Applications Grid */}
-        <div className="space-y-6">
-          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
-            Job Applications ({loading ? '...' : filteredAndSortedEmails.length})
-          </h2>
-          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-            {loading && !jobEmails.length ? (
-              Array(6).fill(0).map((_, index) => (
-                <SkeletonCard key={index} />
-              ))
-            ) : filteredAndSortedEmails.length > 0 ? (
-              filteredAndSortedEmails.map((email) => (
-                <div
-                  key={email.id}
-                  className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 hover:shadow-md transition-all duration-200"
-                >
-                  <div className="space-y-4">
-                    <div>
-                      <h3 className="font-semibold text-gray-900 dark:text-white text-lg">
-                        {email.companyName}
-                      </h3>
-                      <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
-                        {email.jobProfile}
-                      </p>
-                    </div>
-                    
-                    <div className="flex items-center justify-between">
-                      <span className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(email.applicationStatus)}`}>
-                        {email.applicationStatus}
-                      </span>
-                      <span className="text-sm text-gray-400">
-                        {new Date(email.date).toLocaleDateString()}
-                      </span>
-                    </div>
+            {/* Job Applications Grid / Board */}
+            <div className="space-y-6">
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+                Job Applications ({loading ? '...' : filteredAndSortedEmails.length})
+              </h2>
+              {viewMode === 'board' ? (
+                <KanbanBoard
+                  applications={filteredAndSortedEmails}
+                  getStatusColor={getStatusColor}
+                  onStatusChange={changeStatus}
+                  onEdit={setEditing}
+                />
+              ) : (
+                <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+                  {loading && !jobEmails.length ? (
+                    Array(6).fill(0).map((_, index) => (
+                      <SkeletonCard key={index} />
+                    ))
+                  ) : filteredAndSortedEmails.length > 0 ? (
+                    filteredAndSortedEmails.map((email) => (
+                      <div
+                        key={email.id}
+                        className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 hover:shadow-md transition-all duration-200"
+                      >
+                        <div className="space-y-4">
+                          <div className="flex items-start justify-between gap-2">
+                            <div>
+                              <h3 className="font-semibold text-gray-900 dark:text-white text-lg">
+                                {email.companyId ? (
+                                  <Link href={`/companies/${email.companyId}`} className="hover:text-blue-600 dark:hover:text-blue-400">
+                                    {email.companyName}
+                                  </Link>
+                                ) : (
+                                  email.companyName
+                                )}
+                              </h3>
+                              <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">
+                                {email.jobProfile}
+                              </p>
+                            </div>
+                            <div className="flex gap-1 shrink-0">
+                              {email.source === 'manual' && (
+                                <span className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-600">Manual</span>
+                              )}
+                              {email.needsFollowUp && (
+                                <span className="px-2 py-0.5 rounded-full text-xs bg-orange-100 text-orange-800">Needs follow-up</span>
+                              )}
+                              {email.source !== 'manual' && email.overriddenFields.length > 0 && (
+                                <span className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-600">Edited</span>
+                              )}
+                            </div>
+                          </div>
+
+                          {(email.location || email.salaryRange || email.link) && (
+                            <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-500 dark:text-gray-400">
+                              {email.location && <span>{email.location}</span>}
+                              {email.salaryRange && <span>{email.salaryRange}</span>}
+                              {email.link && (
+                                <a
+                                  href={email.link}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-blue-600 hover:text-blue-800 dark:text-blue-400"
+                                >
+                                  Job posting
+                                </a>
+                              )}
+                            </div>
+                          )}
 
-                    <div className="pt-2 border-t border-gray-100 dark:border-gray-700">
-                      <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
-                        From: {email.from}
+                          <div className="flex flex-wrap items-center gap-2">
+                            <select
+                              value={email.priority ?? ''}
+                              onChange={(e) => changePriority(email, (e.target.value || null) as Priority | null)}
+                              aria-label="Priority"
+                              className={`px-2 py-0.5 rounded-full text-xs font-medium border-0 cursor-pointer ${
+                                email.priority ? PRIORITY_COLORS[email.priority] : 'bg-gray-100 text-gray-500 dark:bg-gray-700 dark:text-gray-400'
+                              }`}
+                            >
+                              <option value="">No priority</option>
+                              {PRIORITIES.map(priority => (
+                                <option key={priority} value={priority}>
+                                  {priority.charAt(0).toUpperCase() + priority.slice(1)} priority
+                                </option>
+                              ))}
+                            </select>
+                            {email.tags.map(tag => (
+                              <button
+                                key={tag}
+                                onClick={() => filterByTag(tag)}
+                                title={`Show applications tagged ${tag}`}
+                                className="px-2 py-0.5 rounded-full text-xs bg-blue-50 text-blue-700 hover:bg-blue-100 dark:bg-gray-700 dark:text-blue-300"
+                              >
+                                #{tag}
+                              </button>
+                            ))}
+                          </div>
+
+                          {customFields.some(field => field.id in email.customFields) && (
+                            <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                              {customFields.filter(field => field.id in email.customFields).map(field => (
+                                <div key={field.id} className="min-w-0">
+                                  <dt className="text-xs text-gray-400">{field.name}</dt>
+                                  <dd className="text-gray-700 dark:text-gray-300 truncate">
+                                    {formatCustomValue(field, email.customFields[field.id])}
+                                  </dd>
+                                </div>
+                              ))}
+                            </dl>
+                          )}
+
+                          <div className="flex items-center justify-between">
+                            <span className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(email.applicationStatus)}`}>
+                              {email.applicationStatus}
+                            </span>
+                            <span className="text-sm text-gray-400">
+                              {new Date(email.date).toLocaleDateString()}
+                            </span>
+                          </div>
+
+                          {email.notes && (
+                            <p className="text-sm text-gray-600 dark:text-gray-300 whitespace-pre-line line-clamp-3">
+                              {email.notes}
+                            </p>
+                          )}
+
+                          <div className="pt-2 border-t border-gray-100 dark:border-gray-700">
+                            {email.from && (
+                              <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                                From: {email.from}
+                              </p>
+                            )}
+                            <div className="mt-2 flex items-center justify-between">
+                              {email.history.length > 0 ? (
+                                <button
+                                  onClick={() => toggleExpanded(email.id)}
+                                  className="text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400"
+                                >
+                                  {expandedIds.has(email.id) ? 'Hide timeline' : `Show timeline (${email.history.length})`}
+                                </button>
+                              ) : <span />}
+                              <div className="flex gap-3 text-sm">
+                                <button
+                                  onClick={() => setEditing(email)}
+                                  className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-white"
+                                >
+                                  Edit
+                                </button>
+                                <button
+                                  onClick={() => deleteApplication(email)}
+                                  className="text-red-500 hover:text-red-700"
+                                >
+                                  Delete
+                                </button>
+                              </div>
+                            </div>
+                          </div>
+
+                          {expandedIds.has(email.id) && (
+                            <ol className="space-y-3 border-l-2 border-gray-200 dark:border-gray-700 pl-4">
+                              {email.history.map((entry) => (
+                                <li key={entry.id} className="text-sm">
+                                  <div className="flex items-center justify-between gap-2">
+                                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(entry.status)}`}>
+                                      {entry.status}
+                                    </span>
+                                    <span className="text-xs text-gray-400">
+                                      {new Date(entry.date).toLocaleDateString()}
+                                    </span>
+                                  </div>
+                                  {entry.subject && (
+                                    <p className="mt-1 text-gray-600 dark:text-gray-300 truncate">
+                                      {entry.subject}
+                                    </p>
+                                  )}
+                                </li>
+                              ))}
+                            </ol>
+                          )}
+                        </div>
+                      </div>
+                    ))
+                  ) : (
+                    <div className="col-span-full text-center py-12">
+                      <p className="text-gray-500 dark:text-gray-400">
+                        {filterQuery
+                          ? 'No applications match your filters' 
+                          : 'No applications found. They will appear here once processed.'}
                       </p>
                     </div>
-                  </div>
+                  )}
                 </div>
-              ))
-            ) : (
-              <div className="col-span-full text-center py-12">
-                <p className="text-gray-500 dark:text-gray-400">
-                  {searchTerm || statusFilter !== 'All' 
-                    ? 'No applications match your filters' 
-                    : 'No applications found. They will appear here once processed.'}
-                </p>
-              </div>
-            )}
+              )}
+            </div>
           </div>
         </div>
 
+        {/* Add / Edit Form */}
+        {editing && (
+          <ApplicationForm
+            application={editing === 'new' ? undefined : editing}
+            customFields={customFields}
+            onSubmit={saveApplication}
+            onCancel={() => setEditing(null)}
+          />
+        )}
+
+        {/* Mail Filters */}
+        {showSearchSettings && <SearchSettingsForm onClose={() => setShowSearchSettings(false)} />}
+
+        {/* Custom Fields */}
+        {showCustomFields && <CustomFieldsForm onClose={closeCustomFields} />}
+
         {/* Loading Overlay for Subsequent Fetches */}
         {loading && jobEmails.length > 0 && (
           <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50">
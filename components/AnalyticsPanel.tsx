@@ -0,0 +1,123 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import type { AnalyticsSummary } from "../utils/types";
+
+const formatDays = (days: number | null) => (days === null ? '–' : `${days} day${days === 1 ? '' : 's'}`);
+
+export function AnalyticsPanel() {
+  const [analytics, setAnalytics] = useState<AnalyticsSummary | null>(null);
+  const [ghostedDays, setGhostedDays] = useState(30);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadAnalytics = async () => {
+      try {
+        const response = await fetch(`/api/analytics?ghostedDays=${ghostedDays}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load analytics');
+        }
+
+        setAnalytics(data);
+        setError(null);
+      } catch (error) {
+        console.error('Error loading analytics:', error);
+        setError(error instanceof Error ? error.message : 'Failed to load analytics');
+      }
+    };
+    loadAnalytics();
+  }, [ghostedDays]);
+
+  if (error) {
+    return <div className="mb-6 p-4 bg-red-100 text-red-800 rounded-lg">{error}</div>;
+  }
+
+  if (!analytics) {
+    return <div className="mb-6 h-64 bg-white dark:bg-gray-800 rounded-lg shadow-sm animate-pulse" />;
+  }
+
+  const maxWeekly = Math.max(1, ...analytics.weeklyApplications.map((week) => week.count));
+  const applied = analytics.funnel[0]?.count || 1;
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2 mb-6">
+      {/* Funnel */}
+      <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm">
+        <h3 className="font-semibold text-gray-900 dark:text-white mb-4">Funnel</h3>
+        <div className="space-y-3">
+          {analytics.funnel.map((stage) => (
+            <div key={stage.stage}>
+              <div className="flex justify-between text-sm text-gray-600 dark:text-gray-300 mb-1">
+                <span>{stage.stage}</span>
+                <span>
+                  {stage.count}
+                  {stage.conversionFromPrevious !== null && ` · ${stage.conversionFromPrevious}% of previous`}
+                </span>
+              </div>
+              <div className="h-3 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                <div className="h-full bg-blue-600" style={{ width: `${(stage.count / applied) * 100}%` }} />
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Response Times */}
+      <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm">
+        <h3 className="font-semibold text-gray-900 dark:text-white mb-4">Responses</h3>
+        <dl className="grid grid-cols-2 gap-4">
+          <div>
+            <dt className="text-sm text-gray-500 dark:text-gray-400">Median to first response</dt>
+            <dd className="text-2xl font-bold text-gray-900 dark:text-white mt-1">
+              {formatDays(analytics.medianDaysToFirstResponse)}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-sm text-gray-500 dark:text-gray-400">Median to rejection</dt>
+            <dd className="text-2xl font-bold text-gray-900 dark:text-white mt-1">
+              {formatDays(analytics.medianDaysToRejection)}
+            </dd>
+          </div>
+          <div className="col-span-2">
+            <dt className="text-sm text-gray-500 dark:text-gray-400 flex items-center gap-2">
+              Ghosted after
+              <input
+                type="number"
+                min={1}
+                max={365}
+                value={ghostedDays}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  if (Number.isInteger(value) && value >= 1 && value <= 365) setGhostedDays(value);
+                }}
+                className="w-16 px-2 py-0.5 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+              />
+              days without a reply
+            </dt>
+            <dd className="text-2xl font-bold text-gray-900 dark:text-white mt-1">{analytics.ghosted}</dd>
+          </div>
+        </dl>
+      </div>
+
+      {/* Weekly Volume */}
+      <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm md:col-span-2">
+        <h3 className="font-semibold text-gray-900 dark:text-white mb-4">Applications sent per week</h3>
+        <div className="flex items-end gap-2 h-40">
+          {analytics.weeklyApplications.map((week) => (
+            <div key={week.weekStart} className="flex-1 flex flex-col items-center justify-end h-full gap-1">
+              <span className="text-xs text-gray-500 dark:text-gray-400">{week.count || ''}</span>
+              <div
+                className="w-full bg-blue-600 rounded-t"
+                style={{ height: `${(week.count / maxWeekly) * 100}%` }}
+                title={`Week of ${week.weekStart}: ${week.count}`}
+              />
+              <span className="text-xs text-gray-400">{week.weekStart.slice(5)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
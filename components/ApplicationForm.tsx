@@ -0,0 +1,159 @@
+'use client';
+
+import { useState } from "react";
+import {
+  APPLICATION_STATUSES,
+  PRIORITIES,
+  type ApplicationInput,
+  type CustomFieldDefinition,
+  type JobApplication,
+  type Priority,
+} from "../utils/types";
+
+interface ApplicationFormProps {
+  application?: JobApplication;
+  customFields: CustomFieldDefinition[];
+  onSubmit: (input: ApplicationInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+const inputClassName =
+  "w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white";
+
+const toDateInput = (value: string | undefined) => (value ? value.slice(0, 10) : '');
+
+const CUSTOM_INPUT_TYPES = { text: 'text', number: 'number', date: 'date' } as const;
+
+export function ApplicationForm({ application, customFields, onSubmit, onCancel }: ApplicationFormProps) {
+  const [form, setForm] = useState({
+    companyName: application?.companyName ?? '',
+    jobProfile: application?.jobProfile ?? '',
+    applicationStatus: application?.applicationStatus ?? 'Applied',
+    date: toDateInput(application?.date) || toDateInput(new Date().toISOString()),
+    link: application?.link ?? '',
+    salaryRange: application?.salaryRange ?? '',
+    location: application?.location ?? '',
+    notes: application?.notes ?? '',
+    tags: application?.tags.join(', ') ?? '',
+    priority: application?.priority ?? '',
+  });
+  const [customValues, setCustomValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(customFields.map(field => [field.id, String(application?.customFields[field.id] ?? '')]))
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (field: keyof typeof form) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) =>
+      setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      await onSubmit({
+        ...form,
+        date: form.date ? new Date(form.date).toISOString() : null,
+        link: form.link || null,
+        salaryRange: form.salaryRange || null,
+        location: form.location || null,
+        notes: form.notes || null,
+        tags: form.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+        priority: (form.priority || null) as Priority | null,
+        // Every field is sent so a cleared input clears its value
+        customFields: Object.fromEntries(customFields.map(field => [field.id, customValues[field.id] || null])),
+      });
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save application');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-xl w-full max-w-lg space-y-4 max-h-full overflow-y-auto"
+      >
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+          {application ? 'Edit application' : 'Add application'}
+        </h2>
+
+        {error && (
+          <div className="p-3 bg-red-100 text-red-800 rounded-lg text-sm">{error}</div>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <input required placeholder="Company" value={form.companyName} onChange={update('companyName')} className={inputClassName} />
+          <input required placeholder="Role" value={form.jobProfile} onChange={update('jobProfile')} className={inputClassName} />
+          <select value={form.applicationStatus} onChange={update('applicationStatus')} className={inputClassName}>
+            {APPLICATION_STATUSES.map((status) => (
+              <option key={status} value={status}>{status}</option>
+            ))}
+          </select>
+          <input type="date" value={form.date} onChange={update('date')} className={inputClassName} />
+          <input type="url" placeholder="Job posting link" value={form.link} onChange={update('link')} className={`${inputClassName} sm:col-span-2`} />
+          <input placeholder="Salary range" value={form.salaryRange} onChange={update('salaryRange')} className={inputClassName} />
+          <input placeholder="Location" value={form.location} onChange={update('location')} className={inputClassName} />
+          <input placeholder="Tags, comma-separated" value={form.tags} onChange={update('tags')} className={inputClassName} />
+          <select value={form.priority} onChange={update('priority')} className={`${inputClassName} capitalize`}>
+            <option value="">No priority</option>
+            {PRIORITIES.map((priority) => (
+              <option key={priority} value={priority}>{priority}</option>
+            ))}
+          </select>
+          <textarea placeholder="Notes" rows={4} value={form.notes} onChange={update('notes')} className={`${inputClassName} sm:col-span-2`} />
+        </div>
+
+        {customFields.length > 0 && (
+          <div className="grid gap-4 sm:grid-cols-2">
+            {customFields.map((field) => (
+              <label key={field.id} className="space-y-1 text-sm text-gray-600 dark:text-gray-300">
+                <span>{field.name}</span>
+                {field.type === 'select' ? (
+                  <select
+                    value={customValues[field.id]}
+                    onChange={(e) => setCustomValues(prev => ({ ...prev, [field.id]: e.target.value }))}
+                    className={inputClassName}
+                  >
+                    <option value="">—</option>
+                    {field.options.map((option) => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    type={CUSTOM_INPUT_TYPES[field.type]}
+                    step={field.type === 'number' ? 'any' : undefined}
+                    value={customValues[field.id]}
+                    onChange={(e) => setCustomValues(prev => ({ ...prev, [field.id]: e.target.value }))}
+                    className={inputClassName}
+                  />
+                )}
+              </label>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-6 py-2 text-gray-600 hover:text-gray-800 dark:text-gray-300 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-all duration-200"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
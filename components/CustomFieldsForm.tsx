@@ -0,0 +1,220 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import { CUSTOM_FIELD_TYPES, type CustomFieldDefinition, type CustomFieldType } from "../utils/types";
+
+interface CustomFieldsFormProps {
+  onClose: () => void;
+}
+
+const inputClassName =
+  "px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white text-sm";
+
+const toOptions = (text: string) => text.split(',').map((option) => option.trim()).filter(Boolean);
+
+async function sendField(url: string, method: string, body: unknown): Promise<CustomFieldDefinition> {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || 'Failed to save field');
+  return data;
+}
+
+function FieldRow({
+  field,
+  onSaved,
+  onDeleted,
+  onError,
+}: {
+  field: CustomFieldDefinition;
+  onSaved: (field: CustomFieldDefinition) => void;
+  onDeleted: (field: CustomFieldDefinition) => void;
+  onError: (message: string) => void;
+}) {
+  const [name, setName] = useState(field.name);
+  const [options, setOptions] = useState(field.options.join(', '));
+  const [busy, setBusy] = useState(false);
+
+  const changed =
+    name.trim() !== field.name ||
+    (field.type === 'select' && toOptions(options).join(', ') !== field.options.join(', '));
+
+  const save = async () => {
+    setBusy(true);
+    try {
+      onSaved(await sendField(`/api/custom-fields/${field.id}`, 'PATCH', {
+        name,
+        ...(field.type === 'select' ? { options: toOptions(options) } : {}),
+      }));
+    } catch (error) {
+      onError(error instanceof Error ? error.message : 'Failed to save field');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!window.confirm(`Delete the field "${field.name}" and its value on every application?`)) return;
+    setBusy(true);
+    try {
+      const response = await fetch(`/api/custom-fields/${field.id}`, { method: 'DELETE' });
+      if (!response.ok && response.status !== 404) throw new Error('Failed to delete field');
+      onDeleted(field);
+    } catch (error) {
+      onError(error instanceof Error ? error.message : 'Failed to delete field');
+      setBusy(false);
+    }
+  };
+
+  return (
+    <li className="flex flex-wrap items-center gap-2">
+      <input value={name} onChange={(e) => setName(e.target.value)} className={`${inputClassName} w-40`} />
+      <span className="w-16 text-sm text-gray-500 dark:text-gray-400 capitalize">{field.type}</span>
+      {field.type === 'select' && (
+        <input
+          value={options}
+          onChange={(e) => setOptions(e.target.value)}
+          placeholder="Options, comma-separated"
+          className={`${inputClassName} flex-1 min-w-40`}
+        />
+      )}
+      <div className="ml-auto flex gap-3 text-sm">
+        <button onClick={save} disabled={busy || !changed} className="text-blue-600 hover:text-blue-800 dark:text-blue-400 disabled:opacity-50">
+          Save
+        </button>
+        <button onClick={remove} disabled={busy} className="text-red-500 hover:text-red-700 disabled:opacity-50">
+          Delete
+        </button>
+      </div>
+    </li>
+  );
+}
+
+export function CustomFieldsForm({ onClose }: CustomFieldsFormProps) {
+  const [fields, setFields] = useState<CustomFieldDefinition[] | null>(null);
+  const [draft, setDraft] = useState<{ name: string; type: CustomFieldType; options: string }>({
+    name: '',
+    type: 'text',
+    options: '',
+  });
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadFields = async () => {
+      try {
+        const response = await fetch('/api/custom-fields');
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load custom fields');
+        setFields(data);
+      } catch (error) {
+        setError(error instanceof Error ? error.message : 'Failed to load custom fields');
+      }
+    };
+    loadFields();
+  }, []);
+
+  const addField = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const field = await sendField('/api/custom-fields', 'POST', {
+        name: draft.name,
+        type: draft.type,
+        options: toOptions(draft.options),
+      });
+      setFields(prev => [...(prev ?? []), field]);
+      setDraft({ name: '', type: 'text', options: '' });
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to add field');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-xl w-full max-w-2xl space-y-4 max-h-full overflow-y-auto">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Custom fields</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Extra details to track on every application. Search a field by its name without spaces, e.g. referralsource:alice.
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-100 text-red-800 rounded-lg text-sm">{error}</div>
+        )}
+
+        {fields === null ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading fields...</p>
+        ) : fields.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No custom fields yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {fields.map(field => (
+              <FieldRow
+                key={field.id}
+                field={field}
+                onSaved={(saved) => {
+                  setError(null);
+                  setFields(prev => prev?.map(other => (other.id === saved.id ? saved : other)) ?? null);
+                }}
+                onDeleted={(deleted) => setFields(prev => prev?.filter(other => other.id !== deleted.id) ?? null)}
+                onError={setError}
+              />
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={addField} className="flex flex-wrap items-center gap-2 pt-4 border-t border-gray-100 dark:border-gray-700">
+          <input
+            required
+            placeholder="New field name"
+            value={draft.name}
+            onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+            className={`${inputClassName} w-40`}
+          />
+          <select
+            value={draft.type}
+            onChange={(e) => setDraft(prev => ({ ...prev, type: e.target.value as CustomFieldType }))}
+            className={inputClassName}
+          >
+            {CUSTOM_FIELD_TYPES.map((type) => (
+              <option key={type} value={type}>{type}</option>
+            ))}
+          </select>
+          {draft.type === 'select' && (
+            <input
+              required
+              placeholder="Options, comma-separated"
+              value={draft.options}
+              onChange={(e) => setDraft(prev => ({ ...prev, options: e.target.value }))}
+              className={`${inputClassName} flex-1 min-w-40`}
+            />
+          )}
+          <button
+            type="submit"
+            disabled={busy}
+            className="ml-auto px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm"
+          >
+            Add field
+          </button>
+        </form>
+
+        <div className="flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 text-gray-600 hover:text-gray-800 dark:text-gray-300 transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
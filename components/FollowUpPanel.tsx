@@ -0,0 +1,79 @@
+'use client';
+
+import type { JobApplication } from "../utils/types";
+
+interface FollowUpPanelProps {
+  reminders: JobApplication[];
+  followUpAfterDays: number;
+  onFollowUpAfterDaysChange: (days: number) => void;
+  onSnooze: (application: JobApplication) => void;
+  onDismiss: (application: JobApplication) => void;
+}
+
+const daysSince = (date: string) => Math.floor((Date.now() - new Date(date).getTime()) / (24 * 60 * 60 * 1000));
+
+export function FollowUpPanel({
+  reminders,
+  followUpAfterDays,
+  onFollowUpAfterDaysChange,
+  onSnooze,
+  onDismiss,
+}: FollowUpPanelProps) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-4 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="font-semibold text-gray-900 dark:text-white">
+          To do {reminders.length > 0 && `(${reminders.length})`}
+        </h3>
+        <label className="text-sm text-gray-500 dark:text-gray-400 flex items-center gap-2">
+          Follow up after
+          <input
+            type="number"
+            min={1}
+            max={365}
+            value={followUpAfterDays}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (Number.isInteger(value) && value >= 1 && value <= 365) onFollowUpAfterDaysChange(value);
+            }}
+            className="w-16 px-2 py-0.5 border rounded dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          />
+          quiet days
+        </label>
+      </div>
+
+      {reminders.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Nothing needs a follow-up right now.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+          {reminders.map((application) => (
+            <li key={application.id} className="py-2 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                  {application.companyName} – {application.jobProfile}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {application.applicationStatus}, quiet for {daysSince(application.lastActivityAt)} days
+                </p>
+              </div>
+              <div className="flex gap-3 text-sm shrink-0">
+                <button
+                  onClick={() => onSnooze(application)}
+                  className="text-blue-600 hover:text-blue-800 dark:text-blue-400"
+                >
+                  Snooze a week
+                </button>
+                <button
+                  onClick={() => onDismiss(application)}
+                  className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-white"
+                >
+                  Dismiss
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import { useState } from "react";
+import { APPLICATION_STATUSES, type ApplicationStatus, type JobApplication } from "../utils/types";
+
+interface KanbanBoardProps {
+  applications: JobApplication[];
+  getStatusColor: (status: ApplicationStatus) => string;
+  onStatusChange: (application: JobApplication, status: ApplicationStatus) => void;
+  onEdit: (application: JobApplication) => void;
+}
+
+export function KanbanBoard({ applications, getStatusColor, onStatusChange, onEdit }: KanbanBoardProps) {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [overStatus, setOverStatus] = useState<ApplicationStatus | null>(null);
+
+  const handleDrop = (status: ApplicationStatus) => {
+    const application = applications.find((app) => app.id === draggedId);
+    if (application && application.applicationStatus !== status) {
+      onStatusChange(application, status);
+    }
+    setDraggedId(null);
+    setOverStatus(null);
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4">
+      {APPLICATION_STATUSES.map((status) => {
+        const column = applications.filter((app) => app.applicationStatus === status);
+        return (
+          <div
+            key={status}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setOverStatus(status);
+            }}
+            onDragLeave={() => setOverStatus((current) => (current === status ? null : current))}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(status);
+            }}
+            className={`flex-1 min-w-[16rem] rounded-lg p-3 transition-colors ${
+              overStatus === status ? 'bg-blue-50 dark:bg-gray-700' : 'bg-gray-100 dark:bg-gray-800'
+            }`}
+          >
+            <div className="flex items-center justify-between mb-3">
+              <span className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(status)}`}>
+                {status}
+              </span>
+              <span className="text-sm text-gray-500 dark:text-gray-400">{column.length}</span>
+            </div>
+            <div className="space-y-3 min-h-[4rem]">
+              {column.map((application) => (
+                <div
+                  key={application.id}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDraggedId(application.id);
+                  }}
+                  onDragEnd={() => {
+                    setDraggedId(null);
+                    setOverStatus(null);
+                  }}
+                  onDoubleClick={() => onEdit(application)}
+                  className={`bg-white dark:bg-gray-900 rounded-lg shadow-sm p-3 cursor-grab active:cursor-grabbing ${
+                    draggedId === application.id ? 'opacity-50' : ''
+                  }`}
+                >
+                  <p className="font-medium text-gray-900 dark:text-white truncate">{application.companyName}</p>
+                  <p className="text-sm text-gray-600 dark:text-gray-300 truncate">{application.jobProfile}</p>
+                  <p className="text-xs text-gray-400 mt-1">{new Date(application.date).toLocaleDateString()}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
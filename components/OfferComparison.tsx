@@ -0,0 +1,182 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import { OfferForm } from "./OfferForm";
+import type { JobApplication, JobOffer, OfferInput } from "../utils/types";
+
+interface OfferComparisonProps {
+  // Applications at the offer stage, so ones without details yet can be filled in
+  offerApplications: JobApplication[];
+  // Changes whenever applications are reloaded, so offers read from new emails show up
+  refreshKey: unknown;
+}
+
+interface EditTarget {
+  applicationId: string;
+  title: string;
+  offer?: JobOffer;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const REMOTE_LABELS: Record<string, string> = { remote: 'Remote', hybrid: 'Hybrid', onsite: 'On-site' };
+
+function formatMoney(amount: number | null, currency: string): string {
+  if (amount === null) return '–';
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount);
+  } catch {
+    return `${amount.toLocaleString()} ${currency}`;
+  }
+}
+
+function describeVesting(offer: JobOffer): string {
+  const schedule = offer.equityVesting.length > 0 ? offer.equityVesting.join('/') : '25/25/25/25';
+  return offer.vestingCliffMonths ? `${schedule}, ${offer.vestingCliffMonths}-month cliff` : schedule;
+}
+
+function DeadlineBadge({ offer }: { offer: JobOffer }) {
+  if (!offer.deadline) return <span>–</span>;
+
+  const date = new Date(offer.deadline).toLocaleDateString(undefined, { timeZone: 'UTC' });
+  if (offer.deadlineStatus === 'passed') {
+    return <span className="text-gray-400 line-through">{date}</span>;
+  }
+  if (offer.deadlineStatus === 'soon') {
+    const days = Math.max(0, Math.ceil((new Date(offer.deadline).getTime() - Date.now()) / DAY_MS));
+    return (
+      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+        {date} · {days === 0 ? 'today' : `${days} day${days > 1 ? 's' : ''} left`}
+      </span>
+    );
+  }
+  return <span>{date}</span>;
+}
+
+export function OfferComparison({ offerApplications, refreshKey }: OfferComparisonProps) {
+  const [offers, setOffers] = useState<JobOffer[]>([]);
+  const [editing, setEditing] = useState<EditTarget | null>(null);
+
+  const loadOffers = async () => {
+    try {
+      const response = await fetch('/api/offers');
+      if (response.ok) {
+        setOffers(await response.json());
+      }
+    } catch (error) {
+      console.error('Error loading offers:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadOffers();
+  }, [refreshKey]);
+
+  const withoutDetails = offerApplications.filter(
+    (application) => !offers.some((offer) => offer.applicationId === application.id)
+  );
+  if (offers.length === 0 && withoutDetails.length === 0) return null;
+
+  const saveOffer = async (input: OfferInput) => {
+    if (!editing) return;
+    const response = await fetch(`/api/applications/${editing.applicationId}/offer`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || 'Failed to save offer');
+
+    setEditing(null);
+    await loadOffers();
+  };
+
+  const best = Math.max(...offers.map((offer) => offer.fourYearTotal));
+  const rows: { label: string; render: (offer: JobOffer) => React.ReactNode }[] = [
+    { label: 'Base salary', render: (offer) => formatMoney(offer.baseSalary, offer.currency) },
+    { label: 'Target bonus', render: (offer) => formatMoney(offer.annualBonus, offer.currency) },
+    { label: 'Sign-on bonus', render: (offer) => formatMoney(offer.signOnBonus, offer.currency) },
+    { label: 'Equity', render: (offer) => formatMoney(offer.equityValue, offer.currency) },
+    { label: 'Vesting', render: (offer) => (offer.equityValue ? describeVesting(offer) : '–') },
+    { label: 'First year', render: (offer) => <strong>{formatMoney(offer.firstYearTotal, offer.currency)}</strong> },
+    {
+      label: 'Four years',
+      render: (offer) => (
+        <strong className={offers.length > 1 && offer.fourYearTotal === best ? 'text-green-600 dark:text-green-400' : ''}>
+          {formatMoney(offer.fourYearTotal, offer.currency)}
+        </strong>
+      ),
+    },
+    {
+      label: 'Where',
+      render: (offer) =>
+        [offer.location, offer.remotePolicy && REMOTE_LABELS[offer.remotePolicy]].filter(Boolean).join(' · ') || '–',
+    },
+    { label: 'Benefits', render: (offer) => offer.benefitsNotes || '–' },
+    { label: 'Deadline', render: (offer) => <DeadlineBadge offer={offer} /> },
+  ];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-4 mb-6">
+      <h3 className="font-semibold text-gray-900 dark:text-white mb-3">Offers</h3>
+
+      {offers.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead>
+              <tr className="text-gray-900 dark:text-white">
+                <th className="py-2 pr-4" />
+                {offers.map((offer) => (
+                  <th key={offer.id} className="py-2 pr-4 font-medium align-top min-w-40">
+                    <p className="truncate">{offer.companyName}</p>
+                    <p className="text-xs font-normal text-gray-500 dark:text-gray-400 truncate">{offer.jobProfile}</p>
+                    <button
+                      onClick={() =>
+                        setEditing({ applicationId: offer.applicationId, title: `Offer from ${offer.companyName}`, offer })
+                      }
+                      className="text-xs font-normal text-blue-600 hover:text-blue-800 dark:text-blue-400"
+                    >
+                      Edit
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+              {rows.map(({ label, render }) => (
+                <tr key={label}>
+                  <td className="py-1.5 pr-4 text-gray-500 dark:text-gray-400 whitespace-nowrap">{label}</td>
+                  {offers.map((offer) => (
+                    <td key={offer.id} className="py-1.5 pr-4 text-gray-900 dark:text-white">
+                      {render(offer)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {withoutDetails.length > 0 && (
+        <div className="flex flex-wrap gap-3 mt-3 text-sm">
+          {withoutDetails.map((application) => (
+            <button
+              key={application.id}
+              onClick={() =>
+                setEditing({ applicationId: application.id, title: `Offer from ${application.companyName}` })
+              }
+              className="text-blue-600 hover:text-blue-800 dark:text-blue-400"
+            >
+              + Add offer details for {application.companyName}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {editing && (
+        <OfferForm title={editing.title} offer={editing.offer} onSubmit={saveOffer} onCancel={() => setEditing(null)} />
+      )}
+    </div>
+  );
+}
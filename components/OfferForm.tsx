@@ -0,0 +1,137 @@
+'use client';
+
+import { useState } from "react";
+import type { JobOffer, OfferInput, RemotePolicy } from "../utils/types";
+
+interface OfferFormProps {
+  title: string;
+  offer?: JobOffer;
+  onSubmit: (input: OfferInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+const inputClassName =
+  "w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white";
+
+const FIELD_LABELS: Record<string, string> = {
+  currency: 'currency',
+  baseSalary: 'base salary',
+  annualBonus: 'bonus',
+  signOnBonus: 'sign-on bonus',
+  equityValue: 'equity',
+  equityVesting: 'vesting schedule',
+  vestingCliffMonths: 'cliff',
+  location: 'location',
+  remotePolicy: 'remote policy',
+  deadline: 'deadline',
+};
+
+const toText = (value: number | null | undefined) => (value === null || value === undefined ? '' : String(value));
+const toAmount = (value: string) => (value.trim() ? Number(value.replace(/[,\s]/g, '')) : null);
+
+export function OfferForm({ title, offer, onSubmit, onCancel }: OfferFormProps) {
+  const [form, setForm] = useState({
+    currency: offer?.currency ?? 'USD',
+    baseSalary: toText(offer?.baseSalary),
+    annualBonus: toText(offer?.annualBonus),
+    signOnBonus: toText(offer?.signOnBonus),
+    equityValue: toText(offer?.equityValue),
+    equityVesting: offer?.equityVesting.join('/') ?? '',
+    vestingCliffMonths: toText(offer?.vestingCliffMonths),
+    location: offer?.location ?? '',
+    remotePolicy: offer?.remotePolicy ?? '',
+    deadline: offer?.deadline?.slice(0, 10) ?? '',
+    benefitsNotes: offer?.benefitsNotes ?? '',
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (field: keyof typeof form) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) =>
+      setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      await onSubmit({
+        currency: form.currency.trim().toUpperCase() || 'USD',
+        baseSalary: toAmount(form.baseSalary),
+        annualBonus: toAmount(form.annualBonus),
+        signOnBonus: toAmount(form.signOnBonus),
+        equityValue: toAmount(form.equityValue),
+        equityVesting: form.equityVesting.split(/[/,\s]+/).filter(Boolean).map(Number),
+        vestingCliffMonths: toAmount(form.vestingCliffMonths),
+        location: form.location || null,
+        remotePolicy: (form.remotePolicy || null) as RemotePolicy | null,
+        // Noon UTC keeps the chosen day in every time zone
+        deadline: form.deadline ? `${form.deadline}T12:00:00.000Z` : null,
+        benefitsNotes: form.benefitsNotes || null,
+      });
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save offer');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const prefilled = offer?.prefilledFields.map((field) => FIELD_LABELS[field] ?? field) ?? [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-xl w-full max-w-lg space-y-4 max-h-full overflow-y-auto"
+      >
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{title}</h2>
+
+        {prefilled.length > 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Read from the offer email, please check: {prefilled.join(', ')}.
+          </p>
+        )}
+
+        {error && (
+          <div className="p-3 bg-red-100 text-red-800 rounded-lg text-sm">{error}</div>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <input inputMode="numeric" placeholder="Base salary (yearly)" value={form.baseSalary} onChange={update('baseSalary')} className={inputClassName} />
+          <input placeholder="Currency" maxLength={3} value={form.currency} onChange={update('currency')} className={inputClassName} />
+          <input inputMode="numeric" placeholder="Target bonus (yearly)" value={form.annualBonus} onChange={update('annualBonus')} className={inputClassName} />
+          <input inputMode="numeric" placeholder="Sign-on bonus" value={form.signOnBonus} onChange={update('signOnBonus')} className={inputClassName} />
+          <input inputMode="numeric" placeholder="Equity grant value" value={form.equityValue} onChange={update('equityValue')} className={inputClassName} />
+          <input placeholder="Vesting % per year, e.g. 25/25/25/25" value={form.equityVesting} onChange={update('equityVesting')} className={inputClassName} />
+          <input inputMode="numeric" placeholder="Cliff (months)" value={form.vestingCliffMonths} onChange={update('vestingCliffMonths')} className={inputClassName} />
+          <input type="date" value={form.deadline} onChange={update('deadline')} className={inputClassName} title="Reply deadline" />
+          <input placeholder="Location" value={form.location} onChange={update('location')} className={inputClassName} />
+          <select value={form.remotePolicy} onChange={update('remotePolicy')} className={inputClassName}>
+            <option value="">Remote policy</option>
+            <option value="remote">Remote</option>
+            <option value="hybrid">Hybrid</option>
+            <option value="onsite">On-site</option>
+          </select>
+          <textarea placeholder="Benefits" rows={3} value={form.benefitsNotes} onChange={update('benefitsNotes')} className={`${inputClassName} sm:col-span-2`} />
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-6 py-2 text-gray-600 hover:text-gray-800 dark:text-gray-300 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-all duration-200"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import type { FieldConfidence, ReviewAction, ReviewItem } from "../utils/types";
+
+interface ReviewQueueProps {
+  // Changes whenever applications are reloaded, so newly synced messages show up
+  refreshKey: unknown;
+  // Called after a confirmed message has been added to the dashboard
+  onConfirmed: () => void;
+}
+
+const FIELD_LABELS: Record<keyof FieldConfidence, string> = {
+  isJobApplication: 'is an application',
+  companyName: 'company',
+  jobProfile: 'role',
+  applicationStatus: 'status',
+};
+
+// Names the field the classifier was least sure of, for the "why is this here" hint
+function weakestField(confidence: FieldConfidence | null): string | null {
+  if (!confidence) return null;
+  const [field, score] = (Object.entries(confidence) as [keyof FieldConfidence, number][]).reduce((a, b) =>
+    b[1] < a[1] ? b : a
+  );
+  return `unsure of ${FIELD_LABELS[field]} (${Math.round(score * 100)}%)`;
+}
+
+export function ReviewQueue({ refreshKey, onConfirmed }: ReviewQueueProps) {
+  const [items, setItems] = useState<ReviewItem[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadQueue = async () => {
+      try {
+        const response = await fetch('/api/review');
+        if (response.ok) {
+          setItems(await response.json());
+        }
+      } catch (error) {
+        console.error('Error loading review queue:', error);
+      }
+    };
+    loadQueue();
+  }, [refreshKey]);
+
+  if (items.length === 0) return null;
+
+  const resolve = async (item: ReviewItem, action: ReviewAction) => {
+    setBusyId(item.id);
+    try {
+      const response = await fetch(`/api/review/${item.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      if (response.ok) {
+        setItems((current) => current.filter((other) => other.id !== item.id));
+        if (action === 'confirm') onConfirmed();
+      }
+    } catch (error) {
+      console.error('Error resolving review:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-4 mb-6">
+      <h3 className="font-semibold text-gray-900 dark:text-white">Needs review ({items.length})</h3>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+        Your answer is remembered for later mail from the same sender.
+      </p>
+
+      <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+        {items.map((item) => (
+          <li key={item.id} className="py-2 flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                {item.subject || '(no subject)'}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                {item.from}
+                {item.date && ` · ${new Date(item.date).toLocaleDateString()}`}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                {item.isJobApplication
+                  ? `${item.companyName} – ${item.jobProfile} · ${item.applicationStatus}`
+                  : 'Probably not a job application'}
+                {weakestField(item.confidence) && ` · ${weakestField(item.confidence)}`}
+              </p>
+            </div>
+            <div className="flex gap-3 text-sm shrink-0">
+              <button
+                onClick={() => resolve(item, 'confirm')}
+                disabled={busyId === item.id}
+                className="text-blue-600 hover:text-blue-800 dark:text-blue-400 disabled:opacity-50"
+              >
+                It&apos;s an application
+              </button>
+              <button
+                onClick={() => resolve(item, 'dismiss')}
+                disabled={busyId === item.id}
+                className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-white disabled:opacity-50"
+              >
+                Dismiss
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import type { SavedView } from "../utils/types";
+
+interface SavedViewsProps {
+  // The dashboard's current filter parameters, empty when nothing is filtered
+  currentQuery: string;
+  onSelect: (query: string) => void;
+}
+
+export function SavedViews({ currentQuery, onSelect }: SavedViewsProps) {
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadViews = async () => {
+      try {
+        const response = await fetch('/api/views');
+        if (response.ok) {
+          setViews(await response.json());
+        }
+      } catch (error) {
+        console.error('Error loading saved views:', error);
+      }
+    };
+    loadViews();
+  }, []);
+
+  const saveCurrent = async () => {
+    const name = window.prompt('Name this view');
+    if (!name?.trim()) return;
+
+    setError(null);
+    try {
+      const response = await fetch('/api/views', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, query: currentQuery }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save view');
+
+      setViews(prev =>
+        [...prev.filter(view => view.id !== data.id), data].sort((a, b) => a.name.localeCompare(b.name))
+      );
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save view');
+    }
+  };
+
+  const deleteView = async (view: SavedView) => {
+    if (!window.confirm(`Delete the view "${view.name}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/views/${view.id}`, { method: 'DELETE' });
+      if (!response.ok && response.status !== 404) throw new Error('Failed to delete view');
+      setViews(prev => prev.filter(other => other.id !== view.id));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to delete view');
+    }
+  };
+
+  const itemClassName = (active: boolean) =>
+    `flex-1 text-left px-3 py-1.5 rounded-lg text-sm truncate transition-colors ${
+      active
+        ? 'bg-blue-600 text-white'
+        : 'text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700'
+    }`;
+
+  return (
+    <nav className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-4 space-y-2">
+      <h3 className="font-semibold text-gray-900 dark:text-white">Views</h3>
+
+      <button onClick={() => onSelect('')} className={`w-full ${itemClassName(currentQuery === '')}`}>
+        All applications
+      </button>
+      <ul className="space-y-1">
+        {views.map(view => (
+          <li key={view.id} className="group flex items-center gap-1">
+            <button onClick={() => onSelect(view.query)} className={itemClassName(currentQuery === view.query)} title={view.query}>
+              {view.name}
+            </button>
+            <button
+              onClick={() => deleteView(view)}
+              className="px-1 text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100 focus:opacity-100"
+              aria-label={`Delete view ${view.name}`}
+            >
+              ×
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <button
+        onClick={saveCurrent}
+        disabled={!currentQuery}
+        className="text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Save current filters
+      </button>
+    </nav>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import type { SearchPreview, SearchSettings } from "../utils/types";
+
+interface SearchSettingsFormProps {
+  onClose: () => void;
+}
+
+const FIELDS: { key: keyof SearchSettings; label: string; placeholder: string }[] = [
+  { key: 'searchTerms', label: 'Subject terms', placeholder: 'job\napplication\nthank you for your interest' },
+  { key: 'labelFilters', label: 'Only these Gmail labels', placeholder: 'Job Search' },
+  { key: 'includeSenders', label: 'Always include senders', placeholder: 'greenhouse.io\nrecruiter@example.com' },
+  { key: 'excludeSenders', label: 'Always exclude senders', placeholder: 'jobalerts.indeed.com\nlinkedin.com' },
+];
+
+const inputClassName =
+  "w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white text-sm";
+
+const toLines = (entries: string[]) => entries.join('\n');
+const fromLines = (text: string) => text.split('\n').map((line) => line.trim()).filter(Boolean);
+
+export function SearchSettingsForm({ onClose }: SearchSettingsFormProps) {
+  const [draft, setDraft] = useState<Record<keyof SearchSettings, string> | null>(null);
+  const [preview, setPreview] = useState<SearchPreview | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const response = await fetch('/api/settings/search');
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load search settings');
+
+        setDraft({
+          searchTerms: toLines(data.searchTerms),
+          labelFilters: toLines(data.labelFilters),
+          includeSenders: toLines(data.includeSenders),
+          excludeSenders: toLines(data.excludeSenders),
+        });
+      } catch (error) {
+        setError(error instanceof Error ? error.message : 'Failed to load search settings');
+      }
+    };
+    loadSettings();
+  }, []);
+
+  const toSettings = (): SearchSettings => ({
+    searchTerms: fromLines(draft?.searchTerms ?? ''),
+    labelFilters: fromLines(draft?.labelFilters ?? ''),
+    includeSenders: fromLines(draft?.includeSenders ?? ''),
+    excludeSenders: fromLines(draft?.excludeSenders ?? ''),
+  });
+
+  const send = async (url: string, method: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toSettings()),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Request failed');
+      return data;
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Request failed');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const runPreview = async () => {
+    const data = await send('/api/settings/search/preview', 'POST');
+    if (data) setPreview(data);
+  };
+
+  const save = async () => {
+    if (await send('/api/settings/search', 'PUT')) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-30 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 shadow-xl w-full max-w-2xl space-y-4 max-h-full overflow-y-auto">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Mail filters</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          One entry per line. Leave subject terms empty to use the built-in job terms.
+        </p>
+
+        {error && <div className="p-3 bg-red-100 text-red-800 rounded-lg text-sm">{error}</div>}
+
+        {draft ? (
+          <div className="grid gap-4 sm:grid-cols-2">
+            {FIELDS.map(({ key, label, placeholder }) => (
+              <label key={key} className="text-sm text-gray-700 dark:text-gray-300 space-y-1">
+                <span>{label}</span>
+                <textarea
+                  rows={4}
+                  value={draft[key]}
+                  placeholder={placeholder}
+                  onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                  className={inputClassName}
+                />
+              </label>
+            ))}
+          </div>
+        ) : (
+          !error && <div className="h-48 bg-gray-100 dark:bg-gray-700 rounded-lg animate-pulse" />
+        )}
+
+        {preview && (
+          <div className="border-t border-gray-100 dark:border-gray-700 pt-4 space-y-2">
+            <p className="text-xs text-gray-500 dark:text-gray-400 font-mono break-all">{preview.query}</p>
+            {preview.messages.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No messages match.</p>
+            ) : (
+              <ul className="text-sm divide-y divide-gray-100 dark:divide-gray-700">
+                {preview.messages.map((message) => (
+                  <li key={message.id} className="py-1.5">
+                    <p className="text-gray-900 dark:text-white truncate">{message.subject || '(no subject)'}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {message.from}
+                      {message.date && ` · ${new Date(message.date).toLocaleDateString()}`}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 text-gray-600 hover:text-gray-800 dark:text-gray-300 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={runPreview}
+            disabled={busy || !draft}
+            className="px-6 py-2 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-all duration-200"
+          >
+            Preview
+          </button>
+          <button
+            onClick={save}
+            disabled={busy || !draft}
+            className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-all duration-200"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
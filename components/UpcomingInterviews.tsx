@@ -0,0 +1,104 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import type { InterviewSummary } from "../utils/types";
+
+interface UpcomingInterviewsProps {
+  // Changes whenever applications are reloaded, so newly synced invitations show up
+  refreshKey: unknown;
+}
+
+const PROVIDER_LABELS: Record<string, string> = {
+  zoom: 'Zoom',
+  meet: 'Google Meet',
+  teams: 'Teams',
+  webex: 'Webex',
+};
+
+export function UpcomingInterviews({ refreshKey }: UpcomingInterviewsProps) {
+  const [summary, setSummary] = useState<InterviewSummary | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const loadInterviews = async () => {
+      try {
+        const response = await fetch('/api/interviews');
+        if (response.ok) {
+          setSummary(await response.json());
+        }
+      } catch (error) {
+        console.error('Error loading interviews:', error);
+      }
+    };
+    loadInterviews();
+  }, [refreshKey]);
+
+  if (!summary) return null;
+
+  const feedUrl = `${window.location.origin}${summary.feedPath}`;
+
+  const copyFeedUrl = async () => {
+    await navigator.clipboard.writeText(feedUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const rotateFeed = async () => {
+    if (!window.confirm('Calendars subscribed to the current link will stop updating. Continue?')) return;
+    const response = await fetch('/api/interviews/feed', { method: 'POST' });
+    if (response.ok) {
+      const { feedPath } = await response.json();
+      setSummary({ ...summary, feedPath });
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-4 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="font-semibold text-gray-900 dark:text-white">Upcoming interviews</h3>
+        <div className="flex gap-3 text-sm">
+          <button onClick={copyFeedUrl} className="text-blue-600 hover:text-blue-800 dark:text-blue-400">
+            {copied ? 'Copied!' : 'Copy calendar feed URL'}
+          </button>
+          <button
+            onClick={rotateFeed}
+            className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-white"
+          >
+            Reset link
+          </button>
+        </div>
+      </div>
+
+      {summary.interviews.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No interviews scheduled.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+          {summary.interviews.map((interview) => (
+            <li key={interview.id} className="py-2 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                  {interview.companyName} – {interview.jobProfile}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {new Date(interview.startsAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+                  {interview.durationMinutes && ` · ${interview.durationMinutes} min`}
+                  {interview.interviewer && ` · with ${interview.interviewer}`}
+                </p>
+              </div>
+              {interview.meetingUrl && (
+                <a
+                  href={interview.meetingUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 shrink-0"
+                >
+                  Join {interview.meetingProvider ? PROVIDER_LABELS[interview.meetingProvider] : 'meeting'}
+                </a>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+export async function register() {
+  // The worker needs Node APIs and Prisma, which the edge runtime lacks
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startSyncWorker } = await import('./utils/syncWorker');
+    startSyncWorker();
+  }
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../prisma', () => ({ prisma: {} }));
+
+import { computeAnalytics } from '../analytics';
+
+// A Monday
+const NOW = new Date('2026-03-30T12:00:00Z');
+
+const at = (date: string) => new Date(date);
+
+// Events in order; the first is when the application was sent
+const history = (...events: [string, string][]) => ({
+  createdAt: at(events[0]?.[1] ?? '2026-03-01T00:00:00Z'),
+  statusEvents: events.map(([status, date]) => ({ status, date: at(date) })),
+});
+
+describe('computeAnalytics', () => {
+  it('handles no applications', () => {
+    const summary = computeAnalytics([], 30, NOW);
+
+    expect(summary.total).toBe(0);
+    expect(summary.funnel).toEqual([
+      { stage: 'Applied', count: 0, conversionFromPrevious: null, conversionFromApplied: null },
+      { stage: 'Interview', count: 0, conversionFromPrevious: null, conversionFromApplied: null },
+      { stage: 'Offer', count: 0, conversionFromPrevious: null, conversionFromApplied: null },
+    ]);
+    expect(summary.medianDaysToFirstResponse).toBeNull();
+    expect(summary.medianDaysToRejection).toBeNull();
+    expect(summary.weeklyApplications).toHaveLength(12);
+    expect(summary.weeklyApplications.every((week) => week.count === 0)).toBe(true);
+    expect(summary.ghosted).toBe(0);
+  });
+
+  it('converts through the funnel, counting later stages as reaching earlier ones', () => {
+    const summary = computeAnalytics(
+      [
+        history(['Applied', '2026-03-02T10:00:00Z']),
+        history(['Applied', '2026-03-02T10:00:00Z'], ['Rejected', '2026-03-05T10:00:00Z']),
+        history(['Applied', '2026-03-02T10:00:00Z'], ['Interview', '2026-03-09T10:00:00Z']),
+        // An offer without a recorded interview still passed the interview stage
+        history(['Application Received', '2026-03-03T10:00:00Z'], ['Offer', '2026-03-20T10:00:00Z']),
+      ],
+      30,
+      NOW
+    );
+
+    expect(summary.funnel).toEqual([
+      { stage: 'Applied', count: 4, conversionFromPrevious: null, conversionFromApplied: null },
+      { stage: 'Interview', count: 2, conversionFromPrevious: 50, conversionFromApplied: 50 },
+      { stage: 'Offer', count: 1, conversionFromPrevious: 50, conversionFromApplied: 25 },
+    ]);
+  });
+
+  it('leaves a conversion empty when the previous stage has no applications', () => {
+    const summary = computeAnalytics([history(['Applied', '2026-03-02T10:00:00Z'])], 30, NOW);
+
+    expect(summary.funnel[1]).toEqual({ stage: 'Interview', count: 0, conversionFromPrevious: 0, conversionFromApplied: 0 });
+    expect(summary.funnel[2]).toEqual({ stage: 'Offer', count: 0, conversionFromPrevious: null, conversionFromApplied: 0 });
+  });
+
+  it('takes the median response time, averaging the middle two of an even count', () => {
+    const summary = computeAnalytics(
+      [
+        history(['Applied', '2026-03-02T00:00:00Z'], ['Rejected', '2026-03-04T00:00:00Z']),
+        history(['Applied', '2026-03-02T00:00:00Z'], ['Interview', '2026-03-07T00:00:00Z']),
+        history(['Applied', '2026-03-02T00:00:00Z'], ['Application Received', '2026-03-02T01:00:00Z'], ['Rejected', '2026-03-10T00:00:00Z']),
+        history(['Applied', '2026-03-02T00:00:00Z'], ['Interview', '2026-03-03T12:00:00Z'], ['Rejected', '2026-03-22T00:00:00Z']),
+      ],
+      30,
+      NOW
+    );
+
+    // First responses after 2, 5, 8 and 1.5 days
+    expect(summary.medianDaysToFirstResponse).toBe(3.5);
+    // Rejections after 2, 8 and 20 days
+    expect(summary.medianDaysToRejection).toBe(8);
+  });
+
+  it('skips response times when the first event is already a response', () => {
+    const summary = computeAnalytics(
+      [history(['Interview', '2026-03-02T00:00:00Z'], ['Rejected', '2026-03-09T00:00:00Z'])],
+      30,
+      NOW
+    );
+
+    expect(summary.medianDaysToFirstResponse).toBeNull();
+    expect(summary.medianDaysToRejection).toBeNull();
+  });
+
+  it('buckets applications into Monday-to-Sunday UTC weeks', () => {
+    const summary = computeAnalytics(
+      [
+        history(['Applied', '2026-03-29T23:59:59Z']),
+        history(['Applied', '2026-03-30T00:00:00Z']),
+        history(['Applied', '2026-03-23T00:00:00Z']),
+        history(['Applied', '2026-01-12T00:00:00Z']),
+        // Before the twelve weeks shown
+        history(['Applied', '2026-01-11T23:59:59Z']),
+      ],
+      30,
+      NOW
+    );
+    const weeks = summary.weeklyApplications;
+
+    expect(weeks[0]).toEqual({ weekStart: '2026-01-12', count: 1 });
+    expect(weeks[10]).toEqual({ weekStart: '2026-03-23', count: 2 });
+    expect(weeks[11]).toEqual({ weekStart: '2026-03-30', count: 1 });
+    expect(weeks.reduce((sum, week) => sum + week.count, 0)).toBe(4);
+    expect(summary.total).toBe(5);
+  });
+
+  it('counts applications without a response after the ghosting window', () => {
+    const summary = computeAnalytics(
+      [
+        history(['Applied', '2026-02-20T00:00:00Z']),
+        history(['Applied', '2026-02-20T00:00:00Z'], ['Application Received', '2026-02-21T00:00:00Z']),
+        history(['Applied', '2026-02-20T00:00:00Z'], ['Rejected', '2026-03-25T00:00:00Z']),
+        history(['Applied', '2026-03-20T00:00:00Z']),
+      ],
+      30,
+      NOW
+    );
+
+    expect(summary.ghosted).toBe(2);
+    // A shorter window catches the recent one too
+    expect(computeAnalytics([history(['Applied', '2026-03-20T00:00:00Z'])], 7, NOW).ghosted).toBe(1);
+  });
+});
@@ -0,0 +1,221 @@
+import type { Application } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const prisma = vi.hoisted(() => ({
+  application: {
+    findFirst: vi.fn(),
+    findUniqueOrThrow: vi.fn(),
+    update: vi.fn(),
+  },
+  customField: {
+    findMany: vi.fn(),
+  },
+  emailMessage: {
+    findUnique: vi.fn(),
+    upsert: vi.fn(),
+  },
+  statusEvent: {
+    findFirst: vi.fn(),
+    upsert: vi.fn(),
+  },
+}));
+
+vi.mock('../prisma', () => ({ prisma }));
+vi.mock('../companies', () => ({ resolveCompanyId: vi.fn(async () => null) }));
+vi.mock('../contacts', () => ({ saveContact: vi.fn() }));
+vi.mock('../events', () => ({ recordApplicationEvents: vi.fn() }));
+vi.mock('../feedback', () => ({ triageEmail: vi.fn(async () => 'accept') }));
+vi.mock('../interviews', () => ({ saveInterviewEvent: vi.fn() }));
+vi.mock('../offers', () => ({ saveOfferDetails: vi.fn() }));
+
+import { ApplicationInputError, saveEmailInfos, updateApplication } from '../applications';
+import type { EmailInfo } from '../types';
+
+// Set by the email as 14:30 UTC on 2 March
+const EMAIL_DATE = new Date('2026-03-02T14:30:00Z');
+
+const application = (overrides: Partial<Application> = {}): Application => ({
+  id: 'app-1',
+  userId: 'user-1',
+  companyName: 'Globex',
+  jobProfile: 'Platform Engineer',
+  companyKey: 'globex',
+  roleKey: 'platform engineer',
+  companyId: null,
+  senderDomain: 'globex.com',
+  applicationStatus: 'Applied',
+  date: EMAIL_DATE,
+  from: 'Globex Careers',
+  source: 'email',
+  link: null,
+  salaryRange: null,
+  location: null,
+  notes: null,
+  tags: [],
+  priority: null,
+  customValues: {},
+  customSearchValues: {},
+  overriddenFields: [],
+  reminderSnoozedUntil: null,
+  reminderDismissedAt: null,
+  offerDismissedAt: null,
+  staleNotifiedAt: null,
+  createdAt: EMAIL_DATE,
+  updatedAt: EMAIL_DATE,
+  ...overrides,
+});
+
+// The form sends the date as a day
+const unchangedForm = {
+  companyName: 'Globex',
+  jobProfile: 'Platform Engineer',
+  applicationStatus: 'Applied' as const,
+  date: '2026-03-02',
+  link: null,
+  salaryRange: null,
+  location: null,
+  notes: null,
+};
+
+const updateData = () => prisma.application.update.mock.calls[0][0].data;
+
+describe('updateApplication', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma.application.findFirst.mockResolvedValue(application());
+    prisma.application.findUniqueOrThrow.mockResolvedValue({
+      ...application(),
+      statusEvents: [],
+      user: { followUpAfterDays: 7 },
+    });
+  });
+
+  it('records no override when the form is saved unchanged', async () => {
+    await updateApplication('user-1', 'app-1', unchangedForm);
+    expect(updateData().overriddenFields).toEqual([]);
+    expect(updateData()).not.toHaveProperty('date');
+  });
+
+  it('keeps the time of day the email set when the same day is saved again', async () => {
+    await updateApplication('user-1', 'app-1', { ...unchangedForm, notes: 'Referred by Sam' });
+    expect(updateData()).not.toHaveProperty('date');
+    expect(updateData().overriddenFields).toEqual(['notes']);
+  });
+
+  it('writes and overrides the date when the day changes', async () => {
+    await updateApplication('user-1', 'app-1', { ...unchangedForm, date: '2026-02-27' });
+    expect(updateData().date).toEqual(new Date('2026-02-27'));
+    expect(updateData().overriddenFields).toEqual(['date']);
+  });
+
+  it('adds to the overrides already recorded', async () => {
+    prisma.application.findFirst.mockResolvedValue(application({ overriddenFields: ['companyName'] }));
+    await updateApplication('user-1', 'app-1', { ...unchangedForm, applicationStatus: 'Interview' });
+    expect(updateData().overriddenFields).toEqual(['companyName', 'applicationStatus']);
+  });
+});
+
+describe('custom field values', () => {
+  const fields = [
+    { id: 'notes', userId: 'user-1', name: 'Referrer', type: 'text', options: [] },
+    { id: 'floor', userId: 'user-1', name: 'Salary floor', type: 'number', options: [] },
+    { id: 'deadline', userId: 'user-1', name: 'Deadline', type: 'date', options: [] },
+    { id: 'remote', userId: 'user-1', name: 'Remote', type: 'select', options: ['Yes', 'No', 'Hybrid'] },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma.application.findFirst.mockResolvedValue(application({ customValues: { notes: 'Sam', remote: 'No' } }));
+    prisma.application.findUniqueOrThrow.mockResolvedValue({
+      ...application(),
+      statusEvents: [],
+      user: { followUpAfterDays: 7 },
+    });
+    prisma.customField.findMany.mockImplementation(async ({ where }) =>
+      fields.filter((field) => where.id.in.includes(field.id))
+    );
+  });
+
+  it('stores each value as its field type, with a lowercased search copy', async () => {
+    await updateApplication('user-1', 'app-1', {
+      customFields: { notes: '  Alex Chen ', floor: ' 120000 ', deadline: '2026-04-01', remote: 'hybrid' },
+    });
+    expect(updateData().customValues).toEqual({ notes: 'Alex Chen', floor: 120000, deadline: '2026-04-01', remote: 'Hybrid' });
+    expect(updateData().customSearchValues).toEqual({
+      notes: 'alex chen',
+      floor: 120000,
+      deadline: '2026-04-01',
+      remote: 'hybrid',
+    });
+  });
+
+  it('clears values set to null or an empty string and keeps the rest', async () => {
+    await updateApplication('user-1', 'app-1', { customFields: { notes: null, floor: ' ', deadline: '2026-04-01' } });
+    expect(updateData().customValues).toEqual({ remote: 'No', deadline: '2026-04-01' });
+  });
+
+  it.each([
+    ['a number field', { floor: '120k' }, 'Salary floor must be a number'],
+    ['a date field', { deadline: '01/04/2026' }, 'Deadline must be a date like 2026-01-31'],
+    ['an impossible date', { deadline: '2026-02-31' }, 'Deadline must be a date like 2026-01-31'],
+    ['a select field', { remote: 'Sometimes' }, 'Remote must be one of: Yes, No, Hybrid'],
+    ['a long text field', { notes: 'x'.repeat(501) }, 'Referrer is too long'],
+    ['an unknown field', { removed: 'Yes' }, 'Unknown custom field'],
+  ])('rejects a bad value for %s', async (_, customFields, message) => {
+    const update = updateApplication('user-1', 'app-1', { customFields });
+    await expect(update).rejects.toThrow(ApplicationInputError);
+    await expect(updateApplication('user-1', 'app-1', { customFields })).rejects.toThrow(message);
+    expect(prisma.application.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('saveEmailInfos', () => {
+  const rejection: EmailInfo = {
+    id: 'gmail-2',
+    threadId: 'thread-1',
+    date: '2026-03-20T09:00:00.000Z',
+    originalSubject: 'Your application to Globex',
+    snippet: 'Unfortunately we have decided not to move forward',
+    from: 'Globex Careers',
+    senderAddress: 'careers@globex.com',
+    senderDomain: 'globex.com',
+    fromCache: false,
+    isJobApplication: true,
+    companyName: 'Globex',
+    jobProfile: 'Platform Engineer',
+    applicationStatus: 'Rejected',
+    confidence: { isJobApplication: 1, companyName: 1, jobProfile: 1, applicationStatus: 1 },
+    interview: null,
+    offer: null,
+    contact: null,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma.emailMessage.findUnique.mockResolvedValue({ applicationId: 'app-1', applicationStatus: 'Applied' });
+    prisma.emailMessage.upsert.mockResolvedValue({ id: 'message-2', createdAt: new Date() });
+    prisma.statusEvent.findFirst.mockResolvedValue({
+      status: 'Rejected',
+      date: new Date(rejection.date!),
+      emailMessage: { from: 'Globex Careers' },
+    });
+  });
+
+  it('moves the status and date to the latest email', async () => {
+    prisma.application.findUniqueOrThrow.mockResolvedValue(application());
+    await saveEmailInfos('user-1', [rejection]);
+    expect(updateData()).toEqual({
+      applicationStatus: 'Rejected',
+      date: new Date(rejection.date!),
+      from: 'Globex Careers',
+    });
+  });
+
+  it('leaves a status and date the user set by hand', async () => {
+    prisma.application.findUniqueOrThrow.mockResolvedValue(
+      application({ applicationStatus: 'Interview', overriddenFields: ['applicationStatus', 'date'] })
+    );
+    await saveEmailInfos('user-1', [rejection]);
+    expect(updateData()).toEqual({ from: 'Globex Careers' });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { classifyEmailWithRules, classifyStatus } from '../classifier';
+import { CLASSIFIER_CORPUS } from './fixtures/classifierCorpus';
+
+describe('classifyEmailWithRules', () => {
+  it.each(CLASSIFIER_CORPUS)('classifies $name', ({ email, expected }) => {
+    const result = classifyEmailWithRules(email);
+
+    expect({
+      isJobApplication: result.isJobApplication,
+      applicationStatus: result.applicationStatus,
+      companyName: result.companyName,
+      jobProfile: result.jobProfile,
+    }).toEqual(expected);
+  });
+
+  it('covers every application status', () => {
+    const statuses = new Set(CLASSIFIER_CORPUS.map(({ expected }) => expected.applicationStatus));
+    expect(Array.from(statuses).sort()).toEqual(['Application Received', 'Applied', 'Interview', 'Offer', 'Rejected']);
+  });
+
+  it('is deterministic', () => {
+    for (const { email } of CLASSIFIER_CORPUS) {
+      expect(classifyEmailWithRules(email)).toEqual(classifyEmailWithRules(email));
+    }
+  });
+
+  it('trusts subject templates more than the sender', () => {
+    const fromSubject = classifyEmailWithRules(CLASSIFIER_CORPUS[2].email);
+    const fromSender = classifyEmailWithRules(CLASSIFIER_CORPUS[4].email);
+
+    expect(fromSubject.confidence.companyName).toBeGreaterThan(fromSender.confidence.companyName);
+    expect(fromSubject.confidence.jobProfile).toBe(0.85);
+    expect(fromSender.confidence.jobProfile).toBe(0);
+  });
+
+  it('falls back to placeholders when nothing is found', () => {
+    const result = classifyEmailWithRules({ subject: '', body: '', from: '' });
+
+    expect(result.companyName).toBe('Unknown Company');
+    expect(result.jobProfile).toBe('Unknown Position');
+    expect(result.isJobApplication).toBe(false);
+    expect(result.confidence.applicationStatus).toBe(0.2);
+  });
+});
+
+describe('classifyStatus', () => {
+  it('prefers the stronger signal when several statuses match', () => {
+    expect(classifyStatus('Interview update', 'Unfortunately we will not move forward.')).toBe('Rejected');
+    expect(classifyStatus('Next round', 'We are happy to extend an offer after your interview.')).toBe('Offer');
+  });
+
+  it('defaults to Applied without any signal', () => {
+    expect(classifyStatus('Hello', 'Just checking in.')).toBe('Applied');
+  });
+});
@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+interface StoredCompany {
+  id: string;
+  userId: string;
+  name: string;
+}
+
+interface StoredAlias {
+  userId: string;
+  companyId: string;
+  kind: string;
+  value: string;
+}
+
+const db = vi.hoisted(() => ({
+  companies: [] as StoredCompany[],
+  aliases: [] as StoredAlias[],
+}));
+
+const prisma = vi.hoisted(() => ({
+  company: {
+    create: vi.fn(async ({ data }: { data: { userId: string; name: string } }) => {
+      const company = { id: `company-${db.companies.length + 1}`, ...data };
+      db.companies.push(company);
+      return company;
+    }),
+    update: vi.fn(async ({ where, data }: { where: { id: string }; data: { name: string } }) => {
+      const company = db.companies.find((known) => known.id === where.id)!;
+      return Object.assign(company, data);
+    }),
+    count: vi.fn(),
+    findFirst: vi.fn(async () => null),
+    deleteMany: vi.fn(),
+  },
+  companyAlias: {
+    findMany: vi.fn(
+      async ({ where }: { where: { userId: string; OR: { kind: string; value: string }[] } }) =>
+        db.aliases
+          .filter((alias) => alias.userId === where.userId)
+          .filter((alias) => where.OR.some(({ kind, value }) => alias.kind === kind && alias.value === value))
+          .map((alias) => ({ ...alias, company: db.companies.find((company) => company.id === alias.companyId)! }))
+    ),
+    // Aliases are unique per user, kind and value
+    createMany: vi.fn(async ({ data }: { data: StoredAlias[] }) => {
+      for (const alias of data) {
+        const taken = db.aliases.some(
+          (known) => known.userId === alias.userId && known.kind === alias.kind && known.value === alias.value
+        );
+        if (!taken) db.aliases.push(alias);
+      }
+    }),
+    updateMany: vi.fn(),
+  },
+  application: { updateMany: vi.fn() },
+  contact: { updateMany: vi.fn() },
+  $transaction: vi.fn(),
+}));
+
+vi.mock('../prisma', () => ({ prisma }));
+vi.mock('../contacts', () => ({ listCompanyContacts: vi.fn(async () => []) }));
+
+import { CompanyInputError, mergeCompanies, resolveCompanyId } from '../companies';
+
+const aliasesOf = (companyId: string) =>
+  db.aliases
+    .filter((alias) => alias.companyId === companyId)
+    .map(({ kind, value }) => `${kind}:${value}`)
+    .sort();
+
+describe('resolveCompanyId', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.companies = [];
+    db.aliases = [];
+  });
+
+  it('groups "Google", "Google LLC" and mail from google.com as one company', async () => {
+    const google = await resolveCompanyId('user-1', 'Google', null);
+    expect(await resolveCompanyId('user-1', 'Google LLC', 'google.com')).toBe(google);
+    expect(await resolveCompanyId('user-1', 'google.com', 'google.com')).toBe(google);
+    expect(await resolveCompanyId('user-1', 'Unknown Company', 'google.com')).toBe(google);
+
+    expect(db.companies).toEqual([{ id: google, userId: 'user-1', name: 'Google' }]);
+    expect(aliasesOf(google!)).toEqual(['domain:google.com', 'name:google']);
+  });
+
+  it('names a company first seen as a domain after the domain, then adopts a real name', async () => {
+    const hooli = await resolveCompanyId('user-1', 'Unknown Company', 'hooli.com');
+    expect(db.companies[0].name).toBe('hooli.com');
+
+    expect(await resolveCompanyId('user-1', 'Hooli', 'hooli.com')).toBe(hooli);
+    expect(db.companies[0].name).toBe('Hooli');
+    expect(aliasesOf(hooli!)).toEqual(['domain:hooli.com', 'name:hooli']);
+  });
+
+  it('shows a domain-style company name as a word', async () => {
+    await resolveCompanyId('user-1', 'initech.com', null);
+    expect(db.companies[0].name).toBe('Initech');
+  });
+
+  it('trusts the sender domain over the name the classifier read', async () => {
+    const acme = await resolveCompanyId('user-1', 'Acme', null);
+    const umbrella = await resolveCompanyId('user-1', 'Umbrella', 'umbrella.co.uk');
+
+    // Mail from Umbrella that mentions Acme is still Umbrella's
+    expect(await resolveCompanyId('user-1', 'Acme', 'umbrella.co.uk')).toBe(umbrella);
+    // The name stays with the company that claimed it first
+    expect(aliasesOf(acme!)).toEqual(['name:acme']);
+    expect(aliasesOf(umbrella!)).toEqual(['domain:umbrella.co.uk', 'name:umbrella']);
+  });
+
+  it('ignores free-mail and ATS sender domains', async () => {
+    const globex = await resolveCompanyId('user-1', 'Globex', 'gmail.com');
+    expect(await resolveCompanyId('user-1', 'Globex Corporation', 'greenhouse.io')).toBe(globex);
+    expect(aliasesOf(globex!)).toEqual(['name:globex']);
+
+    expect(await resolveCompanyId('user-1', 'Unknown Company', 'gmail.com')).toBeNull();
+    expect(db.companies).toHaveLength(1);
+  });
+
+  it('keeps companies of different users apart', async () => {
+    const mine = await resolveCompanyId('user-1', 'Google', 'google.com');
+    const theirs = await resolveCompanyId('user-2', 'Google', 'google.com');
+    expect(theirs).not.toBe(mine);
+  });
+});
+
+describe('mergeCompanies', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('needs another company to merge', async () => {
+    await expect(mergeCompanies('user-1', 'company-1', ['company-1'])).rejects.toThrow(CompanyInputError);
+  });
+
+  it('refuses companies the user does not own', async () => {
+    prisma.company.count.mockResolvedValue(1);
+    expect(await mergeCompanies('user-1', 'company-1', ['company-2'])).toBeNull();
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('moves aliases, applications and contacts to the target in one transaction', async () => {
+    prisma.company.count.mockResolvedValue(3);
+    await mergeCompanies('user-1', 'company-1', ['company-1', 'company-2', 'company-3']);
+
+    const moved = { where: { companyId: { in: ['company-2', 'company-3'] } }, data: { companyId: 'company-1' } };
+    expect(prisma.companyAlias.updateMany).toHaveBeenCalledWith(moved);
+    expect(prisma.application.updateMany).toHaveBeenCalledWith(moved);
+    expect(prisma.contact.updateMany).toHaveBeenCalledWith(moved);
+    expect(prisma.company.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['company-2', 'company-3'] } } });
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,173 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const prisma = vi.hoisted(() => ({
+  contact: { findUnique: vi.fn(), update: vi.fn(), create: vi.fn() },
+  application: { findUnique: vi.fn() },
+  emailMessage: { update: vi.fn() },
+}));
+
+vi.mock('../prisma', () => ({ prisma }));
+
+import { classifyContactRole, extractContactDetails, saveContact } from '../contacts';
+import type { ContactDetails } from '../types';
+
+const SIGNATURES: { name: string; from: string; body: string; expected: Partial<ContactDetails> }[] = [
+  {
+    name: 'recruiter with title, phone and LinkedIn',
+    from: 'Priya Shah <priya.shah@hooli.com>',
+    body: [
+      'Hi Sam,',
+      'Thanks for your time today. I will be in touch about next steps.',
+      'Best regards,',
+      'Priya Shah',
+      'Senior Technical Recruiter | Hooli',
+      '+1 (415) 555-0142',
+      'https://www.linkedin.com/in/priya-shah-42/',
+    ].join('\n'),
+    expected: {
+      email: 'priya.shah@hooli.com',
+      name: 'Priya Shah',
+      title: 'Senior Technical Recruiter',
+      phone: '+1 (415) 555-0142',
+      linkedinUrl: 'https://www.linkedin.com/in/priya-shah-42/',
+      role: 'recruiter',
+    },
+  },
+  {
+    name: 'hiring manager signing off with "Thanks"',
+    from: 'Dana Lee <dana@initech.com>',
+    body: 'Looking forward to meeting you on Thursday.\n\nThanks,\nDana Lee\nEngineering Manager, Payments\n415.555.0199',
+    expected: { title: 'Engineering Manager', phone: '415.555.0199', role: 'hiring_manager' },
+  },
+  {
+    name: 'signature of a quoted reply ignored',
+    from: 'Alex Kim <alex@globex.com>',
+    body: [
+      'Sounds good, see you then.',
+      '',
+      'On Mon, Mar 2, 2026 at 9:00 AM Jordan Fox <jordan@globex.com> wrote:',
+      '> Regards,',
+      '> Jordan Fox',
+      '> Director of Talent Acquisition',
+      '> +44 20 7946 0958',
+      '> https://linkedin.com/in/jordanfox',
+    ].join('\n'),
+    expected: { title: null, phone: null, linkedinUrl: null, role: 'other' },
+  },
+  {
+    name: 'dates and street numbers not read as phone numbers',
+    from: 'Morgan Ray <morgan@umbrella.co.uk>',
+    body: [
+      'Your onsite is on 2026-03-10 at 10:30.',
+      'Kind regards,',
+      'Morgan Ray',
+      'Talent Partner',
+      '1600 Amphitheatre Parkway, Mountain View, CA 94043',
+      'Updated 03/10/2026 10 30',
+    ].join('\n'),
+    expected: { title: 'Talent Partner', phone: null, role: 'recruiter' },
+  },
+  {
+    name: 'careers mailbox of the employer',
+    from: 'Acme Careers <careers@acme.com>',
+    body: 'We received your application.',
+    expected: { name: 'Acme Careers', title: null, role: 'recruiter' },
+  },
+];
+
+const ATS_SENDERS = [
+  'acme@myworkday.com',
+  'globex@wd5.myworkday.com',
+  'no-reply@greenhouse.io',
+  'notifications@greenhouse.io',
+  'noreply@hooli.com',
+  'do-not-reply@initech.com',
+  'jobs@lever.co',
+];
+
+describe('extractContactDetails', () => {
+  it.each(SIGNATURES)('reads $name', ({ from, body, expected }) => {
+    expect(extractContactDetails(from, body)).toMatchObject(expected);
+  });
+
+  it.each(ATS_SENDERS)('treats %s as an automated sender', (address) => {
+    const details = extractContactDetails(`Hiring Team <${address}>`, 'Best,\nJamie\nRecruiter\n+1 415 555 0100');
+    expect(details).toEqual({
+      email: address,
+      name: 'Hiring Team',
+      title: null,
+      phone: null,
+      linkedinUrl: null,
+      role: 'ats_noreply',
+    });
+  });
+
+  it('returns null without an address', () => {
+    expect(extractContactDetails('Undisclosed recipients', 'Hello')).toBeNull();
+  });
+});
+
+describe('classifyContactRole', () => {
+  it.each([
+    ['sam@acme.com', 'Talent Acquisition Lead', 'recruiter'],
+    ['sam@acme.com', 'VP of Engineering', 'hiring_manager'],
+    ['recruiting@acme.com', null, 'recruiter'],
+    ['sam@acme.com', 'Software Engineer', 'other'],
+    ['no-reply@acme.com', 'Recruiter', 'ats_noreply'],
+  ] as const)('classifies %s with title %s as %s', (address, title, role) => {
+    expect(classifyContactRole(address, title)).toBe(role);
+  });
+});
+
+describe('saveContact', () => {
+  const details: ContactDetails = {
+    email: 'priya.shah@hooli.com',
+    name: 'Priya Shah',
+    title: null,
+    phone: null,
+    linkedinUrl: null,
+    role: 'other',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma.application.findUnique.mockResolvedValue({ companyId: 'company-1' });
+    prisma.contact.update.mockResolvedValue({ id: 'contact-1' });
+    prisma.contact.create.mockResolvedValue({ id: 'contact-1' });
+  });
+
+  it('never downgrades a specific role to other', async () => {
+    prisma.contact.findUnique.mockResolvedValue({ id: 'contact-1', role: 'recruiter', companyId: 'company-1' });
+    await saveContact('user-1', 'message-1', 'app-1', details);
+
+    expect(prisma.contact.update).toHaveBeenCalledWith({ where: { id: 'contact-1' }, data: { name: 'Priya Shah' } });
+    expect(prisma.emailMessage.update).toHaveBeenCalledWith({
+      where: { id: 'message-1' },
+      data: { contactId: 'contact-1' },
+    });
+  });
+
+  it('replaces the role with a more specific one', async () => {
+    prisma.contact.findUnique.mockResolvedValue({ id: 'contact-1', role: 'other', companyId: null });
+    await saveContact('user-1', 'message-1', 'app-1', { ...details, title: 'Recruiter', role: 'recruiter' });
+
+    expect(prisma.contact.update.mock.calls[0][0].data).toEqual({
+      name: 'Priya Shah',
+      title: 'Recruiter',
+      role: 'recruiter',
+      companyId: 'company-1',
+    });
+  });
+
+  it('creates a new contact as other and never ties an automated sender to a company', async () => {
+    prisma.contact.findUnique.mockResolvedValue(null);
+    await saveContact('user-1', 'message-1', 'app-1', { ...details, email: 'no-reply@hooli.com', role: 'ats_noreply' });
+
+    expect(prisma.contact.create.mock.calls[0][0].data).toEqual({
+      userId: 'user-1',
+      email: 'no-reply@hooli.com',
+      name: 'Priya Shah',
+      role: 'ats_noreply',
+    });
+  });
+});
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from '../csv';
+
+describe('toCsv', () => {
+  it('prefixes cells that would be evaluated as formulas', () => {
+    expect(toCsv([['=SUM(A1:A2)', '+1 555', '-2+3', '@cmd']])).toBe("'=SUM(A1:A2),'+1 555,'-2+3,'@cmd\r\n");
+  });
+
+  it('leaves plain negative numbers alone', () => {
+    expect(toCsv([[-1500, '-12.5', '42']])).toBe('-1500,-12.5,42\r\n');
+  });
+
+  it('round-trips quoted fields through parseCsv', () => {
+    const rows = [['Acme, Inc.', 'Said "hi"', 'two\nlines']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
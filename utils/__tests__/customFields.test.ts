@@ -0,0 +1,122 @@
+import { Prisma } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const prisma = vi.hoisted(() => ({
+  $transaction: vi.fn(async (operations: unknown[]) => Promise.all(operations)),
+  application: {
+    findMany: vi.fn(),
+    update: vi.fn(),
+  },
+  customField: {
+    findFirst: vi.fn(),
+    findMany: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+vi.mock('../prisma', () => ({ prisma }));
+
+import { CustomFieldInputError, deleteCustomField, parseCustomFieldInput, updateCustomField } from '../customFields';
+
+describe('parseCustomFieldInput', () => {
+  it('accepts each field type, keeping options only for select fields', () => {
+    expect(parseCustomFieldInput({ name: '  Referral   source ', type: 'text', options: ['ignored'] })).toEqual({
+      name: 'Referral source',
+      type: 'text',
+      options: [],
+    });
+    expect(parseCustomFieldInput({ name: 'Salary floor', type: 'number' })).toEqual({
+      name: 'Salary floor',
+      type: 'number',
+      options: [],
+    });
+    expect(parseCustomFieldInput({ name: 'Deadline', type: 'date' }).type).toBe('date');
+    expect(parseCustomFieldInput({ name: 'Remote', type: 'select', options: [' Yes', 'No', 'Yes', ''] })).toEqual({
+      name: 'Remote',
+      type: 'select',
+      options: ['Yes', 'No'],
+    });
+  });
+
+  it.each([
+    ['a missing body', null, 'Request body must be a JSON object'],
+    ['a missing name', { type: 'text' }, 'name is required'],
+    ['punctuation in the name', { name: 'Salary ($)', type: 'text' }, 'name may only contain'],
+    ['an unknown type', { name: 'Deadline', type: 'datetime' }, 'type must be one of: text, number, date, select'],
+    ['a select field without options', { name: 'Remote', type: 'select', options: [' '] }, 'needs at least one option'],
+    ['options that are not strings', { name: 'Remote', type: 'select', options: ['Yes', 1] }, 'options must be a list'],
+  ])('rejects %s', (_, body, message) => {
+    expect(() => parseCustomFieldInput(body)).toThrow(CustomFieldInputError);
+    expect(() => parseCustomFieldInput(body)).toThrow(message);
+  });
+
+  it.each(['status', 'Priority', 'AFTER', 'so-urce'])('rejects %s, which clashes with a search operator', (name) => {
+    expect(() => parseCustomFieldInput({ name, type: 'text' })).toThrow('is already a search operator');
+  });
+
+  it('only reads the fields present in an edit, and never the type', () => {
+    expect(parseCustomFieldInput({ name: 'Referrer' }, true)).toEqual({ name: 'Referrer' });
+    expect(parseCustomFieldInput({ options: ['Yes'] }, true)).toEqual({ options: ['Yes'] });
+    expect(() => parseCustomFieldInput({ type: 'number' }, true)).toThrow("A field's type cannot be changed");
+  });
+});
+
+describe('clearing values', () => {
+  const remote = { id: 'field-1', userId: 'user-1', name: 'Remote', type: 'select', options: ['Yes', 'No', 'Hybrid'] };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma.customField.findFirst.mockResolvedValue(remote);
+    prisma.customField.findMany.mockResolvedValue([remote]);
+    prisma.customField.update.mockImplementation(async ({ data }) => ({ ...remote, ...data }));
+    prisma.application.findMany.mockResolvedValue([
+      { id: 'app-1', customValues: { 'field-1': 'Yes', 'field-2': 'Sam' } },
+      { id: 'app-2', customValues: { 'field-1': 'Hybrid', 'field-2': 'Alex' } },
+    ]);
+  });
+
+  it('only loads applications that have a value for the field', async () => {
+    await deleteCustomField('user-1', 'field-1');
+    expect(prisma.application.findMany.mock.calls[0][0].where).toEqual({
+      userId: 'user-1',
+      customValues: { path: ['field-1'], not: Prisma.AnyNull },
+    });
+  });
+
+  it('clears values and deletes the field in one transaction', async () => {
+    expect(await deleteCustomField('user-1', 'field-1')).toBe(true);
+
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(prisma.$transaction.mock.calls[0][0]).toHaveLength(3);
+    expect(prisma.application.update.mock.calls.map(([args]) => args)).toEqual([
+      { where: { id: 'app-1' }, data: { customValues: { 'field-2': 'Sam' }, customSearchValues: { 'field-2': 'sam' } } },
+      { where: { id: 'app-2' }, data: { customValues: { 'field-2': 'Alex' }, customSearchValues: { 'field-2': 'alex' } } },
+    ]);
+    expect(prisma.customField.delete).toHaveBeenCalledWith({ where: { id: 'field-1' } });
+  });
+
+  it('clears only choices that are no longer offered, alongside the new options', async () => {
+    const field = await updateCustomField('user-1', 'field-1', { options: ['Yes', 'No'] });
+
+    expect(field?.options).toEqual(['Yes', 'No']);
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(prisma.$transaction.mock.calls[0][0]).toHaveLength(2);
+    expect(prisma.application.update).toHaveBeenCalledTimes(1);
+    expect(prisma.application.update.mock.calls[0][0].where).toEqual({ id: 'app-2' });
+  });
+
+  it('leaves values alone on a rename', async () => {
+    await updateCustomField('user-1', 'field-1', { name: 'Work from home' });
+
+    expect(prisma.application.findMany).not.toHaveBeenCalled();
+    expect(prisma.$transaction.mock.calls[0][0]).toHaveLength(1);
+  });
+
+  it('writes nothing when the user does not own the field', async () => {
+    prisma.customField.findFirst.mockResolvedValue(null);
+
+    expect(await deleteCustomField('user-1', 'field-1')).toBe(false);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,88 @@
+import type { gmail_v1 } from 'googleapis';
+import type { GmailClient } from '../gmail';
+
+export interface FakeGmail extends GmailClient {
+  // Every messages.list call, to check queries and paging
+  listCalls: gmail_v1.Params$Resource$Users$Messages$List[];
+}
+
+const encode = (text: string) => Buffer.from(text, 'utf8').toString('base64url');
+
+// A message as Gmail returns it with format=full
+export function buildMessage(
+  id: string,
+  { subject, from, date = 'Mon, 2 Mar 2026 10:00:00 +0000', parts }: {
+    subject: string;
+    from: string;
+    date?: string;
+    parts: { mimeType: string; body: string; headers?: gmail_v1.Schema$MessagePartHeader[] }[];
+  }
+): gmail_v1.Schema$Message {
+  return {
+    id,
+    threadId: `thread-${id}`,
+    snippet: parts[0]?.body.slice(0, 80),
+    payload: {
+      mimeType: 'multipart/alternative',
+      headers: [
+        { name: 'Subject', value: subject },
+        { name: 'From', value: from },
+        { name: 'Date', value: date },
+      ],
+      parts: parts.map(({ mimeType, body, headers = [] }) => ({
+        mimeType,
+        headers: [{ name: 'Content-Type', value: `${mimeType}; charset="utf-8"` }, ...headers],
+        body: { data: encode(body) },
+      })),
+    },
+  };
+}
+
+/**
+ * An in-memory GmailClient over a list of messages. Queries are recorded but not
+ * evaluated, and messages in `failing` throw as a Gmail error would.
+ */
+export function createFakeGmail(
+  messages: gmail_v1.Schema$Message[],
+  { historyId = '1000', failing = [] as string[] } = {}
+): FakeGmail {
+  const listCalls: gmail_v1.Params$Resource$Users$Messages$List[] = [];
+
+  return {
+    listCalls,
+    users: {
+      async getProfile() {
+        return { data: { historyId } };
+      },
+      messages: {
+        async list(params) {
+          listCalls.push(params);
+          const offset = Number(params.pageToken ?? 0);
+          const limit = params.maxResults ?? 100;
+          const page = messages.slice(offset, offset + limit);
+          return {
+            data: {
+              messages: page.map(({ id, threadId }) => ({ id, threadId })),
+              nextPageToken: offset + limit < messages.length ? String(offset + limit) : undefined,
+            },
+          };
+        },
+        async get(params) {
+          const message = messages.find((candidate) => candidate.id === params.id);
+          if (!message || failing.includes(params.id ?? '')) {
+            throw Object.assign(new Error(`Message ${params.id} unavailable`), { code: 500 });
+          }
+          return { data: message };
+        },
+      },
+      history: {
+        async list() {
+          return { data: { historyId, history: [] } };
+        },
+      },
+      async watch() {
+        return { data: { historyId, expiration: String(Date.now() + 7 * 24 * 60 * 60 * 1000) } };
+      },
+    },
+  };
+}
@@ -0,0 +1,172 @@
+import type { EmailContent } from '../../classifier';
+import type { ApplicationStatus } from '../../types';
+
+export interface CorpusEmail {
+  name: string;
+  email: EmailContent;
+  expected: {
+    isJobApplication: boolean;
+    applicationStatus: ApplicationStatus;
+    companyName: string;
+    jobProfile: string;
+  };
+}
+
+// Sample mail as the classifier sees it after ingestion: subject, plain-text body and raw From header
+export const CLASSIFIER_CORPUS: CorpusEmail[] = [
+  {
+    name: 'LinkedIn Easy Apply confirmation',
+    email: {
+      subject: 'Your application was sent to Acme Corp',
+      body: 'Your application was sent to Acme Corp. Good luck!',
+      from: 'LinkedIn <jobs-noreply@linkedin.com>',
+    },
+    expected: {
+      isJobApplication: true,
+      applicationStatus: 'Applied',
+      companyName: 'Acme Corp',
+      jobProfile: 'Unknown Position',
+    },
+  },
+  {
+    name: 'Greenhouse receipt',
+    email: {
+      subject: 'Thank you for applying to Globex',
+      body: 'Hi Sam,\n\nThank you for applying for the Senior Backend Engineer position. We have received your application and our team is reviewing it.\n\nBest,\nGlobex Recruiting Team',
+      from: 'Globex <no-reply@greenhouse.io>',
+    },
+    expected: {
+      isJobApplication: true,
+      applicationStatus: 'Application Received',
+      companyName: 'Globex',
+      jobProfile: 'Senior Backend Engineer',
+    },
+  },
+  {
+    name: 'Lever application template with role and company',
+    // "application for" in the subject outweighs the thank-you in the body
+    email: {
+      subject: 'Your application for Data Engineer at Initech',
+      body: 'Thanks for your application. We will be in touch if your background matches what we need.',
+      from: 'Initech <no-reply@hire.lever.co>',
+    },
+    expected: {
+      isJobApplication: true,
+      applicationStatus: 'Applied',
+      companyName: 'Initech',
+      jobProfile: 'Data Engineer',
+    },
+  },
+  {
+    name: 'Interview invitation subject template',
+    email: {
+      subject: 'Interview invitation: Product Designer at Hooli',
+      body: 'We would love to schedule a call with you. Please share your availability for next week.',
+      from: 'Gavin Belson <gavin@hooli.com>',
+    },
+    expected: {
+      isJobApplication: true,
+      applicationStatus: 'Interview',
+      companyName: 'Hooli',
+      jobProfile: 'Product Designer',
+    },
+  },
+  {
+    name: 'Coding assessment from a company domain',
+    email: {
+      subject: 'Next steps',
+      body: 'Thanks again for your interest. As a next step, please complete the coding challenge on HackerRank within 5 days.',
+      from: 'Jane Doe <jane.doe@mail.umbrella.co.uk>',
+    },
+    expected: {
+      isJobApplication: true,
+      applicationStatus: 'Interview',
+      companyName: 'Umbrella',
+      jobProfile: 'Unknown Position',
+    },
+  },
+  {
+    name: 'Rejection signed by a recruiting team',
+    email: {
+      subject: 'Update on your candidacy',
+      body: 'Hi Sam,\n\nUnfortunately, we have decided to move forward with other candidates for this role.\n\nThe Stark Industries Recruiting Team',
+      from: 'careers@starkindustries.com',
+    },
+    expected: {
+      isJobApplication: true,
+      applicationStatus: 'Rejected',
+      companyName: 'Stark Industries',
+      jobProfile: 'Unknown Position',
+    },
+  },
+  {
+    name: 'Rejection that mentions an interview',
+    email: {
+      subject: 'Your application to Wayne Enterprises',
+      body: 'We regret to inform you that we will not be moving forward to an interview at this time.',
+      from: 'Wayne Enterprises Talent <talent@wayne.com>',
+    },
+    expected: {
+      isJobApplication: true,
+      applicationStatus: 'Rejected',
+      companyName: 'Wayne Enterprises',
+      jobProfile: 'Unknown Position',
+    },
+  },
+  {
+    name: 'Offer letter',
+    email: {
+      subject: 'Offer letter - Staff Engineer',
+      body: 'We are delighted to extend an offer of employment for the Staff Engineer role. Welcome to the team!',
+      from: 'Priya from Cyberdyne <priya@cyberdyne.io>',
+    },
+    expected: {
+      isJobApplication: true,
+      applicationStatus: 'Offer',
+      companyName: 'Cyberdyne',
+      jobProfile: 'Unknown Position',
+    },
+  },
+  {
+    name: 'Workday tenant sender',
+    email: {
+      subject: 'Application received',
+      body: 'Thank you for your application. It is now under review.',
+      from: 'Workday <massive-dynamic@myworkday.com>',
+    },
+    expected: {
+      isJobApplication: true,
+      applicationStatus: 'Application Received',
+      companyName: 'Massive Dynamic',
+      jobProfile: 'Unknown Position',
+    },
+  },
+  {
+    name: 'Job alert digest',
+    email: {
+      subject: '25 new jobs for you',
+      body: 'Jobs you may be interested in: Frontend Engineer, Platform Engineer. View all similar jobs.',
+      from: 'Indeed <alert@indeed.com>',
+    },
+    expected: {
+      isJobApplication: false,
+      applicationStatus: 'Applied',
+      companyName: 'Unknown Company',
+      jobProfile: 'Unknown Position',
+    },
+  },
+  {
+    name: 'Personal mail from a free mail host',
+    email: {
+      subject: 'Lunch on Friday?',
+      body: 'Are you free for lunch on Friday?',
+      from: 'Alex <alex@gmail.com>',
+    },
+    expected: {
+      isJobApplication: false,
+      applicationStatus: 'Applied',
+      companyName: 'Unknown Company',
+      jobProfile: 'Unknown Position',
+    },
+  },
+];
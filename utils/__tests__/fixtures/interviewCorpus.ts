@@ -0,0 +1,153 @@
+import type { InterviewDetails } from '../../types';
+
+export interface CorpusInvitation {
+  name: string;
+  subject: string;
+  body: string;
+  receivedAt: string;
+  // The email's Date header, whose offset stands in for a missing zone
+  dateHeader?: string;
+  // Only the fields given are checked; null means no start can be read
+  expected: Partial<InterviewDetails> | null;
+}
+
+// 2026: US daylight time runs from Sunday 8 March to Sunday 1 November
+export const INTERVIEW_CORPUS: CorpusInvitation[] = [
+  {
+    name: 'explicit UTC offset',
+    subject: 'Interview invitation',
+    body: 'Your interview is on March 10, 2026 at 2:00 pm (GMT+5:30).',
+    receivedAt: '2026-03-02T10:00:00Z',
+    expected: { startsAt: '2026-03-10T08:30:00.000Z', timezone: 'GMT+5:30' },
+  },
+  {
+    name: 'zone abbreviation',
+    subject: 'Next steps',
+    body: 'We have you down for Tuesday, January 13, 2026 at 10:30 AM PST.',
+    receivedAt: '2026-01-05T18:00:00Z',
+    expected: { startsAt: '2026-01-13T18:30:00.000Z', timezone: 'PST' },
+  },
+  {
+    name: 'US zone on the last day of standard time',
+    subject: 'Phone screen',
+    body: 'Does March 6 at 10am ET work for you?',
+    receivedAt: '2026-03-02T15:00:00Z',
+    expected: { startsAt: '2026-03-06T15:00:00.000Z', timezone: 'ET' },
+  },
+  {
+    name: 'US zone the day after daylight time starts',
+    subject: 'Phone screen',
+    body: 'Does March 9 at 10am ET work for you?',
+    receivedAt: '2026-03-02T15:00:00Z',
+    expected: { startsAt: '2026-03-09T14:00:00.000Z', timezone: 'ET' },
+  },
+  {
+    name: 'US zone the day after daylight time ends',
+    subject: 'Onsite',
+    body: 'Your onsite is November 2, 2026 at 9:00 am Pacific Time.',
+    receivedAt: '2026-10-20T16:00:00Z',
+    expected: { startsAt: '2026-11-02T17:00:00.000Z', timezone: 'Pacific Time' },
+  },
+  {
+    name: 'time and zone around the date',
+    subject: 'Interview confirmed',
+    body: 'See you at 11:30 am on Thursday, March 5 Eastern Time.',
+    receivedAt: '2026-03-02T15:00:00Z',
+    expected: { startsAt: '2026-03-05T16:30:00.000Z', timezone: 'Eastern Time' },
+  },
+  {
+    name: 'range sharing the end meridiem',
+    subject: 'Technical interview',
+    body: 'Thursday, March 12 from 11:30 - 12:15 pm CET with the platform team.',
+    receivedAt: '2026-03-02T09:00:00Z',
+    expected: { startsAt: '2026-03-12T10:30:00.000Z', durationMinutes: 45, timezone: 'CET' },
+  },
+  {
+    name: 'range in the sender offset',
+    subject: 'Final round',
+    body: 'We booked April 2, 2026, 2-3pm for the final round.',
+    receivedAt: '2026-03-25T16:00:00Z',
+    dateHeader: 'Wed, 25 Mar 2026 09:00:00 -0700',
+    expected: { startsAt: '2026-04-02T21:00:00.000Z', durationMinutes: 60, timezone: null },
+  },
+  {
+    name: 'tomorrow',
+    subject: 'Quick chat',
+    body: 'Can you do tomorrow at 3:30pm?',
+    receivedAt: '2026-03-02T17:00:00Z',
+    dateHeader: 'Mon, 2 Mar 2026 17:00:00 +0000',
+    expected: { startsAt: '2026-03-03T15:30:00.000Z' },
+  },
+  {
+    name: 'tomorrow in the sender calendar day',
+    subject: 'Quick chat',
+    body: 'Can you do tomorrow at 9am?',
+    // Already Tuesday in Tokyo
+    receivedAt: '2026-03-02T23:00:00Z',
+    dateHeader: 'Tue, 3 Mar 2026 08:00:00 +0900',
+    expected: { startsAt: '2026-03-04T00:00:00.000Z' },
+  },
+  {
+    name: 'weekday later this week',
+    subject: 'Recruiter call',
+    body: 'How about Friday at 11am EST?',
+    receivedAt: '2026-03-02T12:00:00Z',
+    expected: { startsAt: '2026-03-06T16:00:00.000Z', timezone: 'EST' },
+  },
+  {
+    name: 'same weekday means next week',
+    subject: 'Recruiter call',
+    body: 'Would Monday at 10:00 am UTC suit you?',
+    receivedAt: '2026-03-02T12:00:00Z',
+    expected: { startsAt: '2026-03-09T10:00:00.000Z' },
+  },
+  {
+    name: 'next weekday',
+    subject: 'Hiring manager chat',
+    body: 'Let us meet next Tuesday at 9:00.',
+    receivedAt: '2026-03-02T12:00:00Z',
+    dateHeader: 'Mon, 2 Mar 2026 12:00:00 +0000',
+    expected: { startsAt: '2026-03-10T09:00:00.000Z' },
+  },
+  {
+    name: 'year-less date in January sent in late December',
+    subject: 'Interview after the holidays',
+    body: 'We would like to see you on January 5 at 10:00 am GMT.',
+    receivedAt: '2026-12-22T10:00:00Z',
+    expected: { startsAt: '2027-01-05T10:00:00.000Z', timezone: 'GMT' },
+  },
+  {
+    name: 'past date the email refers back to',
+    subject: 'Interview',
+    body: 'Thanks for applying on February 2, 2026 at 9am. Your interview is on March 10, 2026 at 1pm UTC.',
+    receivedAt: '2026-03-02T12:00:00Z',
+    expected: { startsAt: '2026-03-10T13:00:00.000Z' },
+  },
+  {
+    name: 'duration, interviewer and meeting link',
+    subject: 'Interview scheduled',
+    body: '30 minute call with Jane Doe on March 11, 2026 at 4:00 PM UTC. Join https://zoom.us/j/12345678?pwd=abc.',
+    receivedAt: '2026-03-02T12:00:00Z',
+    expected: {
+      startsAt: '2026-03-11T16:00:00.000Z',
+      durationMinutes: 30,
+      interviewer: 'Jane Doe',
+      meetingUrl: 'https://zoom.us/j/12345678?pwd=abc',
+      meetingProvider: 'zoom',
+    },
+  },
+  {
+    name: 'date without a time',
+    subject: 'Interview',
+    body: 'We would like to schedule an interview on March 10. Please send your availability.',
+    receivedAt: '2026-03-02T12:00:00Z',
+    expected: null,
+  },
+  {
+    name: 'time without a date',
+    subject: 'Interview',
+    body: 'Our team usually meets candidates at 3pm.',
+    receivedAt: '2026-03-02T12:00:00Z',
+    expected: null,
+  },
+];
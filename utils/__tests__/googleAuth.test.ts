@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const stored = vi.hoisted(() => ({ token: null as string | null }));
+
+vi.mock('../prisma', () => ({
+  prisma: {
+    user: {
+      upsert: vi.fn(async ({ update }) => {
+        stored.token = update.googleRefreshToken;
+      }),
+      update: vi.fn(async ({ data }) => {
+        stored.token = data.googleRefreshToken;
+      }),
+      findUnique: vi.fn(async () => ({ googleRefreshToken: stored.token })),
+    },
+  },
+}));
+
+import { loadRefreshToken, storeRefreshToken, updateRefreshToken } from '../googleAuth';
+
+describe('refresh token storage', () => {
+  beforeEach(() => {
+    stored.token = null;
+    vi.stubEnv('TOKEN_ENCRYPTION_KEY', 'test key');
+  });
+
+  it('stores the token encrypted and reads it back', async () => {
+    await storeRefreshToken('sam@example.com', '1//refresh-token');
+    expect(stored.token).not.toContain('1//refresh-token');
+    expect(await loadRefreshToken('user-1')).toBe('1//refresh-token');
+  });
+
+  it('encrypts a rotated token and forgets a revoked one', async () => {
+    await updateRefreshToken('user-1', '1//rotated');
+    expect(stored.token).not.toContain('1//rotated');
+    expect(await loadRefreshToken('user-1')).toBe('1//rotated');
+
+    await updateRefreshToken('user-1', null);
+    expect(await loadRefreshToken('user-1')).toBeNull();
+  });
+
+  it('reads tokens stored before encryption as they are', async () => {
+    stored.token = '1//legacy';
+    expect(await loadRefreshToken('user-1')).toBe('1//legacy');
+  });
+
+  it('treats a token encrypted with another key as missing', async () => {
+    await storeRefreshToken('sam@example.com', '1//refresh-token');
+    vi.stubEnv('TOKEN_ENCRYPTION_KEY', 'other key');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(await loadRefreshToken('user-1')).toBeNull();
+  });
+});
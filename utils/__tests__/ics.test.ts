@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { buildInterviewCalendar } from '../ics';
+import type { UpcomingInterview } from '../types';
+
+const interview = (overrides: Partial<UpcomingInterview> = {}): UpcomingInterview => ({
+  id: 'interview-1',
+  applicationId: 'app-1',
+  companyName: 'Hooli',
+  jobProfile: 'Data Analyst',
+  startsAt: '2026-03-10T14:00:00.000Z',
+  durationMinutes: 45,
+  timezone: null,
+  interviewer: null,
+  meetingUrl: null,
+  meetingProvider: null,
+  ...overrides,
+});
+
+const generatedAt = new Date('2026-03-02T12:00:00Z');
+
+// Undoes RFC 5545 folding
+const unfold = (calendar: string) => calendar.replace(/\r\n /g, '');
+
+describe('buildInterviewCalendar', () => {
+  it('writes one event per interview with CRLF line endings', () => {
+    const calendar = buildInterviewCalendar([interview()], generatedAt);
+
+    expect(calendar.split('\r\n')).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Job Application Tracker//Interviews//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:Job interviews',
+      'BEGIN:VEVENT',
+      'UID:interview-1@job-application-tracker',
+      'DTSTAMP:20260302T120000Z',
+      'DTSTART:20260310T140000Z',
+      'DTEND:20260310T144500Z',
+      'SUMMARY:Interview: Hooli',
+      'DESCRIPTION:Data Analyst at Hooli',
+      'END:VEVENT',
+      'END:VCALENDAR',
+      '',
+    ]);
+  });
+
+  it('defaults the length of an interview without one', () => {
+    const calendar = buildInterviewCalendar([interview({ durationMinutes: null })], generatedAt);
+    expect(calendar).toContain('DTEND:20260310T150000Z');
+  });
+
+  it('escapes commas, semicolons, backslashes and newlines', () => {
+    const calendar = buildInterviewCalendar(
+      [interview({ companyName: 'Acme, Inc; R\\D', interviewer: 'Sam' })],
+      generatedAt
+    );
+    const lines = unfold(calendar).split('\r\n');
+
+    expect(lines).toContain('SUMMARY:Interview: Acme\\, Inc\\; R\\\\D');
+    expect(lines).toContain('DESCRIPTION:Data Analyst at Acme\\, Inc\\; R\\\\D\\nInterviewer: Sam');
+  });
+
+  it('adds the meeting link as location and URL', () => {
+    const meetingUrl = 'https://meet.google.com/abc-defg-hij';
+    const lines = buildInterviewCalendar([interview({ meetingUrl, meetingProvider: 'meet' })], generatedAt).split('\r\n');
+
+    expect(lines).toContain(`LOCATION:${meetingUrl}`);
+    expect(lines).toContain(`URL:${meetingUrl}`);
+  });
+
+  it('folds long lines at 75 octets without splitting multibyte characters', () => {
+    const companyName = 'Société Générale Économie Numérique ✓ '.repeat(4).trim();
+    const calendar = buildInterviewCalendar([interview({ companyName })], generatedAt);
+    const lines = calendar.split('\r\n');
+
+    for (const line of lines) expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+    expect(lines.some((line) => line.startsWith(' '))).toBe(true);
+    // A split inside a character would leave replacement characters behind
+    expect(calendar).not.toContain('�');
+    expect(unfold(calendar)).toContain(`SUMMARY:Interview: ${companyName}`);
+  });
+
+  it('fills the first line of a fold to exactly 75 octets', () => {
+    const calendar = buildInterviewCalendar([interview({ companyName: 'x'.repeat(100) })], generatedAt);
+    const summary = calendar.split('\r\n').findIndex((line) => line.startsWith('SUMMARY:'));
+    const lines = calendar.split('\r\n');
+
+    expect(lines[summary]).toHaveLength(75);
+    expect(lines[summary + 1]).toBe(` ${'x'.repeat(100 - (75 - 'SUMMARY:Interview: '.length))}`);
+  });
+});
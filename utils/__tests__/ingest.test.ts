@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../prisma', () => ({ prisma: {} }));
+vi.mock('../applications', () => ({ saveEmailInfos: vi.fn() }));
+
+import { saveEmailInfos } from '../applications';
+import { listMessageIds } from '../gmail';
+import { buildJobQuery, fetchAndExtract, ingestMessages } from '../ingest';
+import { getEmailBody } from '../mime';
+import { buildMessage, createFakeGmail } from './fakeGmail';
+
+const receipt = buildMessage('m1', {
+  subject: 'Thank you for applying to Globex',
+  from: 'Globex <no-reply@greenhouse.io>',
+  parts: [
+    {
+      mimeType: 'text/plain',
+      body: 'Thank you for applying for the Platform Engineer position.\n\nOn Mon, Mar 2, 2026 Sam wrote:\n> earlier mail',
+    },
+    { mimeType: 'text/html', body: '<p>HTML alternative</p>' },
+  ],
+});
+
+const htmlOnly = buildMessage('m2', {
+  subject: 'Interview invitation: Data Analyst at Hooli',
+  from: 'Gavin <gavin@hooli.com>',
+  parts: [
+    { mimeType: 'text/html', body: '<p>Please share your availability&nbsp;for an interview.</p><p>Thanks &amp; regards</p>' },
+  ],
+});
+
+const quotedPrintable = buildMessage('m3', {
+  subject: 'Application received',
+  from: 'Initech Careers <careers@initech.com>',
+  date: 'not a date',
+  parts: [
+    {
+      mimeType: 'text/plain',
+      body: 'Caf=C3=A9 team: we have received your application.',
+      headers: [{ name: 'Content-Transfer-Encoding', value: 'quoted-printable' }],
+    },
+  ],
+});
+
+beforeEach(() => {
+  vi.unstubAllEnvs();
+  // No provider configured: classification must fall back to the rules
+  vi.stubEnv('LLM_PROVIDER', 'none');
+  vi.mocked(saveEmailInfos).mockClear();
+});
+
+describe('buildJobQuery', () => {
+  it('adds a Unix timestamp or a relative window to the base query', () => {
+    expect(buildJobQuery('subject:(application)')).toBe('subject:(application)');
+    expect(buildJobQuery('subject:(application)', { after: 1767225600.9 })).toBe('subject:(application) after:1767225600');
+    expect(buildJobQuery('subject:(application)', { newerThan: '7d' })).toBe('subject:(application) newer_than:7d');
+  });
+});
+
+describe('listMessageIds', () => {
+  const messages = Array.from({ length: 250 }, (_, index) => ({ id: `id-${index}`, threadId: `t-${index}` }));
+
+  it('follows page tokens until the limit is reached', async () => {
+    const gmail = createFakeGmail(messages);
+    const ids = await listMessageIds(gmail, 'label:jobs', 150);
+
+    expect(ids).toHaveLength(150);
+    expect(ids[149]).toBe('id-149');
+    expect(gmail.listCalls.map(({ maxResults, pageToken }) => [maxResults, pageToken])).toEqual([
+      [100, undefined],
+      [50, '100'],
+    ]);
+    expect(gmail.listCalls.every(({ q }) => q === 'label:jobs')).toBe(true);
+  });
+
+  it('stops when the results run out', async () => {
+    const gmail = createFakeGmail(messages);
+    expect(await listMessageIds(gmail, 'label:jobs', 1000)).toHaveLength(250);
+    expect(gmail.listCalls).toHaveLength(3);
+  });
+});
+
+describe('fetchAndExtract', () => {
+  it('decodes message bodies', () => {
+    expect(getEmailBody(receipt.payload)).toBe('Thank you for applying for the Platform Engineer position.');
+    expect(getEmailBody(htmlOnly.payload)).toContain('Please share your availability for an interview.');
+    expect(getEmailBody(htmlOnly.payload)).toContain('Thanks & regards');
+    expect(getEmailBody(quotedPrintable.payload)).toBe('Café team: we have received your application.');
+  });
+
+  it('prefers the plain-text part and strips quoted history', async () => {
+    const { emails } = await fetchAndExtract(createFakeGmail([receipt]), 'user-1', ['m1']);
+
+    expect(emails[0]).toMatchObject({
+      id: 'm1',
+      threadId: 'thread-m1',
+      companyName: 'Globex',
+      jobProfile: 'Platform Engineer',
+      applicationStatus: 'Application Received',
+      fromCache: false,
+      date: '2026-03-02T10:00:00.000Z',
+      senderAddress: 'no-reply@greenhouse.io',
+    });
+  });
+
+  it('converts HTML-only bodies to text before classifying', async () => {
+    const { emails } = await fetchAndExtract(createFakeGmail([htmlOnly]), 'user-1', ['m2']);
+
+    expect(emails[0]).toMatchObject({ companyName: 'Hooli', jobProfile: 'Data Analyst', applicationStatus: 'Interview' });
+  });
+
+  it('decodes quoted-printable bodies and tolerates a malformed Date header', async () => {
+    const { emails, failed } = await fetchAndExtract(createFakeGmail([quotedPrintable]), 'user-1', ['m3']);
+
+    expect(failed).toBe(0);
+    expect(emails[0]).toMatchObject({ applicationStatus: 'Application Received', date: null });
+  });
+
+  it('falls back to the rules when the LLM provider is unset', async () => {
+    const { emails } = await fetchAndExtract(createFakeGmail([receipt]), 'user-1', ['m1']);
+
+    expect(emails[0].confidence.companyName).toBe(0.85);
+    expect(emails[0].fromCache).toBe(false);
+  });
+
+  it('counts messages that cannot be fetched instead of throwing', async () => {
+    const gmail = createFakeGmail([receipt, htmlOnly], { failing: ['m2'] });
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const result = await fetchAndExtract(gmail, 'user-1', ['m1', 'm2']);
+
+    expect(result.emails.map(({ id }) => id)).toEqual(['m1']);
+    expect(result).toMatchObject({ failed: 1, failedIds: ['m2'] });
+  });
+});
+
+describe('ingestMessages', () => {
+  it('saves the extracted emails', async () => {
+    const result = await ingestMessages(createFakeGmail([receipt, htmlOnly]), 'user-1', ['m1', 'm2']);
+
+    expect(saveEmailInfos).toHaveBeenCalledWith('user-1', result.emails);
+    expect(result.emails).toHaveLength(2);
+  });
+});
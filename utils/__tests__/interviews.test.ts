@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../prisma', () => ({ prisma: {} }));
+
+import { extractInterviewDetails, findDateMention, parseHeaderOffset } from '../interviews';
+import { INTERVIEW_CORPUS } from './fixtures/interviewCorpus';
+
+describe('extractInterviewDetails', () => {
+  it.each(INTERVIEW_CORPUS)('reads $name', ({ subject, body, receivedAt, dateHeader, expected }) => {
+    const details = extractInterviewDetails({ subject, body }, new Date(receivedAt), dateHeader);
+
+    if (expected === null) expect(details).toBeNull();
+    else expect(details).toMatchObject(expected);
+  });
+
+  it('ignores dates and numbers inside links', () => {
+    const details = extractInterviewDetails(
+      { subject: 'Interview', body: 'Join https://meet.google.com/abc-defg-hij?d=2026-03-04 at 10:00 am UTC' },
+      new Date('2026-03-02T12:00:00Z')
+    );
+    expect(details).toBeNull();
+  });
+});
+
+describe('parseHeaderOffset', () => {
+  it('reads the offset at the end of a Date header', () => {
+    expect(parseHeaderOffset('Tue, 4 Mar 2025 09:12:00 -0800')).toBe(-480);
+    expect(parseHeaderOffset('Tue, 4 Mar 2025 09:12:00 +0530 (IST)')).toBe(330);
+    expect(parseHeaderOffset('not a date')).toBe(0);
+  });
+});
+
+describe('findDateMention', () => {
+  const receivedAt = new Date('2026-12-22T10:00:00Z');
+
+  it('returns noon UTC on the first date after the email', () => {
+    expect(findDateMention('Please reply by December 30.', receivedAt)).toEqual(new Date('2026-12-30T12:00:00Z'));
+  });
+
+  it('rolls a year-less date already past into next year', () => {
+    expect(findDateMention('Please reply by January 8.', receivedAt)).toEqual(new Date('2027-01-08T12:00:00Z'));
+  });
+
+  it('returns null without a date', () => {
+    expect(findDateMention('Let us know soon.', receivedAt)).toBeNull();
+  });
+});
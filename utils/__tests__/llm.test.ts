@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { parseAnalysisResult } from '../analysis';
+import { createMockProvider } from '../llm';
+
+describe('createMockProvider', () => {
+  it('replies with an analysis parseAnalysisResult accepts by default', async () => {
+    const reply = await createMockProvider().complete('any prompt');
+    expect(parseAnalysisResult(reply)).toEqual({
+      isJobApplication: true,
+      companyName: 'Mock Company',
+      jobProfile: 'Mock Position',
+      applicationStatus: 'Applied',
+      confidence: { isJobApplication: 1, companyName: 1, jobProfile: 1, applicationStatus: 1 },
+    });
+  });
+
+  it('serves replies in order and repeats the last one', async () => {
+    const provider = createMockProvider(['first', 'second']);
+    expect(await provider.complete('')).toBe('first');
+    expect(await provider.complete('')).toBe('second');
+    expect(await provider.complete('')).toBe('second');
+  });
+});
@@ -0,0 +1,176 @@
+import type { gmail_v1 } from 'googleapis';
+import { describe, expect, it } from 'vitest';
+import { decodeBase64Url, decodeQuotedPrintable, getEmailBody, htmlToText, stripQuotedAndFooter } from '../mime';
+
+type MessagePart = gmail_v1.Schema$MessagePart;
+
+// A leaf part whose body bytes are sent as Gmail sends them, base64url encoded
+const leaf = (
+  mimeType: string,
+  body: string | Buffer,
+  { charset = 'utf-8', headers = [] as gmail_v1.Schema$MessagePartHeader[], filename = '' } = {}
+): MessagePart => ({
+  mimeType,
+  filename,
+  headers: [{ name: 'Content-Type', value: `${mimeType}; charset="${charset}"` }, ...headers],
+  body: { data: (typeof body === 'string' ? Buffer.from(body, 'utf8') : body).toString('base64url') },
+});
+
+const multipart = (mimeType: string, ...parts: MessagePart[]): MessagePart => ({ mimeType, parts, body: { size: 0 } });
+
+describe('getEmailBody', () => {
+  it('prefers text/plain inside multipart/alternative nested in multipart/mixed', () => {
+    const payload = multipart(
+      'multipart/mixed',
+      multipart(
+        'multipart/alternative',
+        leaf('text/plain', 'Thanks for applying to Globex.'),
+        leaf('text/html', '<p>Thanks for applying to <b>Globex</b>!</p>')
+      ),
+      leaf('application/pdf', 'not text', { filename: 'offer.pdf' })
+    );
+
+    expect(getEmailBody(payload)).toBe('Thanks for applying to Globex.');
+  });
+
+  it('falls back to the HTML alternative as text', () => {
+    const payload = multipart(
+      'multipart/mixed',
+      multipart('multipart/alternative', leaf('text/html', '<div>Hi Sam,<br>See you <i>Tuesday</i> &amp; bring ID.</div>'))
+    );
+
+    expect(getEmailBody(payload)).toBe('Hi Sam,\nSee you Tuesday & bring ID.');
+  });
+
+  it('skips attachments, including text ones', () => {
+    const payload = multipart(
+      'multipart/mixed',
+      leaf('text/plain', 'Your offer is attached.'),
+      leaf('text/plain', 'Base salary: 120000', { headers: [{ name: 'Content-Disposition', value: 'attachment' }] }),
+      leaf('text/csv', 'a,b', { filename: 'terms.csv' })
+    );
+
+    expect(getEmailBody(payload)).toBe('Your offer is attached.');
+  });
+
+  it('decodes non-UTF-8 charsets', () => {
+    const payload = multipart(
+      'multipart/alternative',
+      leaf('text/plain', Buffer.from([0x43, 0x61, 0x66, 0xe9, 0x20, 0x96, 0x20, 0x80, 0x35]), { charset: 'windows-1252' })
+    );
+
+    expect(getEmailBody(payload)).toBe('Café – €5');
+  });
+
+  it('reads latin1 labels as windows-1252, as mail clients do', () => {
+    const quoted = Buffer.from([0x93, 0x48, 0x69, 0x94, 0x20, 0x81]);
+    expect(getEmailBody(leaf('text/plain', quoted, { charset: 'iso-8859-1' }))).toBe('“Hi” \u0081');
+  });
+
+  it('decodes quoted-printable bodies the API left encoded', () => {
+    const payload = leaf('text/plain', 'Caf=E9 Bleu would like to meet =\r\nyou on Tuesday.', {
+      charset: 'iso-8859-1',
+      headers: [{ name: 'Content-Transfer-Encoding', value: 'quoted-printable' }],
+    });
+
+    expect(getEmailBody(payload)).toBe('Café Bleu would like to meet you on Tuesday.');
+  });
+
+  it('leaves text that only looks quoted-printable alone', () => {
+    const payload = leaf('text/plain', 'Equity = 0.1% of shares', {
+      headers: [{ name: 'Content-Transfer-Encoding', value: 'quoted-printable' }],
+    });
+
+    expect(getEmailBody(payload)).toBe('Equity = 0.1% of shares');
+  });
+
+  it('reads an unknown charset as UTF-8', () => {
+    expect(getEmailBody(leaf('text/plain', 'Résumé received', { charset: 'x-unknown' }))).toBe('Résumé received');
+  });
+
+  it('strips quoted replies and footers from the chosen part', () => {
+    const payload = multipart(
+      'multipart/alternative',
+      leaf('text/plain', 'Does Tuesday work?\n\nOn Mon, 2 Mar 2026 at 10:00, Sam <sam@example.com> wrote:\n> Happy to chat.')
+    );
+
+    expect(getEmailBody(payload)).toBe('Does Tuesday work?');
+  });
+
+  it('returns nothing for a missing or empty payload', () => {
+    expect(getEmailBody(undefined)).toBe('');
+    expect(getEmailBody(multipart('multipart/mixed'))).toBe('');
+  });
+});
+
+describe('decodeBase64Url', () => {
+  it('decodes base64url and tolerates plain base64', () => {
+    const text = 'Salary >>> $120k??';
+    const urlSafe = Buffer.from(text).toString('base64url');
+    expect(urlSafe).toMatch(/[-_]/);
+
+    expect(decodeBase64Url(urlSafe).toString()).toBe(text);
+    expect(decodeBase64Url(Buffer.from(text).toString('base64')).toString()).toBe(text);
+  });
+});
+
+describe('decodeQuotedPrintable', () => {
+  it('joins soft line breaks and decodes escapes byte by byte', () => {
+    expect(decodeQuotedPrintable(Buffer.from('na=C3=AFve =3D soft=\nbreak')).toString('utf8')).toBe('naïve = softbreak');
+  });
+
+  it('keeps an equals sign that starts no escape', () => {
+    expect(decodeQuotedPrintable(Buffer.from('a=zz=4')).toString('latin1')).toBe('a=zz=4');
+  });
+});
+
+describe('stripQuotedAndFooter', () => {
+  it.each([
+    ['a Gmail attribution line', 'Sounds good.\n\nOn Tue, Mar 3, 2026 at 9:00 AM Alex wrote:\nEarlier message'],
+    ['an Original Message divider', 'Sounds good.\n\n----- Original Message -----\nFrom: Alex'],
+    ['an Outlook header block', 'Sounds good.\n\nFrom: Alex Chen\nSent: Tuesday, March 3, 2026\nSubject: Interview'],
+    ['an underscore rule', 'Sounds good.\n\n________________________________\nFrom: Alex'],
+  ])('drops history after %s', (_, text) => {
+    expect(stripQuotedAndFooter(text)).toBe('Sounds good.');
+  });
+
+  it('drops > quoted lines', () => {
+    expect(stripQuotedAndFooter('Yes, 3pm works.\n> Can you do 3pm?\n>> Earlier')).toBe('Yes, 3pm works.');
+  });
+
+  it('keeps forwarded messages, whose content is what matters', () => {
+    const text = 'FYI\n\n---------- Forwarded message ---------\nFrom: Globex\nThanks for applying.';
+    expect(stripQuotedAndFooter(text)).toBe(text);
+  });
+
+  it('cuts a trailing footer but not an early mention of the same words', () => {
+    const text = [
+      'Please read our privacy policy before the call.',
+      'We will send the invite shortly.',
+      'Thanks,',
+      'Globex Recruiting',
+      'Unsubscribe | Manage preferences',
+      '© 2026 Globex',
+    ].join('\n');
+
+    expect(stripQuotedAndFooter(text)).toBe(
+      'Please read our privacy policy before the call.\nWe will send the invite shortly.\nThanks,\nGlobex Recruiting'
+    );
+  });
+});
+
+describe('htmlToText', () => {
+  it('decodes named and numeric entities', () => {
+    expect(htmlToText('<p>Tom &amp; Jerry &#8212; caf&#xE9; &#128512;</p>')).toBe('Tom & Jerry — café 😀');
+  });
+
+  it('replaces out-of-range and surrogate code points instead of throwing', () => {
+    expect(htmlToText('<p>a &#99999999; b &#x110000; c &#xD800; d</p>')).toBe('a � b � c � d');
+  });
+
+  it('drops styles, scripts, comments and quoted blocks', () => {
+    const html =
+      '<style>p{color:red}</style><script>track()</script><!-- tracking --><p>See you then.</p><blockquote>Earlier</blockquote>';
+    expect(htmlToText(html)).toBe('See you then.');
+  });
+});
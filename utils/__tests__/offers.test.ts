@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+type StoredOffer = Record<string, unknown> & { clearedFields: string[]; prefilledFields: string[] };
+
+const db = vi.hoisted(() => ({
+  application: { id: 'app-1', userId: 'user-1', companyName: 'Hooli', jobProfile: 'Data Analyst', offerDismissedAt: null as Date | null },
+  offer: null as StoredOffer | null,
+}));
+
+const blankOffer = (applicationId: string): StoredOffer => ({
+  id: 'offer-1',
+  applicationId,
+  currency: 'USD',
+  baseSalary: null,
+  annualBonus: null,
+  signOnBonus: null,
+  equityValue: null,
+  equityVesting: [],
+  vestingCliffMonths: null,
+  benefitsNotes: null,
+  location: null,
+  remotePolicy: null,
+  deadline: null,
+  prefilledFields: [],
+  clearedFields: [],
+});
+
+vi.mock('../prisma', () => ({
+  prisma: {
+    application: {
+      findUnique: vi.fn(async () => ({ offerDismissedAt: db.application.offerDismissedAt, offer: db.offer })),
+      findFirst: vi.fn(async () => db.application),
+      update: vi.fn(async ({ data }) => Object.assign(db.application, data)),
+    },
+    offer: {
+      findUnique: vi.fn(async () => db.offer),
+      upsert: vi.fn(async ({ create, update }) => {
+        db.offer = db.offer ? { ...db.offer, ...update } : { ...blankOffer(create.applicationId), ...create };
+        return { ...db.offer, application: db.application };
+      }),
+      deleteMany: vi.fn(async () => {
+        const count = db.offer ? 1 : 0;
+        db.offer = null;
+        return { count };
+      }),
+    },
+  },
+}));
+
+import { deleteOffer, saveOffer, saveOfferDetails } from '../offers';
+import type { OfferInput } from '../types';
+
+const details = { currency: 'USD', baseSalary: 150000, signOnBonus: 20000, location: 'New York' };
+
+const formInput = (overrides: Partial<OfferInput> = {}): OfferInput => ({
+  currency: 'USD',
+  baseSalary: 150000,
+  annualBonus: null,
+  signOnBonus: 20000,
+  equityValue: null,
+  equityVesting: [],
+  vestingCliffMonths: null,
+  benefitsNotes: null,
+  location: 'New York',
+  remotePolicy: null,
+  deadline: null,
+  ...overrides,
+});
+
+describe('saveOfferDetails', () => {
+  beforeEach(() => {
+    db.offer = null;
+    db.application.offerDismissedAt = null;
+  });
+
+  it('creates the offer from the email', async () => {
+    await saveOfferDetails('app-1', details);
+    expect(db.offer).toMatchObject({ baseSalary: 150000, signOnBonus: 20000, location: 'New York' });
+    expect(db.offer?.prefilledFields).toEqual(['currency', 'baseSalary', 'signOnBonus', 'location']);
+  });
+
+  it('does not re-fill a field the user cleared', async () => {
+    await saveOfferDetails('app-1', details);
+    await saveOffer('user-1', 'app-1', formInput({ signOnBonus: null }));
+    expect(db.offer?.clearedFields).toEqual(['signOnBonus']);
+
+    await saveOfferDetails('app-1', { ...details, annualBonus: 15000 });
+    expect(db.offer).toMatchObject({ signOnBonus: null, annualBonus: 15000 });
+
+    // Still cleared after another unrelated save
+    await saveOffer('user-1', 'app-1', formInput({ signOnBonus: null, annualBonus: 15000, location: 'Boston' }));
+    expect(db.offer?.clearedFields).toEqual(['signOnBonus']);
+  });
+
+  it('does not re-create an offer the user deleted until they add one again', async () => {
+    await saveOfferDetails('app-1', details);
+    expect(await deleteOffer('user-1', 'app-1')).toBe(true);
+
+    await saveOfferDetails('app-1', details);
+    expect(db.offer).toBeNull();
+
+    await saveOffer('user-1', 'app-1', formInput());
+    expect(db.application.offerDismissedAt).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const db = vi.hoisted(() => ({
+  user: { id: 'user-1', email: 'sam@example.com', historyId: '1100' as string | null, lastSyncedAt: new Date('2026-03-09T00:00:00Z') },
+}));
+
+vi.mock('../prisma', () => ({
+  prisma: {
+    user: {
+      findFirst: vi.fn(async ({ where }) =>
+        where.email.equals.toLowerCase() === db.user.email ? { id: db.user.id, historyId: db.user.historyId } : null
+      ),
+      findUnique: vi.fn(async () => ({ googleRefreshToken: null })),
+      findUniqueOrThrow: vi.fn(async () => ({ ...db.user, gmailWatchExpiresAt: null })),
+      update: vi.fn(async ({ data }) => Object.assign(db.user, data)),
+    },
+    application: {
+      findMany: vi.fn(async () => []),
+    },
+    emailMessage: {
+      findMany: vi.fn(async () => []),
+    },
+    failedMessage: {
+      findMany: vi.fn(async () => []),
+      deleteMany: vi.fn(async () => ({ count: 0 })),
+      upsert: vi.fn(),
+    },
+  },
+}));
+vi.mock('../applications', () => ({ saveEmailInfos: vi.fn() }));
+vi.mock('../searchSettings', () => ({ getUserSearchQuery: vi.fn(async () => 'subject:(job OR interview)') }));
+
+import { POST } from '../../app/api/gmail/push/route';
+import { saveEmailInfos } from '../applications';
+
+const fixtures = join(__dirname, 'fixtures');
+const payload = readFileSync(join(fixtures, 'pushPayload.json'), 'utf8');
+
+function push(body: string, token = 'push-secret'): Request {
+  return new Request(`http://localhost/api/gmail/push?token=${token}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body,
+  });
+}
+
+describe('POST /api/gmail/push', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.user.historyId = '1100';
+    vi.stubEnv('GMAIL_PUSH_TOKEN', 'push-secret');
+    vi.stubEnv('GMAIL_PUSH_AUDIENCE', '');
+    vi.stubEnv('GMAIL_PUBSUB_TOPIC', '');
+    vi.stubEnv('GMAIL_FIXTURE_FILE', join(fixtures, 'gmailMailbox.json'));
+    vi.stubEnv('LLM_PROVIDER', 'none');
+  });
+
+  it('queues a history sync that ingests the messages added since the checkpoint', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const response = await POST(push(payload));
+    expect(response.status).toBe(202);
+    expect(await response.json()).toEqual({ outcome: 'queued' });
+
+    await vi.waitFor(() => expect(db.user.historyId).toBe('1200'));
+    expect(saveEmailInfos).toHaveBeenCalledTimes(1);
+    const [userId, emails] = vi.mocked(saveEmailInfos).mock.calls[0];
+    expect(userId).toBe('user-1');
+    // The older record is before the checkpoint and the sent reply is skipped
+    expect(emails.map((email) => email.id)).toEqual(['push-1']);
+    expect(emails[0]).toMatchObject({ companyName: 'Hooli', applicationStatus: 'Interview' });
+  });
+
+  it('drops a notification older than the checkpoint', async () => {
+    db.user.historyId = '1300';
+    const response = await POST(push(payload));
+    expect(await response.json()).toEqual({ outcome: 'stale' });
+    expect(saveEmailInfos).not.toHaveBeenCalled();
+  });
+
+  it('acknowledges notifications for unknown mailboxes', async () => {
+    const data = Buffer.from(JSON.stringify({ emailAddress: 'nobody@example.com', historyId: 1200 })).toString('base64');
+    const response = await POST(push(JSON.stringify({ message: { data } })));
+    expect(await response.json()).toEqual({ outcome: 'unknown_user' });
+  });
+
+  it('rejects requests without the shared token', async () => {
+    const response = await POST(push(payload, 'wrong'));
+    expect(response.status).toBe(403);
+  });
+
+  it('rejects a body that is not a Pub/Sub message', async () => {
+    const response = await POST(push(JSON.stringify({ hello: 'world' })));
+    expect(response.status).toBe(400);
+  });
+});
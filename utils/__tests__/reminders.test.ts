@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const prisma = vi.hoisted(() => ({
+  user: { findUniqueOrThrow: vi.fn() },
+  application: { findMany: vi.fn(), updateMany: vi.fn() },
+}));
+
+vi.mock('../prisma', () => ({ prisma }));
+
+import { collectNewlyStale, lastActivityAt, needsFollowUp, type FollowUpState } from '../reminders';
+
+const NOW = new Date('2026-03-30T12:00:00Z');
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000);
+
+const application = (overrides: Partial<FollowUpState> = {}): FollowUpState => ({
+  applicationStatus: 'Applied',
+  date: daysAgo(20),
+  createdAt: daysAgo(30),
+  reminderSnoozedUntil: null,
+  reminderDismissedAt: null,
+  statusEvents: [],
+  ...overrides,
+});
+
+describe('lastActivityAt', () => {
+  it('is the latest status event, or the date, or when the application was created', () => {
+    const events = [{ date: daysAgo(25) }, { date: daysAgo(3) }];
+    expect(lastActivityAt(application({ statusEvents: events }))).toEqual(daysAgo(3));
+    expect(lastActivityAt(application({ statusEvents: [{ date: daysAgo(25) }] }))).toEqual(daysAgo(20));
+    expect(lastActivityAt(application({ date: null }))).toEqual(daysAgo(30));
+  });
+});
+
+describe('needsFollowUp', () => {
+  it('is due once the application has been quiet for the threshold', () => {
+    expect(needsFollowUp(application({ date: daysAgo(14) }), 14, NOW)).toBe(true);
+    expect(needsFollowUp(application({ date: daysAgo(13) }), 14, NOW)).toBe(false);
+  });
+
+  it.each(['Applied', 'Application Received', 'Interview'])('chases %s applications', (applicationStatus) => {
+    expect(needsFollowUp(application({ applicationStatus }), 14, NOW)).toBe(true);
+  });
+
+  it.each(['Rejected', 'Offer'])('never chases closed %s applications', (applicationStatus) => {
+    expect(needsFollowUp(application({ applicationStatus }), 14, NOW)).toBe(false);
+  });
+
+  it('waits out a snooze and is due again once it expires', () => {
+    expect(needsFollowUp(application({ reminderSnoozedUntil: daysAgo(-1) }), 14, NOW)).toBe(false);
+    expect(needsFollowUp(application({ reminderSnoozedUntil: daysAgo(1) }), 14, NOW)).toBe(true);
+  });
+
+  it('stays quiet after a dismissal until new activity goes quiet too', () => {
+    const dismissed = application({ reminderDismissedAt: daysAgo(5) });
+    expect(needsFollowUp(dismissed, 14, NOW)).toBe(false);
+
+    // An email after the dismissal restarts the clock
+    const recent = { ...dismissed, statusEvents: [{ date: daysAgo(4) }] };
+    expect(needsFollowUp(recent, 14, NOW)).toBe(false);
+    expect(needsFollowUp(recent, 3, NOW)).toBe(true);
+  });
+});
+
+describe('collectNewlyStale', () => {
+  const stored = (
+    id: string,
+    { staleNotifiedAt = null, ...overrides }: Partial<FollowUpState> & { staleNotifiedAt?: Date | null } = {}
+  ) => ({ id, staleNotifiedAt, ...application(overrides) });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prisma.user.findUniqueOrThrow.mockResolvedValue({ followUpAfterDays: 14 });
+  });
+
+  it('notifies about stale applications once and records it', async () => {
+    prisma.application.findMany.mockResolvedValue([
+      stored('never-notified'),
+      stored('already-notified', { staleNotifiedAt: daysAgo(2) }),
+      stored('still-fresh', { date: daysAgo(1) }),
+    ]);
+
+    expect(await collectNewlyStale('user-1', NOW)).toEqual(['never-notified']);
+    expect(prisma.application.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['never-notified'] } },
+      data: { staleNotifiedAt: NOW },
+    });
+  });
+
+  it('notifies again only after newer activity has gone quiet', async () => {
+    prisma.application.findMany.mockResolvedValue([
+      // Notified 16 days ago, then an email 15 days ago that has since gone quiet
+      stored('new-activity', { staleNotifiedAt: daysAgo(16), statusEvents: [{ date: daysAgo(15) }] }),
+      stored('no-new-activity', { staleNotifiedAt: daysAgo(16) }),
+    ]);
+
+    expect(await collectNewlyStale('user-1', NOW)).toEqual(['new-activity']);
+  });
+
+  it('notifies again once a snooze set after the last notice runs out', async () => {
+    prisma.application.findMany.mockResolvedValue([
+      stored('snooze-over', { staleNotifiedAt: daysAgo(8), reminderSnoozedUntil: daysAgo(1) }),
+    ]);
+
+    expect(await collectNewlyStale('user-1', NOW)).toEqual(['snooze-over']);
+  });
+
+  it('writes nothing when nothing is newly stale', async () => {
+    prisma.application.findMany.mockResolvedValue([stored('closed', { applicationStatus: 'Rejected' })]);
+
+    expect(await collectNewlyStale('user-1', NOW)).toEqual([]);
+    expect(prisma.application.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { buildSearchWhere, parseSearchQuery, SearchQueryError, searchFromParams } from '../search';
+import type { CustomFieldDefinition } from '../types';
+
+const referral: CustomFieldDefinition = { id: 'field-1', name: 'Referral source', type: 'text', options: [] };
+
+describe('parseSearchQuery', () => {
+  it('splits bare words, quoted phrases and operators', () => {
+    const search = parseSearchQuery('platform "data engineer" company:"Acme Corp" role:analyst from:greenhouse');
+
+    expect(search.terms).toEqual(['platform', 'data engineer']);
+    expect(search.companies).toEqual(['Acme Corp']);
+    expect(search.roles).toEqual(['analyst']);
+    expect(search.senders).toEqual(['greenhouse']);
+  });
+
+  it('reads operators in any case and skips empty values', () => {
+    const search = parseSearchQuery('COMPANY:acme tag:"" Tag:Remote');
+
+    expect(search.companies).toEqual(['acme']);
+    expect(search.tags).toEqual(['remote']);
+  });
+
+  it('matches statuses by name, prefix or list, without repeats', () => {
+    expect(parseSearchQuery('status:interview').statuses).toEqual(['Interview']);
+    expect(parseSearchQuery('status:"Application Received"').statuses).toEqual(['Application Received']);
+    expect(parseSearchQuery('status:rej').statuses).toEqual(['Rejected']);
+    expect(parseSearchQuery('status:offer,rejected status:offer').statuses).toEqual(['Offer', 'Rejected']);
+    // "app" starts both Applied and Application Received
+    expect(parseSearchQuery('status:app').statuses).toEqual(['Applied', 'Application Received']);
+  });
+
+  it('rejects unknown statuses, priorities and sources', () => {
+    expect(() => parseSearchQuery('status:hired')).toThrow(SearchQueryError);
+    expect(() => parseSearchQuery('status:hired')).toThrow('Unknown status "hired"');
+    expect(() => parseSearchQuery('priority:urgent')).toThrow('Unknown priority "urgent"');
+    expect(() => parseSearchQuery('source:import')).toThrow('source: must be email or manual');
+  });
+
+  it('reads priority lists', () => {
+    expect(parseSearchQuery('priority:high,LOW').priorities).toEqual(['high', 'low']);
+  });
+
+  it('keeps other operators for custom fields with their original token', () => {
+    expect(parseSearchQuery('referralsource:"Alice B" salary:>100000').fields).toEqual([
+      { operator: 'referralsource', value: 'Alice B', token: 'referralsource:"Alice B"' },
+      { operator: 'salary', value: '>100000', token: 'salary:>100000' },
+    ]);
+  });
+
+  it('reads date ranges', () => {
+    const search = parseSearchQuery('after:2026-01-01 before:2026-02-28');
+    expect([search.after, search.before]).toEqual(['2026-01-01', '2026-02-28']);
+  });
+
+  it.each(['2026-02-31', '2026-13-01', '2026-1-5', 'yesterday'])('rejects the date %s', (value) => {
+    expect(() => parseSearchQuery(`after:${value}`)).toThrow('after: needs a date like 2026-01-31');
+  });
+});
+
+describe('searchFromParams', () => {
+  it('adds the status picker and date range to the search box', () => {
+    const search = searchFromParams(
+      new URLSearchParams({ q: 'status:offer acme', status: 'rejected,Offer', before: '2026-03-01' })
+    );
+
+    expect(search.terms).toEqual(['acme']);
+    expect(search.statuses).toEqual(['Offer', 'Rejected']);
+    expect(search.before).toBe('2026-03-01');
+  });
+
+  it('rejects impossible dates', () => {
+    expect(() => searchFromParams(new URLSearchParams({ after: '2026-04-31' }))).toThrow(SearchQueryError);
+  });
+});
+
+describe('buildSearchWhere', () => {
+  it('matches custom text fields case-insensitively through the lowercased copy', () => {
+    const where = buildSearchWhere(parseSearchQuery('referralsource:Alice'), [referral]);
+    expect(where).toEqual({
+      AND: [{ customSearchValues: { path: ['field-1'], string_contains: 'alice' } }],
+    });
+  });
+
+  it('searches an operator no custom field matches as text', () => {
+    const where = buildSearchWhere(parseSearchQuery('referrer:alice'), [referral]);
+    expect(JSON.stringify(where)).toContain('"contains":"referrer:alice"');
+  });
+});
@@ -0,0 +1,171 @@
+import { getLLMProvider, type LLMProvider } from './llm';
+import { APPLICATION_STATUSES, type AIAnalysisResult, type ApplicationStatus, type FieldConfidence } from './types';
+
+const MAX_ATTEMPTS = 2;
+
+// Bump whenever the prompt or the parsing rules change so cached classifications are redone
+export const PROMPT_VERSION = 'v3';
+
+export function getAnalysisVersion(provider: LLMProvider): string {
+  return `${PROMPT_VERSION}:${provider.name}/${provider.model}`;
+}
+
+export class InvalidAnalysisError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidAnalysisError';
+  }
+}
+
+export function buildAnalysisPrompt(subject: string, body: string, from: string): string {
+  return `
+      Analyze this job application email and extract information in JSON format.
+
+      Email Subject: "${subject}"
+      Email From: "${from}"
+      Email Body: "${body.substring(0, 1000)}"
+
+      Return a JSON object with exactly these fields:
+      {
+        "isJobApplication": true if the email is about one of the recipient's own job applications, false for job alerts, newsletters, recruiter cold outreach, marketing and anything else,
+        "companyName": "name of the company (extract from email domain if unclear)",
+        "jobProfile": "the job position/role",
+        "applicationStatus": "one of: ${APPLICATION_STATUSES.join(', ')}",
+        "confidence": {
+          "isJobApplication": number from 0 to 1,
+          "companyName": number from 0 to 1,
+          "jobProfile": number from 0 to 1,
+          "applicationStatus": number from 0 to 1
+        }
+      }
+
+      Base your analysis on:
+      1. Common recruiting email patterns
+      2. Context clues from subject and body
+      3. Email sender domain
+      4. Status keywords and phrases
+
+      Respond with the JSON object only.
+    `;
+}
+
+// Returns the first complete top-level JSON object in the text, ignoring code fences and prose
+function extractJsonObject(text: string): string {
+  const start = text.indexOf('{');
+  if (start === -1) throw new InvalidAnalysisError('No JSON object in response');
+
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return text.slice(start, i + 1);
+    }
+  }
+
+  throw new InvalidAnalysisError('Unterminated JSON object in response');
+}
+
+function requireString(data: Record<string, unknown>, field: string): string {
+  const value = data[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new InvalidAnalysisError(`Field "${field}" must be a non-empty string`);
+  }
+  return value.trim();
+}
+
+// Scores outside 0..1 are clamped; a missing score is rejected so the model is asked again
+function parseConfidence(data: Record<string, unknown>): FieldConfidence {
+  const value = data.confidence;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new InvalidAnalysisError('Field "confidence" must be an object');
+  }
+
+  const scores = value as Record<string, unknown>;
+  const score = (field: keyof FieldConfidence) => {
+    const raw = scores[field];
+    if (typeof raw !== 'number' || !Number.isFinite(raw)) {
+      throw new InvalidAnalysisError(`Field "confidence.${field}" must be a number`);
+    }
+    return Math.min(1, Math.max(0, raw));
+  };
+
+  return {
+    isJobApplication: score('isJobApplication'),
+    companyName: score('companyName'),
+    jobProfile: score('jobProfile'),
+    applicationStatus: score('applicationStatus'),
+  };
+}
+
+export function parseAnalysisResult(text: string): AIAnalysisResult & { applicationStatus: ApplicationStatus } {
+  let data: unknown;
+  try {
+    data = JSON.parse(extractJsonObject(text));
+  } catch (error) {
+    if (error instanceof InvalidAnalysisError) throw error;
+    throw new InvalidAnalysisError(`Malformed JSON: ${String(error)}`);
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new InvalidAnalysisError('Response is not a JSON object');
+  }
+
+  const record = data as Record<string, unknown>;
+  const applicationStatus = requireString(record, 'applicationStatus');
+  const status = APPLICATION_STATUSES.find((known) => known.toLowerCase() === applicationStatus.toLowerCase());
+  if (!status) {
+    throw new InvalidAnalysisError(`Unknown applicationStatus "${applicationStatus}"`);
+  }
+
+  if (typeof record.isJobApplication !== 'boolean') {
+    throw new InvalidAnalysisError('Field "isJobApplication" must be a boolean');
+  }
+
+  return {
+    isJobApplication: record.isJobApplication,
+    companyName: requireString(record, 'companyName'),
+    jobProfile: requireString(record, 'jobProfile'),
+    applicationStatus: status,
+    confidence: parseConfidence(record),
+  };
+}
+
+/**
+ * Classifies an email with the configured LLM. Output that fails validation is
+ * retried once; null means the caller should fall back to the rule-based classifier.
+ */
+export async function analyzeEmailWithAI(
+  subject: string,
+  body: string,
+  from: string,
+  provider: LLMProvider | null = getLLMProvider()
+): Promise<AIAnalysisResult | null> {
+  if (!provider) return null;
+
+  let prompt = buildAnalysisPrompt(subject, body, from);
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      const text = await provider.complete(prompt);
+      return parseAnalysisResult(text);
+    } catch (error) {
+      console.error(`AI analysis failed (${provider.name}/${provider.model}, attempt ${attempt}):`, error);
+      // Transport errors are not worth retrying; only malformed output is
+      if (!(error instanceof InvalidAnalysisError)) return null;
+      prompt = `${buildAnalysisPrompt(subject, body, from)}
+      Your previous reply was rejected: ${error.message}.
+      Reply with a single JSON object using exactly the fields and status values listed above.
+    `;
+    }
+  }
+
+  return null;
+}
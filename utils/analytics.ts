@@ -0,0 +1,126 @@
+import { prisma } from './prisma';
+import { APPLICATION_STATUSES, type AnalyticsSummary, type ApplicationStatus, type FunnelStage } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+export const DEFAULT_GHOSTED_AFTER_DAYS = 30;
+const WEEKS_SHOWN = 12;
+
+// A reply from the company. "Application Received" is an automated acknowledgement, not a response.
+const RESPONSE_STATUSES: ApplicationStatus[] = ['Interview', 'Rejected', 'Offer'];
+
+// Each funnel stage counts applications whose history reached it or a later stage
+const FUNNEL: { stage: FunnelStage['stage']; reachedBy: ApplicationStatus[] }[] = [
+  { stage: 'Applied', reachedBy: [...APPLICATION_STATUSES] },
+  { stage: 'Interview', reachedBy: ['Interview', 'Offer'] },
+  { stage: 'Offer', reachedBy: ['Offer'] },
+];
+
+interface HistoryRecord {
+  createdAt: Date;
+  statusEvents: { status: string; date: Date }[];
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const value = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  return Math.round(value * 10) / 10;
+}
+
+function percent(part: number, whole: number): number | null {
+  return whole === 0 ? null : Math.round((part / whole) * 1000) / 10;
+}
+
+// Weeks start on Monday, in UTC
+function startOfWeek(date: Date): Date {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day;
+}
+
+/**
+ * Derives the dashboard metrics from status histories. An application counts as
+ * sent on its first event; response times only use applications whose first
+ * event was the application itself, since otherwise the send date is unknown.
+ */
+export function computeAnalytics(
+  applications: HistoryRecord[],
+  ghostedAfterDays = DEFAULT_GHOSTED_AFTER_DAYS,
+  now = new Date()
+): AnalyticsSummary {
+  const daysToFirstResponse: number[] = [];
+  const daysToRejection: number[] = [];
+  const weekly = new Map<number, number>();
+  const reached = new Map<FunnelStage['stage'], number>();
+  let ghosted = 0;
+
+  for (const application of applications) {
+    const events = application.statusEvents;
+    const sentAt = events[0]?.date ?? application.createdAt;
+    const statuses = new Set(events.map((event) => event.status as ApplicationStatus));
+
+    for (const { stage, reachedBy } of FUNNEL) {
+      if (reachedBy.some((status) => statuses.has(status))) {
+        reached.set(stage, (reached.get(stage) ?? 0) + 1);
+      }
+    }
+
+    const weekStart = startOfWeek(sentAt).getTime();
+    weekly.set(weekStart, (weekly.get(weekStart) ?? 0) + 1);
+
+    const firstIsResponse = events.length > 0 && RESPONSE_STATUSES.includes(events[0].status as ApplicationStatus);
+    const response = events.find((event) => RESPONSE_STATUSES.includes(event.status as ApplicationStatus));
+
+    if (!firstIsResponse && response) {
+      daysToFirstResponse.push((response.date.getTime() - sentAt.getTime()) / DAY_MS);
+      const rejection = events.find((event) => event.status === 'Rejected');
+      if (rejection) daysToRejection.push((rejection.date.getTime() - sentAt.getTime()) / DAY_MS);
+    }
+
+    if (!response && now.getTime() - sentAt.getTime() > ghostedAfterDays * DAY_MS) {
+      ghosted++;
+    }
+  }
+
+  const applied = reached.get('Applied') ?? 0;
+  const funnel: FunnelStage[] = FUNNEL.map(({ stage }, index) => {
+    const count = reached.get(stage) ?? 0;
+    const previous = index === 0 ? count : reached.get(FUNNEL[index - 1].stage) ?? 0;
+    return {
+      stage,
+      count,
+      conversionFromPrevious: index === 0 ? null : percent(count, previous),
+      conversionFromApplied: index === 0 ? null : percent(count, applied),
+    };
+  });
+
+  const currentWeek = startOfWeek(now).getTime();
+  const weeklyApplications = Array.from({ length: WEEKS_SHOWN }, (_, i) => {
+    const weekStart = currentWeek - (WEEKS_SHOWN - 1 - i) * WEEK_MS;
+    return { weekStart: new Date(weekStart).toISOString().slice(0, 10), count: weekly.get(weekStart) ?? 0 };
+  });
+
+  return {
+    total: applications.length,
+    funnel,
+    medianDaysToFirstResponse: median(daysToFirstResponse),
+    medianDaysToRejection: median(daysToRejection),
+    weeklyApplications,
+    ghosted,
+    ghostedAfterDays,
+  };
+}
+
+export async function getAnalytics(userId: string, ghostedAfterDays?: number): Promise<AnalyticsSummary> {
+  const applications = await prisma.application.findMany({
+    where: { userId },
+    select: {
+      createdAt: true,
+      statusEvents: { select: { status: true, date: true }, orderBy: { date: 'asc' } },
+    },
+  });
+  return computeAnalytics(applications, ghostedAfterDays);
+}
@@ -0,0 +1,607 @@
+import type { Session } from 'next-auth';
+import type { Application, CustomField, EmailMessage, Prisma, StatusEvent, User } from '@prisma/client';
+import { prisma } from './prisma';
+import { resolveCompanyId } from './companies';
+import { saveContact } from './contacts';
+import { toSearchValues } from './customFields';
+import { recordApplicationEvents } from './events';
+import { triageEmail } from './feedback';
+import { saveInterviewEvent } from './interviews';
+import { isGenericSenderDomain, normalizeCompanyName, normalizeJobTitle } from './normalize';
+import { saveOfferDetails } from './offers';
+import { lastActivityAt, needsFollowUp } from './reminders';
+import {
+  APPLICATION_STATUSES,
+  PRIORITIES,
+  type ApplicationEventType,
+  type ApplicationInput,
+  type ApplicationSource,
+  type ApplicationStatus,
+  type CustomFieldValue,
+  type EmailInfo,
+  type JobApplication,
+  type Priority,
+} from './types';
+
+export class ApplicationInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApplicationInputError';
+  }
+}
+
+// Fields that, once edited by the user, syncs and imports must leave alone. Tags,
+// priority and custom fields are only ever set by the user, so need no override.
+const OVERRIDABLE_FIELDS = [
+  'companyName',
+  'jobProfile',
+  'applicationStatus',
+  'date',
+  'link',
+  'salaryRange',
+  'location',
+  'notes',
+] as const;
+
+type OverridableField = (typeof OVERRIDABLE_FIELDS)[number];
+
+// Whether an edit changes a field. The form edits dates by day, so resaving it
+// unchanged must not count as editing the time of day an email set.
+function isFieldChanged(field: OverridableField, input: Partial<ApplicationInput>, existing: Application): boolean {
+  if (input[field] === undefined) return false;
+  if (field === 'date') {
+    return (input.date?.slice(0, 10) ?? null) !== (existing.date?.toISOString().slice(0, 10) ?? null);
+  }
+  return input[field] !== existing[field];
+}
+
+type ApplicationWithHistory = Application & {
+  statusEvents: (StatusEvent & { emailMessage: EmailMessage | null })[];
+  user: { followUpAfterDays: number };
+};
+
+const applicationWithHistory = {
+  statusEvents: {
+    orderBy: { date: 'asc' },
+    include: { emailMessage: true },
+  },
+  user: { select: { followUpAfterDays: true } },
+} satisfies Prisma.ApplicationInclude;
+
+export async function getOrCreateUser(session: Session): Promise<User | null> {
+  const email = session.user?.email;
+  if (!email) return null;
+
+  return prisma.user.upsert({
+    where: { email },
+    update: {
+      name: session.user?.name ?? undefined,
+      image: session.user?.image ?? undefined,
+    },
+    create: {
+      email,
+      name: session.user?.name ?? null,
+      image: session.user?.image ?? null,
+    },
+  });
+}
+
+// Finds the application an email belongs to: same Gmail thread first, then the
+// same normalized company and role, then the same company under another name
+// variant, then the same company-specific sender domain.
+async function findMatchingApplication(
+  userId: string,
+  email: EmailInfo,
+  companyKey: string,
+  roleKey: string,
+  companyId: string | null
+): Promise<Application | null> {
+  if (email.threadId) {
+    const threadMessage = await prisma.emailMessage.findFirst({
+      where: { userId, threadId: email.threadId, applicationId: { not: null } },
+      include: { application: true },
+    });
+    if (threadMessage?.application) return threadMessage.application;
+  }
+
+  const latestFirst = { date: 'desc' } as const;
+
+  if (companyKey) {
+    const match = await prisma.application.findFirst({
+      where: roleKey ? { userId, companyKey, roleKey } : { userId, companyKey },
+      orderBy: latestFirst,
+    });
+    if (match) return match;
+  }
+
+  if (companyId) {
+    const match = await prisma.application.findFirst({
+      where: roleKey ? { userId, companyId, roleKey } : { userId, companyId },
+      orderBy: latestFirst,
+    });
+    if (match) return match;
+  }
+
+  if (email.senderDomain && !isGenericSenderDomain(email.senderDomain)) {
+    const match = await prisma.application.findFirst({
+      where: roleKey
+        ? { userId, senderDomain: email.senderDomain, roleKey }
+        : { userId, senderDomain: email.senderDomain },
+      orderBy: latestFirst,
+    });
+    if (match) return match;
+  }
+
+  return null;
+}
+
+async function resolveApplicationId(userId: string, email: EmailInfo): Promise<{ id: string; created: boolean }> {
+  const companyKey = normalizeCompanyName(email.companyName);
+  const roleKey = normalizeJobTitle(email.jobProfile);
+  const companyId = await resolveCompanyId(userId, email.companyName, email.senderDomain);
+
+  const existing = await findMatchingApplication(userId, email, companyKey, roleKey, companyId);
+  if (existing) {
+    // Fill in details a previous, less informative email could not provide
+    const fillCompany =
+      !existing.companyKey && companyKey && !existing.overriddenFields.includes('companyName');
+    const fillRole = !existing.roleKey && roleKey && !existing.overriddenFields.includes('jobProfile');
+    const fillCompanyId = !existing.companyId && companyId;
+    if (fillCompany || fillRole || fillCompanyId) {
+      await prisma.application.update({
+        where: { id: existing.id },
+        data: {
+          ...(fillCompany ? { companyName: email.companyName, companyKey } : {}),
+          ...(fillRole ? { jobProfile: email.jobProfile, roleKey } : {}),
+          ...(fillCompanyId ? { companyId } : {}),
+        },
+      });
+    }
+    return { id: existing.id, created: false };
+  }
+
+  const created = await prisma.application.create({
+    data: {
+      userId,
+      companyName: email.companyName,
+      jobProfile: email.jobProfile,
+      companyKey,
+      roleKey,
+      companyId,
+      senderDomain: email.senderDomain,
+      applicationStatus: email.applicationStatus,
+      date: email.date ? new Date(email.date) : null,
+      from: email.from,
+    },
+  });
+  return { id: created.id, created: true };
+}
+
+// Recomputes the current stage and date from the latest event in the status
+// history, leaving either alone once the user has set it by hand
+async function refreshApplicationStatus(applicationId: string): Promise<void> {
+  const [application, latest] = await Promise.all([
+    prisma.application.findUniqueOrThrow({ where: { id: applicationId } }),
+    prisma.statusEvent.findFirst({
+      where: { applicationId },
+      orderBy: { date: 'desc' },
+      include: { emailMessage: true },
+    }),
+  ]);
+  if (!latest) return;
+
+  await prisma.application.update({
+    where: { id: applicationId },
+    data: {
+      ...(application.overriddenFields.includes('applicationStatus') ? {} : { applicationStatus: latest.status }),
+      ...(application.overriddenFields.includes('date') ? {} : { date: latest.date }),
+      ...(latest.emailMessage ? { from: latest.emailMessage.from } : {}),
+    },
+  });
+}
+
+export async function saveEmailInfos(userId: string, emails: EmailInfo[]): Promise<void> {
+  const changes = new Map<string, ApplicationEventType>();
+
+  for (const email of emails) {
+    if (!email.id) continue;
+
+    const existing = await prisma.emailMessage.findUnique({
+      where: { userId_gmailId: { userId, gmailId: email.id } },
+    });
+    if (existing?.ignored) continue;
+
+    // Messages already on the dashboard or confirmed by the user are not triaged again
+    const settled = existing?.applicationId || existing?.reviewState === 'confirmed';
+    const triage = settled ? 'accept' : await triageEmail(userId, email);
+    const reviewState = {
+      accept: existing?.reviewState === 'confirmed' ? 'confirmed' : null,
+      review: 'pending',
+      ignore: 'dismissed',
+    }[triage];
+
+    let applicationId = existing?.applicationId ?? null;
+    if (triage !== 'accept') {
+      applicationId = null;
+    } else if (!applicationId) {
+      const resolved = await resolveApplicationId(userId, email);
+      applicationId = resolved.id;
+      if (resolved.created) changes.set(applicationId, 'application.created');
+    }
+    const date = email.date ? new Date(email.date) : null;
+
+    const fields = {
+      threadId: email.threadId,
+      applicationId,
+      subject: email.originalSubject,
+      snippet: email.snippet,
+      from: email.from,
+      senderAddress: email.senderAddress,
+      date,
+      companyName: email.companyName,
+      jobProfile: email.jobProfile,
+      applicationStatus: email.applicationStatus,
+      isJobApplication: email.isJobApplication,
+      confidence: { ...email.confidence },
+      reviewState,
+      ignored: triage === 'ignore',
+    };
+
+    const message = await prisma.emailMessage.upsert({
+      where: { userId_gmailId: { userId, gmailId: email.id } },
+      update: fields,
+      create: { userId, gmailId: email.id, ...fields },
+    });
+    if (!applicationId) continue;
+
+    await prisma.statusEvent.upsert({
+      where: { emailMessageId: message.id },
+      update: { status: email.applicationStatus, date: date ?? message.createdAt },
+      create: {
+        applicationId,
+        emailMessageId: message.id,
+        status: email.applicationStatus,
+        date: date ?? message.createdAt,
+      },
+    });
+
+    await saveInterviewEvent(applicationId, message.id, email.interview);
+    await saveOfferDetails(applicationId, email.offer);
+    if (email.contact) await saveContact(userId, message.id, applicationId, email.contact);
+    await refreshApplicationStatus(applicationId);
+
+    // Re-reading an unchanged message is not news
+    const changed = !existing?.applicationId || existing.applicationStatus !== email.applicationStatus;
+    if (changed && !changes.has(applicationId)) changes.set(applicationId, 'application.updated');
+  }
+
+  await recordApplicationEvents(userId, changes);
+}
+
+export function toJobApplication(application: ApplicationWithHistory): JobApplication {
+  return {
+    id: application.id,
+    companyName: application.companyName,
+    companyId: application.companyId,
+    jobProfile: application.jobProfile,
+    applicationStatus: application.applicationStatus as ApplicationStatus,
+    date: (application.date ?? application.createdAt).toISOString(),
+    from: application.from,
+    source: application.source as ApplicationSource,
+    link: application.link,
+    salaryRange: application.salaryRange,
+    location: application.location,
+    notes: application.notes,
+    tags: application.tags,
+    priority: application.priority as Priority | null,
+    customFields: application.customValues as Record<string, CustomFieldValue>,
+    overriddenFields: application.overriddenFields,
+    needsFollowUp: needsFollowUp(application, application.user.followUpAfterDays),
+    lastActivityAt: lastActivityAt(application).toISOString(),
+    history: application.statusEvents.map((event) => ({
+      id: event.id,
+      status: event.status as ApplicationStatus,
+      date: event.date.toISOString(),
+      source: event.source as ApplicationSource,
+      subject: event.emailMessage?.subject ?? null,
+      from: event.emailMessage?.from ?? null,
+    })),
+  };
+}
+
+export async function listApplications(
+  userId: string,
+  where: Prisma.ApplicationWhereInput = {}
+): Promise<JobApplication[]> {
+  const applications = await prisma.application.findMany({
+    where: { ...where, userId },
+    orderBy: { date: 'desc' },
+    include: applicationWithHistory,
+  });
+  return applications.map(toJobApplication);
+}
+
+export async function getApplicationsByIds(userId: string, ids: string[]): Promise<JobApplication[]> {
+  const applications = await prisma.application.findMany({
+    where: { userId, id: { in: ids } },
+    include: applicationWithHistory,
+  });
+  return applications.map(toJobApplication);
+}
+
+function optionalString(value: unknown, field: string, maxLength = 2000): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string') throw new ApplicationInputError(`${field} must be a string`);
+  const trimmed = value.trim();
+  if (trimmed.length > maxLength) throw new ApplicationInputError(`${field} is too long`);
+  return trimmed || null;
+}
+
+const MAX_TAGS = 20;
+
+// Tags arrive as a list or, from spreadsheets, comma-separated; they are kept lowercased
+function parseTags(value: unknown): string[] {
+  if (value === undefined || value === null || value === '') return [];
+  const entries = typeof value === 'string' ? value.split(',') : value;
+  if (!Array.isArray(entries) || entries.some((entry) => typeof entry !== 'string')) {
+    throw new ApplicationInputError('tags must be a list of strings');
+  }
+
+  const tags = Array.from(
+    new Set((entries as string[]).map((tag) => tag.trim().toLowerCase().replace(/\s+/g, ' ')).filter(Boolean))
+  );
+  if (tags.length > MAX_TAGS) throw new ApplicationInputError(`An application can have at most ${MAX_TAGS} tags`);
+  if (tags.some((tag) => tag.length > 40)) throw new ApplicationInputError('A tag is too long');
+  return tags;
+}
+
+function parsePriority(value: unknown): Priority | null {
+  if (value === undefined || value === null || value === '') return null;
+  const priority = PRIORITIES.find((known) => typeof value === 'string' && known === value.trim().toLowerCase());
+  if (!priority) throw new ApplicationInputError(`priority must be one of: ${PRIORITIES.join(', ')}`);
+  return priority;
+}
+
+// Only the shape is checked here; values are checked against the field definitions when saved
+function parseCustomFieldChanges(value: unknown): Record<string, CustomFieldValue | null> {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new ApplicationInputError('customFields must be an object of field values');
+  }
+  for (const entry of Object.values(value)) {
+    if (entry !== null && typeof entry !== 'string' && typeof entry !== 'number') {
+      throw new ApplicationInputError('Custom field values must be strings, numbers or null');
+    }
+  }
+  return value as Record<string, CustomFieldValue | null>;
+}
+
+function parseCustomValue(field: CustomField, value: CustomFieldValue): CustomFieldValue {
+  const text = String(value).trim();
+
+  switch (field.type) {
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(text);
+      if (!text || !Number.isFinite(number)) throw new ApplicationInputError(`${field.name} must be a number`);
+      return number;
+    }
+    case 'date': {
+      const date = new Date(`${text}T00:00:00Z`);
+      // Date rolls 2026-02-31 over into March instead of rejecting it
+      if (
+        !/^\d{4}-\d{2}-\d{2}$/.test(text) ||
+        Number.isNaN(date.getTime()) ||
+        date.toISOString().slice(0, 10) !== text
+      ) {
+        throw new ApplicationInputError(`${field.name} must be a date like 2026-01-31`);
+      }
+      return text;
+    }
+    case 'select': {
+      const option = field.options.find((known) => known.toLowerCase() === text.toLowerCase());
+      if (!option) throw new ApplicationInputError(`${field.name} must be one of: ${field.options.join(', ')}`);
+      return option;
+    }
+    default:
+      if (text.length > 500) throw new ApplicationInputError(`${field.name} is too long`);
+      return text;
+  }
+}
+
+/**
+ * Checks custom field edits against the user's field definitions and applies
+ * them to an application's current values; null or an empty string clears one.
+ * Returns the new values with their lowercased search copy.
+ */
+async function applyCustomValues(
+  userId: string,
+  current: Prisma.JsonValue,
+  changes: Record<string, CustomFieldValue | null>
+): Promise<{ customValues: Record<string, CustomFieldValue>; customSearchValues: Record<string, CustomFieldValue> }> {
+  const values = { ...(current as Record<string, CustomFieldValue>) };
+  const ids = Object.keys(changes);
+  if (ids.length === 0) return { customValues: values, customSearchValues: toSearchValues(values) };
+
+  const fields = await prisma.customField.findMany({ where: { userId, id: { in: ids } } });
+  for (const id of ids) {
+    const field = fields.find((known) => known.id === id);
+    if (!field) throw new ApplicationInputError('Unknown custom field; reload and try again');
+
+    const value = changes[id];
+    if (value === null || String(value).trim() === '') delete values[id];
+    else values[id] = parseCustomValue(field, value);
+  }
+  return { customValues: values, customSearchValues: toSearchValues(values) };
+}
+
+/**
+ * Validates a create (all required fields) or edit (only the fields present)
+ * request body from the application form.
+ */
+export function parseApplicationInput(body: unknown, partial: true): Partial<ApplicationInput>;
+export function parseApplicationInput(body: unknown, partial?: false): ApplicationInput;
+export function parseApplicationInput(body: unknown, partial = false): Partial<ApplicationInput> {
+  if (!body || typeof body !== 'object') {
+    throw new ApplicationInputError('Request body must be a JSON object');
+  }
+
+  const data = body as Record<string, unknown>;
+  const input: Partial<ApplicationInput> = {};
+
+  for (const field of ['companyName', 'jobProfile'] as const) {
+    if (!(field in data) && partial) continue;
+    const value = optionalString(data[field], field, 200);
+    if (!value) throw new ApplicationInputError(`${field} is required`);
+    input[field] = value;
+  }
+
+  if ('applicationStatus' in data || !partial) {
+    const status = APPLICATION_STATUSES.find((known) => known === data.applicationStatus);
+    if (!status) {
+      throw new ApplicationInputError(`applicationStatus must be one of: ${APPLICATION_STATUSES.join(', ')}`);
+    }
+    input.applicationStatus = status;
+  }
+
+  if ('date' in data) {
+    const date = optionalString(data.date, 'date', 40);
+    if (date && Number.isNaN(new Date(date).getTime())) {
+      throw new ApplicationInputError('date must be a valid date');
+    }
+    input.date = date ? new Date(date).toISOString() : null;
+  }
+
+  if ('link' in data) {
+    const link = optionalString(data.link, 'link', 2000);
+    if (link && !/^https?:\/\//i.test(link)) {
+      throw new ApplicationInputError('link must be an http(s) URL');
+    }
+    input.link = link;
+  }
+
+  for (const field of ['salaryRange', 'location', 'notes'] as const) {
+    if (field in data) input[field] = optionalString(data[field], field, field === 'notes' ? 10000 : 200);
+  }
+
+  if ('tags' in data || !partial) input.tags = parseTags(data.tags);
+  if ('priority' in data || !partial) input.priority = parsePriority(data.priority);
+  if ('customFields' in data || !partial) input.customFields = parseCustomFieldChanges(data.customFields);
+
+  return input;
+}
+
+async function findOwnApplication(userId: string, id: string): Promise<Application | null> {
+  return prisma.application.findFirst({ where: { id, userId } });
+}
+
+async function getJobApplication(id: string): Promise<JobApplication> {
+  const application = await prisma.application.findUniqueOrThrow({
+    where: { id },
+    include: applicationWithHistory,
+  });
+  return toJobApplication(application);
+}
+
+export async function createApplication(userId: string, input: ApplicationInput): Promise<JobApplication> {
+  const date = input.date ? new Date(input.date) : new Date();
+
+  const application = await prisma.application.create({
+    data: {
+      userId,
+      source: 'manual',
+      companyName: input.companyName,
+      jobProfile: input.jobProfile,
+      companyKey: normalizeCompanyName(input.companyName),
+      roleKey: normalizeJobTitle(input.jobProfile),
+      companyId: await resolveCompanyId(userId, input.companyName, null),
+      applicationStatus: input.applicationStatus,
+      date,
+      from: '',
+      link: input.link,
+      salaryRange: input.salaryRange,
+      location: input.location,
+      notes: input.notes,
+      tags: input.tags,
+      priority: input.priority,
+      ...(await applyCustomValues(userId, {}, input.customFields)),
+      // The status stays sync-managed so later emails about this application still move it
+      overriddenFields: ['companyName', 'jobProfile'],
+      statusEvents: {
+        create: { status: input.applicationStatus, date, source: 'manual' },
+      },
+    },
+  });
+
+  return getJobApplication(application.id);
+}
+
+/**
+ * Applies a user edit. Edited sync-managed fields are recorded as overrides, and
+ * a status change is added to the timeline as a manual event.
+ */
+export async function updateApplication(
+  userId: string,
+  id: string,
+  input: Partial<ApplicationInput>
+): Promise<JobApplication | null> {
+  const existing = await findOwnApplication(userId, id);
+  if (!existing) return null;
+
+  const overridden = new Set(existing.overriddenFields);
+  for (const field of OVERRIDABLE_FIELDS) {
+    if (isFieldChanged(field, input, existing)) overridden.add(field);
+  }
+
+  const statusChanged =
+    input.applicationStatus !== undefined && input.applicationStatus !== existing.applicationStatus;
+
+  await prisma.application.update({
+    where: { id },
+    data: {
+      ...(input.companyName !== undefined && input.companyName !== existing.companyName
+        ? {
+            companyName: input.companyName,
+            companyKey: normalizeCompanyName(input.companyName),
+            // A renamed application moves to the company its new name resolves to
+            companyId: await resolveCompanyId(userId, input.companyName, null),
+          }
+        : {}),
+      ...(input.jobProfile !== undefined
+        ? { jobProfile: input.jobProfile, roleKey: normalizeJobTitle(input.jobProfile) }
+        : {}),
+      ...(input.applicationStatus !== undefined ? { applicationStatus: input.applicationStatus } : {}),
+      // Only a real change is written; resaving the same day keeps the email's time of day
+      ...(isFieldChanged('date', input, existing) ? { date: input.date ? new Date(input.date) : null } : {}),
+      ...(input.link !== undefined ? { link: input.link } : {}),
+      ...(input.salaryRange !== undefined ? { salaryRange: input.salaryRange } : {}),
+      ...(input.location !== undefined ? { location: input.location } : {}),
+      ...(input.notes !== undefined ? { notes: input.notes } : {}),
+      ...(input.tags !== undefined ? { tags: input.tags } : {}),
+      ...(input.priority !== undefined ? { priority: input.priority } : {}),
+      ...(input.customFields !== undefined
+        ? await applyCustomValues(userId, existing.customValues, input.customFields)
+        : {}),
+      overriddenFields: Array.from(overridden),
+      ...(statusChanged
+        ? { statusEvents: { create: { status: input.applicationStatus!, date: new Date(), source: 'manual' } } }
+        : {}),
+    },
+  });
+
+  return getJobApplication(id);
+}
+
+/**
+ * Deletes an application. Its emails are kept but marked ignored so the next
+ * sync does not recreate it.
+ */
+export async function deleteApplication(userId: string, id: string): Promise<boolean> {
+  const existing = await findOwnApplication(userId, id);
+  if (!existing) return false;
+
+  await prisma.$transaction([
+    prisma.emailMessage.updateMany({ where: { applicationId: id }, data: { ignored: true } }),
+    prisma.application.delete({ where: { id } }),
+  ]);
+  return true;
+}
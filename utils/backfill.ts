@@ -0,0 +1,105 @@
+import type { SyncJob } from '@prisma/client';
+import { createGmailClient, type GmailClient } from './gmail';
+import { ingestMessages } from './ingest';
+import { prisma } from './prisma';
+import { getUserSearchQuery } from './searchSettings';
+import type { BackfillProgress, SyncJobStatus } from './types';
+
+const BACKFILL_KIND = 'backfill';
+const PAGE_SIZE = 100;
+
+// Jobs running in this process; a `running` job missing here was interrupted and can be resumed
+const activeJobs = new Set<string>();
+
+export function toBackfillProgress(job: SyncJob): BackfillProgress {
+  return {
+    id: job.id,
+    status: job.status as SyncJobStatus,
+    processed: job.processed,
+    failed: job.failed,
+    total: job.total,
+    error: job.error,
+    startedAt: job.startedAt.toISOString(),
+    finishedAt: job.finishedAt?.toISOString() ?? null,
+  };
+}
+
+async function runBackfill(jobId: string, userId: string, gmail: GmailClient): Promise<void> {
+  try {
+    let job = await prisma.syncJob.findUniqueOrThrow({ where: { id: jobId } });
+    let pageToken = job.pageToken ?? undefined;
+
+    do {
+      const response = await gmail.users.messages.list({
+        userId: 'me',
+        q: job.query,
+        maxResults: PAGE_SIZE,
+        pageToken,
+      });
+
+      const ids = (response.data.messages || []).map((message) => message.id).filter((id): id is string => !!id);
+      const { emails, failed } = await ingestMessages(gmail, userId, ids);
+      pageToken = response.data.nextPageToken ?? undefined;
+
+      // Progress is committed only once a whole page is saved, so a crash replays at most one page
+      job = await prisma.syncJob.update({
+        where: { id: jobId },
+        data: {
+          pageToken: pageToken ?? null,
+          processed: { increment: emails.length },
+          failed: { increment: failed },
+          total: job.total ?? response.data.resultSizeEstimate ?? null,
+        },
+      });
+    } while (pageToken);
+
+    await prisma.syncJob.update({
+      where: { id: jobId },
+      data: { status: 'completed', finishedAt: new Date() },
+    });
+  } catch (error) {
+    console.error('Backfill failed:', error);
+    await prisma.syncJob.update({
+      where: { id: jobId },
+      data: { status: 'failed', error: String(error), finishedAt: new Date() },
+    });
+  }
+}
+
+/**
+ * Starts a full-history import, or resumes the latest one that failed or was
+ * interrupted. The job keeps running after the request that started it returns.
+ */
+export async function startBackfill(userId: string, accessToken: string): Promise<SyncJob> {
+  const latest = await prisma.syncJob.findFirst({
+    where: { userId, kind: BACKFILL_KIND },
+    orderBy: { startedAt: 'desc' },
+  });
+
+  if (latest && latest.status === 'running' && activeJobs.has(latest.id)) {
+    return latest;
+  }
+
+  const job =
+    latest && latest.status !== 'completed'
+      ? await prisma.syncJob.update({
+          where: { id: latest.id },
+          data: { status: 'running', error: null, finishedAt: null },
+        })
+      : await prisma.syncJob.create({
+          data: { userId, kind: BACKFILL_KIND, status: 'running', query: await getUserSearchQuery(userId) },
+        });
+
+  activeJobs.add(job.id);
+  void runBackfill(job.id, userId, createGmailClient(accessToken)).finally(() => activeJobs.delete(job.id));
+
+  return job;
+}
+
+export async function getBackfillProgress(userId: string): Promise<BackfillProgress | null> {
+  const latest = await prisma.syncJob.findFirst({
+    where: { userId, kind: BACKFILL_KIND },
+    orderBy: { startedAt: 'desc' },
+  });
+  return latest ? toBackfillProgress(latest) : null;
+}
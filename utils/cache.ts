@@ -0,0 +1,67 @@
+import { createHash } from 'crypto';
+import { analyzeEmailWithAI, getAnalysisVersion } from './analysis';
+import { getLLMProvider, type LLMProvider } from './llm';
+import { prisma } from './prisma';
+import type { AIAnalysisResult, FieldConfidence } from './types';
+
+export interface CachedAnalysis {
+  result: AIAnalysisResult | null;
+  fromCache: boolean;
+}
+
+interface CacheLookup {
+  userId: string;
+  gmailId: string;
+  subject: string;
+  body: string;
+  from: string;
+}
+
+function hashContent(subject: string, body: string, from: string): string {
+  return createHash('sha256').update(`${from}\n${subject}\n${body}`).digest('hex');
+}
+
+/**
+ * Runs the LLM only for messages it has not classified with the current prompt
+ * and model, or whose content changed since. Failed calls are not cached, so
+ * the next sync tries them again.
+ */
+export async function analyzeEmailWithCache(
+  { userId, gmailId, subject, body, from }: CacheLookup,
+  provider: LLMProvider | null = getLLMProvider()
+): Promise<CachedAnalysis> {
+  if (!provider || !gmailId) {
+    return { result: null, fromCache: false };
+  }
+
+  const version = getAnalysisVersion(provider);
+  const contentHash = hashContent(subject, body, from);
+
+  const cached = await prisma.classificationCache.findUnique({
+    where: { userId_gmailId: { userId, gmailId } },
+  });
+  if (cached?.confidence && cached.version === version && cached.contentHash === contentHash) {
+    return {
+      result: {
+        companyName: cached.companyName,
+        jobProfile: cached.jobProfile,
+        applicationStatus: cached.applicationStatus,
+        isJobApplication: cached.isJobApplication,
+        confidence: cached.confidence as unknown as FieldConfidence,
+      },
+      fromCache: true,
+    };
+  }
+
+  const result = await analyzeEmailWithAI(subject, body, from, provider);
+  if (result) {
+    const entry = { version, contentHash, ...result, confidence: { ...result.confidence } };
+    await prisma.classificationCache.upsert({
+      where: { userId_gmailId: { userId, gmailId } },
+      update: entry,
+      create: { userId, gmailId, ...entry },
+    });
+  }
+
+  return { result, fromCache: false };
+}
@@ -0,0 +1,345 @@
+import { extractEmailAddress, isAtsDomain, isFreeMailDomain } from './normalize';
+import type { AIAnalysisResult, ApplicationStatus, FieldConfidence } from './types';
+
+export interface EmailContent {
+  subject: string;
+  body: string;
+  from: string;
+}
+
+export interface RuleBasedResult extends AIAnalysisResult {
+  applicationStatus: ApplicationStatus;
+}
+
+interface StatusRule {
+  status: ApplicationStatus;
+  weight: number;
+  phrases: RegExp[];
+}
+
+// Stronger signals carry more weight so that e.g. "we will not be moving forward
+// to an interview" counts as a rejection rather than an interview.
+const STATUS_RULES: StatusRule[] = [
+  {
+    status: 'Offer',
+    weight: 4,
+    phrases: [
+      /\boffer letter\b/,
+      /\b(?:pleased|happy|delighted|excited) to (?:extend|offer)\b/,
+      /\bextend(?:ing)? (?:you )?an offer\b/,
+      /\boffer of employment\b/,
+      /\bverbal offer\b/,
+      /\bjob offer\b/,
+      /\bwelcome (?:to the team|aboard)\b/,
+    ],
+  },
+  {
+    status: 'Rejected',
+    weight: 3,
+    phrases: [
+      /\bunfortunately\b/,
+      /\bregret to inform\b/,
+      /\b(?:not|won't|will not) (?:be )?(?:moving|move) forward\b/,
+      /\bdecided to (?:move forward|proceed|pursue|go) with other\b/,
+      /\bpursue other candidates\b/,
+      /\bother candidates (?:whose|who)\b/,
+      /\bno longer (?:under consideration|being considered)\b/,
+      /\bnot (?:been )?selected\b/,
+      /\bposition has been filled\b/,
+      /\bwe will not be proceeding\b/,
+      /\bnot a (?:good )?(?:fit|match) at this time\b/,
+    ],
+  },
+  {
+    status: 'Interview',
+    weight: 2,
+    phrases: [
+      /\binterview\b/,
+      /\bphone screen\b/,
+      /\bschedule (?:a|an|your) (?:call|chat|time|conversation|meeting)\b/,
+      /\byour availability\b/,
+      /\bavailable times?\b/,
+      /\bcalendly\.com\b/,
+      /\b(?:coding|technical|take-home|online) (?:challenge|assessment|exercise|test)\b/,
+      /\bhackerrank\b|\bcodesignal\b|\bcoderpad\b/,
+      /\bon-?site\b/,
+      /\bmeet (?:with )?the team\b/,
+    ],
+  },
+  {
+    status: 'Application Received',
+    weight: 1,
+    phrases: [
+      /\bapplication (?:has been |was )?received\b/,
+      /\breceived your application\b/,
+      /\bthank(?:s| you) for (?:applying|your application)\b/,
+      /\bthank(?:s| you) for your interest\b/,
+      /\bwe have received\b/,
+      /\bsuccessfully submitted\b/,
+      /\bunder review\b/,
+      /\breviewing your (?:application|resume|profile)\b/,
+    ],
+  },
+  {
+    status: 'Applied',
+    weight: 1,
+    phrases: [
+      /\byou applied\b/,
+      /\byour application was sent\b/,
+      /\bapplication submitted\b/,
+      /\bapplied (?:to|for)\b/,
+      /\bapplication (?:to|for)\b/,
+    ],
+  },
+];
+
+// Mail that matches the job search but is not about one of the user's applications
+const NOT_APPLICATION_PHRASES: RegExp[] = [
+  /\bjob alerts?\b/,
+  /\bjobs? (?:you (?:may|might) (?:be interested in|like)|for you|matching your)\b/,
+  /\brecommended (?:jobs|for you)\b/,
+  /\b\d+\+? new (?:jobs|positions|openings)\b/,
+  /\bnewsletter\b/,
+  /\b(?:daily|weekly|monthly) digest\b/,
+  /\b(?:software|security) update\b/,
+  /\bupdate (?:is )?available\b/,
+  /\brelease notes\b/,
+  /\bwebinar\b/,
+  /\bcame across your (?:profile|resume|background)\b/,
+  /\bopen to (?:new )?(?:opportunities|roles)\b/,
+  /\bwould you be (?:open|interested)\b/,
+  /\bview (?:all )?(?:similar )?jobs\b/,
+];
+
+interface ExtractionTemplate {
+  pattern: RegExp;
+  // Capture group indexes (named groups need ES2018, tsconfig targets ES2017)
+  company?: number;
+  title?: number;
+}
+
+// Subject lines produced by Greenhouse, Lever, Workday, Ashby, LinkedIn and friends
+const SUBJECT_TEMPLATES: ExtractionTemplate[] = [
+  {
+    pattern: /(?:your )?application (?:for|to) (?:the )?(.+?) (?:position |role )?(?:at|with) (.+)$/i,
+    title: 1,
+    company: 2,
+  },
+  {
+    pattern: /thank(?:s| you) for applying (?:for|to) (?:the )?(.+?) (?:position |role )?(?:at|with) (.+)$/i,
+    title: 1,
+    company: 2,
+  },
+  { pattern: /your application was sent to (.+)$/i, company: 1 },
+  { pattern: /you applied (?:for|to) (.+?) at (.+)$/i, title: 1, company: 2 },
+  {
+    pattern: /(?:interview|phone screen)(?: invitation| request)?(?: for)?[:\-–|]\s*(.+?)(?: at (.+))?$/i,
+    title: 1,
+    company: 2,
+  },
+  {
+    pattern: /thank(?:s| you) for (?:applying|your application|your interest) (?:to|in|at|with) (.+?)!?$/i,
+    company: 1,
+  },
+  { pattern: /(?:your )?application (?:to|with|at) (.+?)!?$/i, company: 1 },
+  {
+    pattern: /^([^|\-–:]+?) [|\-–:] (?:application (?:received|confirmation|update)|thank you for applying)/i,
+    company: 1,
+  },
+  {
+    pattern: /(?:application (?:received|confirmation|update))\s*[:\-–|]\s*(.+?)(?: at (.+))?$/i,
+    title: 1,
+    company: 2,
+  },
+  { pattern: /^(?:re: )?([^|\-–:]+?) (?:at|@) ([^|\-–:]+)$/i, title: 1, company: 2 },
+  { pattern: /^your (.+?) application\b/i, company: 1 },
+];
+
+const BODY_TITLE_PATTERNS: RegExp[] = [
+  /(?:applying|applied|application) (?:for|to) (?:the |our )?([A-Z][\w/&+#,.\- ]{2,60}?) (?:position|role|opening|opportunity)\b/,
+  /(?:interest in|consideration for) (?:the |our )?([A-Z][\w/&+#,.\- ]{2,60}?) (?:position|role|opening|opportunity)\b/,
+  /\bposition of ([A-Z][\w/&+#,.\- ]{2,60}?)[.,\n]/,
+];
+
+const SIGNATURE_PATTERNS: RegExp[] = [
+  /^(?:the )?([A-Z][\w&.' ]{1,40}?) (?:recruiting|talent acquisition|talent|hiring|people|careers|recruitment) team\b/im,
+  /^(?:the )?(?:recruiting|talent acquisition|talent|hiring|people) team (?:at|@) ([A-Z][\w&.' ]{1,40})/im,
+];
+
+// Words that make a display name a department rather than a company
+const DEPARTMENT_WORDS =
+  /\b(recruiting|recruitment|recruiter|careers?|talent(?: acquisition)?|hiring(?: team)?|jobs?|hr|people(?: team)?|team|no-?reply|notifications?)\b/i;
+
+const ATS_DISPLAY_NAMES = /^(greenhouse|lever|workday|ashby|linkedin|indeed|smartrecruiters|icims|jobvite|glassdoor|no-?reply|notifications?)$/i;
+
+function cleanExtracted(value: string | undefined): string {
+  if (!value) return '';
+  return value
+    .replace(/\s*[(\[].*?[)\]]\s*/g, ' ')
+    .replace(/[!.,;:|\-–\s]+$/, '')
+    .replace(/^[\s"'“]+|[\s"'”]+$/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function isPlausible(value: string, maxLength: number): boolean {
+  return value.length > 1 && value.length <= maxLength && !/^(us|you|our team|the team)$/i.test(value);
+}
+
+interface StatusScore {
+  status: ApplicationStatus;
+  score: number;
+}
+
+// Subject matches count double, as with the status rules
+function scorePhrases(phrases: RegExp[], subjectText: string, bodyText: string, weight = 1): number {
+  let score = 0;
+  for (const phrase of phrases) {
+    if (phrase.test(subjectText)) score += 2 * weight;
+    if (phrase.test(bodyText)) score += weight;
+  }
+  return score;
+}
+
+function scoreStatus(subject: string, body: string): StatusScore {
+  const subjectText = subject.toLowerCase();
+  const bodyText = body.toLowerCase();
+
+  let best: StatusScore = { status: 'Applied', score: 0 };
+
+  for (const rule of STATUS_RULES) {
+    const score = scorePhrases(rule.phrases, subjectText, bodyText, rule.weight);
+    // Rules are listed strongest first, so ties keep the earlier status
+    if (score > best.score) {
+      best = { status: rule.status, score };
+    }
+  }
+
+  return best;
+}
+
+export function classifyStatus(subject: string, body: string): ApplicationStatus {
+  return scoreStatus(subject, body).status;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Confidence grows with the winning margin; with no signal either way it sits at 0.5
+function verdictConfidence(statusScore: number, notApplicationScore: number): number {
+  const margin = Math.abs(statusScore - notApplicationScore) / (statusScore + notApplicationScore + 2);
+  return round(0.5 + margin / 2);
+}
+
+function parseSubject(subject: string): { company: string; title: string } {
+  const trimmed = subject.replace(/^(?:re|fwd?):\s*/i, '').trim();
+
+  for (const template of SUBJECT_TEMPLATES) {
+    const match = trimmed.match(template.pattern);
+    if (!match) continue;
+
+    const company = cleanExtracted(template.company ? match[template.company] : undefined);
+    const title = cleanExtracted(template.title ? match[template.title] : undefined);
+    if (isPlausible(company, 60) || isPlausible(title, 80)) {
+      return {
+        company: isPlausible(company, 60) ? company : '',
+        title: isPlausible(title, 80) ? title : '',
+      };
+    }
+  }
+
+  return { company: '', title: '' };
+}
+
+function companyFromSender(from: string): string {
+  const displayName = cleanExtracted(from.replace(/<[^>]+>/, '').replace(/"/g, ''));
+  const address = extractEmailAddress(from);
+  const [localPart, domain] = address ? address.split('@') : ['', ''];
+
+  // "Jane from Acme" / "Jane at Acme"
+  const personAtCompany = displayName.match(/\b(?:at|from|@)\s+(.+)$/i);
+  if (personAtCompany && isPlausible(cleanExtracted(personAtCompany[1]), 60)) {
+    return cleanExtracted(personAtCompany[1]);
+  }
+
+  // "Acme Recruiting" / "Acme Careers"
+  if (DEPARTMENT_WORDS.test(displayName)) {
+    const stripped = cleanExtracted(displayName.replace(new RegExp(DEPARTMENT_WORDS.source, 'gi'), ' '));
+    if (isPlausible(stripped, 60) && !ATS_DISPLAY_NAMES.test(stripped)) return stripped;
+  }
+
+  if (domain) {
+    if (isFreeMailDomain(domain)) return '';
+
+    // Workday tenants send from <company>@myworkday.com
+    if (domain.endsWith('myworkday.com') && localPart && !/^(no-?reply|workday)$/.test(localPart)) {
+      return capitalize(localPart);
+    }
+
+    // Other ATS platforms usually put the company in the display name
+    if (isAtsDomain(domain)) {
+      return displayName && !displayName.includes('@') && !ATS_DISPLAY_NAMES.test(displayName) ? displayName : '';
+    }
+
+    const labels = domain.split('.');
+    const registrable = labels.length > 2 && labels[labels.length - 2].length <= 3
+      ? labels[labels.length - 3]
+      : labels[labels.length - 2];
+    return capitalize(registrable);
+  }
+
+  return '';
+}
+
+function companyFromSignature(body: string): string {
+  for (const pattern of SIGNATURE_PATTERNS) {
+    const company = cleanExtracted(body.match(pattern)?.[1]);
+    if (isPlausible(company, 60)) return company;
+  }
+  return '';
+}
+
+function titleFromBody(body: string): string {
+  for (const pattern of BODY_TITLE_PATTERNS) {
+    const title = cleanExtracted(body.match(pattern)?.[1]);
+    if (isPlausible(title, 80)) return title;
+  }
+  return '';
+}
+
+function capitalize(value: string): string {
+  return value
+    .split(/[-_]/)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' ');
+}
+
+/**
+ * Offline classifier used when no LLM is configured or the LLM call fails.
+ * Deterministic: the same email always yields the same result.
+ */
+export function classifyEmailWithRules({ subject, body, from }: EmailContent): RuleBasedResult {
+  const fromSubject = parseSubject(subject);
+  const fromSignature = fromSubject.company ? '' : companyFromSignature(body);
+  const fromSender = fromSubject.company || fromSignature ? '' : companyFromSender(from);
+  const titleInBody = fromSubject.title ? '' : titleFromBody(body);
+
+  const { status, score } = scoreStatus(subject, body);
+  const notApplicationScore = scorePhrases(NOT_APPLICATION_PHRASES, subject.toLowerCase(), body.toLowerCase());
+
+  // Where a field came from decides how far it can be trusted
+  const confidence: FieldConfidence = {
+    isJobApplication: verdictConfidence(score, notApplicationScore),
+    companyName: fromSubject.company ? 0.85 : fromSignature ? 0.7 : fromSender ? 0.5 : 0,
+    jobProfile: fromSubject.title ? 0.85 : titleInBody ? 0.7 : 0,
+    applicationStatus: score === 0 ? 0.2 : round(Math.min(0.95, 0.4 + score * 0.1)),
+  };
+
+  return {
+    isJobApplication: score > 0 && score >= notApplicationScore,
+    companyName: fromSubject.company || fromSignature || fromSender || 'Unknown Company',
+    jobProfile: fromSubject.title || titleInBody || 'Unknown Position',
+    applicationStatus: status,
+    confidence,
+  };
+}
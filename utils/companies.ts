@@ -0,0 +1,212 @@
+import type { Application, Company, CompanyAlias, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { listCompanyContacts } from './contacts';
+import { isGenericSenderDomain, normalizeCompanyName } from './normalize';
+import { lastActivityAt } from './reminders';
+import type { ApplicationStatus, CompanyProfile, CompanySummary } from './types';
+
+export class CompanyInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CompanyInputError';
+  }
+}
+
+type AliasKind = 'name' | 'domain';
+
+type CompanyWithApplications = Company & {
+  aliases: CompanyAlias[];
+  applications: (Application & { statusEvents: { date: Date }[] })[];
+};
+
+const companyWithApplications = {
+  aliases: { orderBy: { createdAt: 'asc' } },
+  applications: {
+    orderBy: { date: 'desc' },
+    include: { statusEvents: { select: { date: true } } },
+  },
+} satisfies Prisma.CompanyInclude;
+
+const looksLikeDomain = (name: string) => /^(?:www\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)+$/i.test(name.trim());
+
+// "google.com" reads better as "Google"
+function displayName(companyName: string, key: string): string {
+  if (!looksLikeDomain(companyName)) return companyName.trim();
+  return key.replace(/\b[a-z]/g, (letter) => letter.toUpperCase());
+}
+
+async function addAliases(userId: string, companyId: string, aliases: { kind: AliasKind; value: string }[]) {
+  if (aliases.length === 0) return;
+  // A variant already claimed by another company stays there until the user merges them
+  await prisma.companyAlias.createMany({
+    data: aliases.map((alias) => ({ userId, companyId, ...alias })),
+    skipDuplicates: true,
+  });
+}
+
+/**
+ * Finds the company an application belongs to by its sender domain, then by
+ * its normalized name, and creates one when neither is known yet. Variants seen
+ * alongside a known one are remembered, so "Google LLC" from google.com joins
+ * the company already found as "Google". Returns null when neither the name
+ * nor the domain identifies an employer.
+ */
+export async function resolveCompanyId(
+  userId: string,
+  companyName: string,
+  senderDomain: string | null
+): Promise<string | null> {
+  const key = normalizeCompanyName(companyName);
+  const domain = senderDomain && !isGenericSenderDomain(senderDomain) ? senderDomain.toLowerCase() : null;
+  if (!key && !domain) return null;
+
+  const candidates: { kind: AliasKind; value: string }[] = [
+    ...(domain ? [{ kind: 'domain' as const, value: domain }] : []),
+    ...(key ? [{ kind: 'name' as const, value: key }] : []),
+  ];
+  const known = await prisma.companyAlias.findMany({
+    where: { userId, OR: candidates },
+    include: { company: true },
+  });
+
+  // Mail from acme.com is from Acme whatever the classifier made of the name
+  const match = known.find((alias) => alias.kind === 'domain') ?? known[0];
+  if (match) {
+    await addAliases(
+      userId,
+      match.companyId,
+      candidates.filter((candidate) => !known.some((alias) => alias.kind === candidate.kind))
+    );
+    if (key && looksLikeDomain(match.company.name) && !looksLikeDomain(companyName)) {
+      await prisma.company.update({ where: { id: match.companyId }, data: { name: companyName.trim() } });
+    }
+    return match.companyId;
+  }
+
+  const company = await prisma.company.create({
+    data: { userId, name: key ? displayName(companyName, key) : domain! },
+  });
+  await addAliases(userId, company.id, candidates);
+  return company.id;
+}
+
+/**
+ * Groups applications saved before companies existed, or before their company
+ * could be told. Run after each sync rather than on reads, since it writes.
+ */
+export async function assignUnresolvedApplications(userId: string): Promise<void> {
+  const applications = await prisma.application.findMany({
+    where: { userId, companyId: null },
+    select: { id: true, companyName: true, senderDomain: true },
+  });
+
+  for (const application of applications) {
+    const companyId = await resolveCompanyId(userId, application.companyName, application.senderDomain);
+    if (companyId) {
+      await prisma.application.update({ where: { id: application.id }, data: { companyId } });
+    }
+  }
+}
+
+function toCompanySummary(company: CompanyWithApplications): CompanySummary {
+  const statusCounts: Partial<Record<ApplicationStatus, number>> = {};
+  let latest: Date | null = null;
+  for (const application of company.applications) {
+    const status = application.applicationStatus as ApplicationStatus;
+    statusCounts[status] = (statusCounts[status] ?? 0) + 1;
+    const activity = lastActivityAt(application);
+    if (!latest || activity > latest) latest = activity;
+  }
+
+  return {
+    id: company.id,
+    name: company.name,
+    aliases: company.aliases.filter((alias) => alias.kind === 'name').map((alias) => alias.value),
+    domains: company.aliases.filter((alias) => alias.kind === 'domain').map((alias) => alias.value),
+    applicationCount: company.applications.length,
+    statusCounts,
+    latestActivityAt: latest?.toISOString() ?? null,
+  };
+}
+
+export async function listCompanies(userId: string): Promise<CompanySummary[]> {
+  const companies = await prisma.company.findMany({
+    where: { userId, applications: { some: {} } },
+    include: companyWithApplications,
+  });
+  return companies
+    .map(toCompanySummary)
+    .sort((a, b) => (b.latestActivityAt ?? '').localeCompare(a.latestActivityAt ?? ''));
+}
+
+export async function getCompanyProfile(userId: string, id: string): Promise<CompanyProfile | null> {
+  const company = await prisma.company.findFirst({ where: { id, userId }, include: companyWithApplications });
+  if (!company) return null;
+
+  return {
+    ...toCompanySummary(company),
+    roles: company.applications.map((application) => ({
+      applicationId: application.id,
+      jobProfile: application.jobProfile,
+      applicationStatus: application.applicationStatus as ApplicationStatus,
+      // The earliest event, since an application's date moves with its latest email
+      appliedAt: application.statusEvents
+        .reduce((earliest, event) => (event.date < earliest ? event.date : earliest), application.createdAt)
+        .toISOString(),
+      lastActivityAt: lastActivityAt(application).toISOString(),
+    })),
+    contacts: await listCompanyContacts(userId, id),
+  };
+}
+
+export function parseCompanyName(body: unknown): string {
+  const name = body && typeof body === 'object' ? (body as Record<string, unknown>).name : undefined;
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new CompanyInputError('name is required');
+  }
+  if (name.trim().length > 200) throw new CompanyInputError('name is too long');
+  return name.trim();
+}
+
+export function parseMergeInput(body: unknown): string[] {
+  const ids = body && typeof body === 'object' ? (body as Record<string, unknown>).companyIds : undefined;
+  if (!Array.isArray(ids) || ids.length === 0 || !ids.every((id) => typeof id === 'string')) {
+    throw new CompanyInputError('companyIds must be a non-empty list of company ids');
+  }
+  return Array.from(new Set(ids as string[]));
+}
+
+export async function renameCompany(userId: string, id: string, name: string): Promise<CompanyProfile | null> {
+  const company = await prisma.company.findFirst({ where: { id, userId } });
+  if (!company) return null;
+
+  await prisma.company.update({ where: { id }, data: { name } });
+  const key = normalizeCompanyName(name);
+  if (key) await addAliases(userId, id, [{ kind: 'name', value: key }]);
+  return getCompanyProfile(userId, id);
+}
+
+/**
+ * Folds the given companies into `targetId`: their applications, contacts and
+ * every name and domain alias move over, so later mail under any of those variants
+ * resolves to the target. Returns null when any of the companies is not the user's.
+ */
+export async function mergeCompanies(
+  userId: string,
+  targetId: string,
+  companyIds: string[]
+): Promise<CompanyProfile | null> {
+  const sourceIds = companyIds.filter((id) => id !== targetId);
+  if (sourceIds.length === 0) throw new CompanyInputError('Choose at least one other company to merge');
+
+  const owned = await prisma.company.count({ where: { userId, id: { in: [targetId, ...sourceIds] } } });
+  if (owned !== sourceIds.length + 1) return null;
+
+  await prisma.$transaction([
+    prisma.companyAlias.updateMany({ where: { companyId: { in: sourceIds } }, data: { companyId: targetId } }),
+    prisma.application.updateMany({ where: { companyId: { in: sourceIds } }, data: { companyId: targetId } }),
+    prisma.contact.updateMany({ where: { companyId: { in: sourceIds } }, data: { companyId: targetId } }),
+    prisma.company.deleteMany({ where: { id: { in: sourceIds } } }),
+  ]);
+  return getCompanyProfile(userId, targetId);
+}
@@ -0,0 +1,246 @@
+import type { Application, Company, Contact, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { extractEmailAddress, extractSenderName, isAtsDomain, isNoReplyAddress } from './normalize';
+import type { ApplicationStatus, ContactDetails, ContactRole, JobContact } from './types';
+
+export class ContactInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContactInputError';
+  }
+}
+
+// Shared ATS mailboxes that send on an employer's behalf rather than from a person
+const ATS_MAILBOXES = /^(?:jobs?|careers?|recruiting|talent|hr|hiring|apply|applications?|system|team|support|info|workday)\b/i;
+
+const SIGN_OFF = /^(?:best|best regards|kind regards|warm regards|warmly|regards|thanks|thank you|many thanks|cheers|sincerely|all the best)[\s,!.]*$/i;
+
+// Words that mark a signature line as a job title
+const TITLE_WORDS =
+  /\b(?:recruit\w*|talent|sourc\w+|hr|human resources|people|manager|director|head|lead|engineer\w*|coordinator|partner|specialist|founder|vp|vice president|president|officer|chief|ceo|cto)\b/i;
+
+const RECRUITER_TITLE = /\b(?:recruit\w*|talent|sourc\w+|hr|human resources|people (?:partner|operations)|coordinator)\b/i;
+const HIRING_MANAGER_TITLE =
+  /\b(?:manager|director|head of|lead|vp|vice president|founder|chief|ceo|cto)\b/i;
+
+const PHONE = /(?:^|[\s:])(\+?\(?\d{1,4}\)?(?:[\s.-]?\(?\d{2,4}\)?){2,4})(?=\s|$)/;
+const LINKEDIN_URL = /https?:\/\/(?:[a-z]{2,3}\.)?linkedin\.com\/in\/[a-z0-9_%-]+\/?/i;
+
+// Signatures sit above any quoted earlier message
+function stripQuotedReply(body: string): string {
+  const quoteStart = body.search(/^(?:On .+ wrote:|-{2,} ?Original Message ?-{2,}|>)/m);
+  return quoteStart === -1 ? body : body.slice(0, quoteStart);
+}
+
+// The lines after the sign-off, or failing that the last few lines of the message
+function signatureLines(body: string): string[] {
+  const lines = stripQuotedReply(body)
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  for (let i = lines.length - 1; i >= Math.max(0, lines.length - 12); i--) {
+    if (SIGN_OFF.test(lines[i])) return lines.slice(i + 1, i + 8);
+  }
+  return lines.slice(-6);
+}
+
+function findTitle(lines: string[]): string | null {
+  for (const line of lines) {
+    if (line.length > 80 || /@|https?:|\d{3}/.test(line) || !TITLE_WORDS.test(line)) continue;
+    // "Senior Recruiter | Acme" or "Senior Recruiter at Acme" keeps only the title
+    const title = line.split(/\s+(?:[|@·–—-]|at)\s+|,\s+/)[0].trim();
+    if (title) return title;
+  }
+  return null;
+}
+
+function findPhone(lines: string[]): string | null {
+  for (const line of lines) {
+    const phone = line.match(PHONE)?.[1];
+    const digits = phone?.replace(/\D/g, '').length ?? 0;
+    if (phone && digits >= 9 && digits <= 15) return phone.trim();
+  }
+  return null;
+}
+
+export function isAutomatedSender(address: string): boolean {
+  if (isNoReplyAddress(address)) return true;
+  const [localPart, domain = ''] = address.split('@');
+  // Workday tenants mail from <company>@myworkday.com
+  if (domain === 'myworkday.com' || domain.endsWith('.myworkday.com')) return true;
+  return isAtsDomain(domain) && ATS_MAILBOXES.test(localPart);
+}
+
+export function classifyContactRole(address: string, title: string | null): ContactRole {
+  if (isAutomatedSender(address)) return 'ats_noreply';
+  if (title && RECRUITER_TITLE.test(title)) return 'recruiter';
+  if (title && HIRING_MANAGER_TITLE.test(title)) return 'hiring_manager';
+  // careers@acme.com and the like are staffed by the recruiting team
+  if (/^(?:recruit\w*|talent|careers?|jobs?|hiring)\b/i.test(address)) return 'recruiter';
+  return 'other';
+}
+
+/**
+ * Reads who sent an email from its From header, and their title, phone
+ * number and LinkedIn profile from the signature. Returns null when the header
+ * has no usable address.
+ */
+export function extractContactDetails(from: string, body: string): ContactDetails | null {
+  const email = extractEmailAddress(from);
+  if (!email) return null;
+
+  const name = extractSenderName(from);
+  if (isAutomatedSender(email)) {
+    return { email, name, title: null, phone: null, linkedinUrl: null, role: 'ats_noreply' };
+  }
+
+  const lines = signatureLines(body);
+  const title = findTitle(lines);
+  return {
+    email,
+    name,
+    title,
+    phone: findPhone(lines),
+    linkedinUrl: stripQuotedReply(body).match(LINKEDIN_URL)?.[0] ?? null,
+    role: classifyContactRole(email, title),
+  };
+}
+
+/**
+ * Records the sender of a saved message, merging with what earlier messages
+ * from the same address told us. Newer signature details replace older ones,
+ * and a specific role is never downgraded to "other". Automated senders are
+ * kept too, so they are recognized, but never tied to a company.
+ */
+export async function saveContact(
+  userId: string,
+  emailMessageId: string,
+  applicationId: string,
+  details: ContactDetails
+): Promise<void> {
+  const [existing, application] = await Promise.all([
+    prisma.contact.findUnique({ where: { userId_email: { userId, email: details.email } } }),
+    prisma.application.findUnique({ where: { id: applicationId }, select: { companyId: true } }),
+  ]);
+  const companyId = details.role === 'ats_noreply' ? null : application?.companyId ?? null;
+
+  const fields = {
+    ...(details.name ? { name: details.name } : {}),
+    ...(details.title ? { title: details.title } : {}),
+    ...(details.phone ? { phone: details.phone } : {}),
+    ...(details.linkedinUrl ? { linkedinUrl: details.linkedinUrl } : {}),
+    ...(details.role !== 'other' || !existing ? { role: details.role } : {}),
+    ...(companyId && !existing?.companyId ? { companyId } : {}),
+  };
+  const contact = existing
+    ? await prisma.contact.update({ where: { id: existing.id }, data: fields })
+    : await prisma.contact.create({ data: { userId, email: details.email, ...fields } });
+
+  await prisma.emailMessage.update({ where: { id: emailMessageId }, data: { contactId: contact.id } });
+}
+
+/**
+ * Gives messages saved before contacts existed a contact from their stored
+ * sender. Run after each sync rather than on reads, since it writes.
+ */
+export async function assignUnlinkedMessages(userId: string): Promise<void> {
+  const messages = await prisma.emailMessage.findMany({
+    where: { userId, contactId: null, applicationId: { not: null }, senderAddress: { not: null } },
+    select: { id: true, from: true, senderAddress: true, applicationId: true },
+  });
+
+  for (const message of messages) {
+    const email = message.senderAddress!;
+    // Stored From headers are already reduced to the display name
+    const name = message.from && !message.from.includes('@') ? message.from : null;
+    await saveContact(userId, message.id, message.applicationId!, {
+      email,
+      name,
+      title: null,
+      phone: null,
+      linkedinUrl: null,
+      role: classifyContactRole(email, null),
+    });
+  }
+}
+
+type ContactWithActivity = Contact & {
+  company: Company | null;
+  emails: { date: Date | null; application: Application | null }[];
+};
+
+const contactWithActivity = {
+  company: true,
+  emails: {
+    orderBy: { date: 'desc' },
+    select: { date: true, application: true },
+  },
+} satisfies Prisma.ContactInclude;
+
+function toJobContact(contact: ContactWithActivity): JobContact {
+  const applications = new Map<string, JobContact['applications'][number]>();
+  for (const { application } of contact.emails) {
+    if (application && !applications.has(application.id)) {
+      applications.set(application.id, {
+        id: application.id,
+        companyName: application.companyName,
+        jobProfile: application.jobProfile,
+        applicationStatus: application.applicationStatus as ApplicationStatus,
+      });
+    }
+  }
+
+  return {
+    id: contact.id,
+    email: contact.email,
+    name: contact.name,
+    title: contact.title,
+    phone: contact.phone,
+    linkedinUrl: contact.linkedinUrl,
+    role: contact.role as ContactRole,
+    companyId: contact.companyId,
+    companyName: contact.company?.name ?? null,
+    notes: contact.notes,
+    messageCount: contact.emails.length,
+    lastContactedAt: contact.emails.find((email) => email.date)?.date?.toISOString() ?? null,
+    applications: Array.from(applications.values()),
+  };
+}
+
+const byLatestContact = (a: JobContact, b: JobContact) =>
+  (b.lastContactedAt ?? '').localeCompare(a.lastContactedAt ?? '');
+
+// Everyone who wrote about the user's applications, latest first; automated senders are left out
+export async function listContacts(userId: string): Promise<JobContact[]> {
+  const contacts = await prisma.contact.findMany({
+    where: { userId, role: { not: 'ats_noreply' }, emails: { some: { applicationId: { not: null } } } },
+    include: contactWithActivity,
+  });
+  return contacts.map(toJobContact).sort(byLatestContact);
+}
+
+// Contacts who wrote about any of a company's applications
+export async function listCompanyContacts(userId: string, companyId: string): Promise<JobContact[]> {
+  const contacts = await prisma.contact.findMany({
+    where: { userId, role: { not: 'ats_noreply' }, emails: { some: { application: { companyId } } } },
+    include: contactWithActivity,
+  });
+  return contacts.map(toJobContact).sort(byLatestContact);
+}
+
+export function parseContactNotes(body: unknown): string | null {
+  const notes = body && typeof body === 'object' ? (body as Record<string, unknown>).notes : undefined;
+  if (notes === null || notes === '') return null;
+  if (typeof notes !== 'string') throw new ContactInputError('notes must be a string');
+  if (notes.length > 10000) throw new ContactInputError('notes is too long');
+  return notes.trim() || null;
+}
+
+export async function updateContactNotes(userId: string, id: string, notes: string | null): Promise<JobContact | null> {
+  const existing = await prisma.contact.findFirst({ where: { id, userId } });
+  if (!existing) return null;
+
+  const contact = await prisma.contact.update({ where: { id }, data: { notes }, include: contactWithActivity });
+  return toJobContact(contact);
+}
@@ -0,0 +1,183 @@
+import { Prisma, type CustomField } from '@prisma/client';
+import { prisma } from './prisma';
+import { operatorKey, SEARCH_OPERATORS } from './search';
+import { CUSTOM_FIELD_TYPES, type CustomFieldDefinition, type CustomFieldType, type CustomFieldValue } from './types';
+
+export class CustomFieldInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CustomFieldInputError';
+  }
+}
+
+export const MAX_CUSTOM_FIELDS = 20;
+const MAX_OPTIONS = 50;
+
+export interface CustomFieldInput {
+  name: string;
+  type: CustomFieldType;
+  options: string[];
+}
+
+// Prisma cannot match JSON strings case-insensitively, so searches read this lowercased copy
+export function toSearchValues(values: Record<string, CustomFieldValue>): Record<string, CustomFieldValue> {
+  return Object.fromEntries(
+    Object.entries(values).map(([id, value]) => [id, typeof value === 'string' ? value.toLowerCase() : value])
+  );
+}
+
+function toCustomFieldDefinition(field: CustomField): CustomFieldDefinition {
+  return {
+    id: field.id,
+    name: field.name,
+    type: field.type as CustomFieldType,
+    options: field.options,
+  };
+}
+
+export async function listCustomFields(userId: string): Promise<CustomFieldDefinition[]> {
+  const fields = await prisma.customField.findMany({ where: { userId }, orderBy: { createdAt: 'asc' } });
+  return fields.map(toCustomFieldDefinition);
+}
+
+function parseName(value: unknown): string {
+  const name = typeof value === 'string' ? value.trim().replace(/\s+/g, ' ') : '';
+  if (!name) throw new CustomFieldInputError('name is required');
+  if (name.length > 40) throw new CustomFieldInputError('name is too long');
+  // Each field is also a search operator, written without its spaces
+  if (!/^[a-z0-9][a-z0-9 _-]*$/i.test(name)) {
+    throw new CustomFieldInputError('name may only contain letters, digits, spaces, dashes and underscores');
+  }
+  if (SEARCH_OPERATORS.includes(operatorKey(name))) {
+    throw new CustomFieldInputError(`"${name}" is already a search operator; pick another name`);
+  }
+  return name;
+}
+
+function parseOptions(value: unknown): string[] {
+  if (!Array.isArray(value) || value.some((option) => typeof option !== 'string')) {
+    throw new CustomFieldInputError('options must be a list of strings');
+  }
+  const options = Array.from(new Set((value as string[]).map((option) => option.trim()).filter(Boolean)));
+  if (options.length > MAX_OPTIONS) throw new CustomFieldInputError(`A field can have at most ${MAX_OPTIONS} options`);
+  if (options.some((option) => option.length > 100)) throw new CustomFieldInputError('An option is too long');
+  return options;
+}
+
+/**
+ * Validates a new field or, when partial, a rename or new option list. A
+ * field's type is fixed once created, since existing values depend on it.
+ */
+export function parseCustomFieldInput(body: unknown, partial: true): Partial<CustomFieldInput>;
+export function parseCustomFieldInput(body: unknown, partial?: false): CustomFieldInput;
+export function parseCustomFieldInput(body: unknown, partial = false): Partial<CustomFieldInput> {
+  if (!body || typeof body !== 'object') {
+    throw new CustomFieldInputError('Request body must be a JSON object');
+  }
+
+  const data = body as Record<string, unknown>;
+  const input: Partial<CustomFieldInput> = {};
+
+  if ('name' in data || !partial) input.name = parseName(data.name);
+
+  if (partial && 'type' in data) {
+    throw new CustomFieldInputError("A field's type cannot be changed");
+  }
+  if (!partial) {
+    const type = CUSTOM_FIELD_TYPES.find((known) => known === data.type);
+    if (!type) throw new CustomFieldInputError(`type must be one of: ${CUSTOM_FIELD_TYPES.join(', ')}`);
+    input.type = type;
+  }
+
+  if ('options' in data) input.options = parseOptions(data.options);
+  if (!partial) {
+    if (input.type !== 'select') input.options = [];
+    else if (!input.options?.length) throw new CustomFieldInputError('A select field needs at least one option');
+  }
+
+  return input;
+}
+
+// Field names double as search operators, so "Referral source" and "referral-source" collide
+async function assertNameAvailable(userId: string, name: string, exceptId?: string): Promise<void> {
+  const fields = await prisma.customField.findMany({ where: { userId }, select: { id: true, name: true } });
+  if (fields.some((field) => field.id !== exceptId && operatorKey(field.name) === operatorKey(name))) {
+    throw new CustomFieldInputError(`You already have a field named "${name}"`);
+  }
+}
+
+export async function createCustomField(userId: string, input: CustomFieldInput): Promise<CustomFieldDefinition> {
+  if ((await prisma.customField.count({ where: { userId } })) >= MAX_CUSTOM_FIELDS) {
+    throw new CustomFieldInputError(`You can have at most ${MAX_CUSTOM_FIELDS} custom fields`);
+  }
+  await assertNameAvailable(userId, input.name);
+
+  const field = await prisma.customField.create({ data: { userId, ...input } });
+  return toCustomFieldDefinition(field);
+}
+
+// Updates clearing a field's value on the user's applications, except values `keep` accepts
+async function clearFieldValues(
+  userId: string,
+  fieldId: string,
+  keep: (value: CustomFieldValue) => boolean = () => false
+): Promise<Prisma.PrismaPromise<unknown>[]> {
+  const applications = await prisma.application.findMany({
+    where: { userId, customValues: { path: [fieldId], not: Prisma.AnyNull } },
+    select: { id: true, customValues: true },
+  });
+
+  return applications.flatMap((application) => {
+    const values = { ...(application.customValues as Record<string, CustomFieldValue>) };
+    if (!(fieldId in values) || keep(values[fieldId])) return [];
+
+    delete values[fieldId];
+    return [
+      prisma.application.update({
+        where: { id: application.id },
+        data: { customValues: values, customSearchValues: toSearchValues(values) },
+      }),
+    ];
+  });
+}
+
+export async function updateCustomField(
+  userId: string,
+  id: string,
+  input: Partial<CustomFieldInput>
+): Promise<CustomFieldDefinition | null> {
+  const existing = await prisma.customField.findFirst({ where: { id, userId } });
+  if (!existing) return null;
+
+  if (input.name !== undefined) await assertNameAvailable(userId, input.name, id);
+
+  const options = input.options;
+  if (options !== undefined) {
+    if (existing.type !== 'select') throw new CustomFieldInputError('Only select fields have options');
+    if (options.length === 0) throw new CustomFieldInputError('A select field needs at least one option');
+  }
+
+  // Applications keep a choice only while it is still offered
+  const clears =
+    options !== undefined ? await clearFieldValues(userId, id, (value) => options.includes(String(value))) : [];
+  // Together, so a failure never leaves values the field no longer offers
+  const [field] = await prisma.$transaction([
+    prisma.customField.update({
+      where: { id },
+      data: {
+        ...(input.name !== undefined ? { name: input.name } : {}),
+        ...(options !== undefined ? { options } : {}),
+      },
+    }),
+    ...clears,
+  ]);
+  return toCustomFieldDefinition(field);
+}
+
+export async function deleteCustomField(userId: string, id: string): Promise<boolean> {
+  const existing = await prisma.customField.findFirst({ where: { id, userId } });
+  if (!existing) return false;
+
+  await prisma.$transaction([...(await clearFieldValues(userId, id)), prisma.customField.delete({ where: { id } })]);
+  return true;
+}
@@ -0,0 +1,59 @@
+import { EventEmitter } from 'events';
+import type { ApplicationEvent } from '@prisma/client';
+import { prisma } from './prisma';
+import type { ApplicationEventType } from './types';
+
+// Older events are pruned; a dashboard offline for longer reloads the full list anyway
+const EVENT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Wakes streams served by this process as soon as events are written. Shared
+// across hot reloads like the Prisma client, since the worker and the routes
+// may be bundled separately.
+const globalForEvents = globalThis as unknown as { applicationEvents?: EventEmitter };
+
+const notifier = globalForEvents.applicationEvents ?? new EventEmitter().setMaxListeners(0);
+globalForEvents.applicationEvents = notifier;
+
+/**
+ * Records what a sync did, one event per application. An application created
+ * in this batch is reported only as created, however many emails it received.
+ */
+export async function recordApplicationEvents(
+  userId: string,
+  changes: Map<string, ApplicationEventType>
+): Promise<void> {
+  if (changes.size === 0) return;
+
+  await prisma.applicationEvent.createMany({
+    data: Array.from(changes, ([applicationId, type]) => ({ userId, applicationId, type })),
+  });
+  await prisma.applicationEvent.deleteMany({
+    where: { userId, createdAt: { lt: new Date(Date.now() - EVENT_RETENTION_MS) } },
+  });
+  notifier.emit(userId);
+}
+
+export async function getLatestEventId(userId: string): Promise<number> {
+  const latest = await prisma.applicationEvent.findFirst({
+    where: { userId },
+    orderBy: { id: 'desc' },
+    select: { id: true },
+  });
+  return latest?.id ?? 0;
+}
+
+export async function listEventsAfter(userId: string, afterId: number, limit = 100): Promise<ApplicationEvent[]> {
+  return prisma.applicationEvent.findMany({
+    where: { userId, id: { gt: afterId } },
+    orderBy: { id: 'asc' },
+    take: limit,
+  });
+}
+
+// Calls `listener` whenever this process records events for the user; returns the unsubscribe function
+export function onApplicationEvents(userId: string, listener: () => void): () => void {
+  notifier.on(userId, listener);
+  return () => {
+    notifier.off(userId, listener);
+  };
+}
@@ -0,0 +1,45 @@
+import { toCsv } from './csv';
+import type { CustomFieldDefinition, CustomFieldValue, JobApplication } from './types';
+
+export type ExportFormat = 'csv' | 'json';
+
+const EXPORT_COLUMNS = [
+  'companyName',
+  'jobProfile',
+  'applicationStatus',
+  'date',
+  'source',
+  'link',
+  'salaryRange',
+  'location',
+  'notes',
+  'priority',
+  'from',
+] as const;
+
+// One column per custom field, headed by its name, after the built-in columns and tags
+export function applicationsToCsv(applications: JobApplication[], customFields: CustomFieldDefinition[] = []): string {
+  return toCsv([
+    [...EXPORT_COLUMNS, 'tags', ...customFields.map((field) => field.name)],
+    ...applications.map((application) => [
+      ...EXPORT_COLUMNS.map((column) => application[column]),
+      application.tags.join(', '),
+      ...customFields.map((field) => application.customFields[field.id]),
+    ]),
+  ]);
+}
+
+// Custom field values keyed by field name rather than id, so the file stands on its own
+export function applicationsToJson(applications: JobApplication[], customFields: CustomFieldDefinition[] = []): string {
+  return JSON.stringify(
+    applications.map((application) => ({
+      ...application,
+      customFields: customFields.reduce((values: Record<string, CustomFieldValue>, field) => {
+        if (field.id in application.customFields) values[field.name] = application.customFields[field.id];
+        return values;
+      }, {}),
+    })),
+    null,
+    2
+  );
+}
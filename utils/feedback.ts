@@ -0,0 +1,64 @@
+import { prisma } from './prisma';
+import type { AIAnalysisResult, FieldConfidence } from './types';
+
+// What the user said about a sender's mail the last time they reviewed one of its messages
+export type SenderVerdict = 'job' | 'not_job';
+
+// What sync does with a classified message
+export type Triage = 'accept' | 'review' | 'ignore';
+
+// A message scoring below any of these waits in the review queue instead of
+// reaching the dashboard. A missing role title is common and not worth asking about.
+export const REVIEW_THRESHOLDS: FieldConfidence = {
+  isJobApplication: 0.6,
+  companyName: 0.3,
+  jobProfile: 0,
+  applicationStatus: 0.4,
+};
+
+// How sure the classifier must be before it may overrule the user's earlier verdict
+const OVERRULE_CONFIDENCE = 0.8;
+
+type Classification = Pick<AIAnalysisResult, 'isJobApplication' | 'confidence'>;
+
+export function needsReview({ isJobApplication, confidence }: Classification): boolean {
+  if (!isJobApplication) return true;
+  return (Object.keys(REVIEW_THRESHOLDS) as (keyof FieldConfidence)[]).some(
+    (field) => confidence[field] < REVIEW_THRESHOLDS[field]
+  );
+}
+
+export async function getSenderVerdict(userId: string, sender: string | null): Promise<SenderVerdict | null> {
+  if (!sender) return null;
+  const feedback = await prisma.senderFeedback.findUnique({
+    where: { userId_sender: { userId, sender } },
+  });
+  return (feedback?.verdict as SenderVerdict | undefined) ?? null;
+}
+
+export async function recordSenderVerdict(userId: string, sender: string | null, verdict: SenderVerdict): Promise<void> {
+  if (!sender) return;
+  await prisma.senderFeedback.upsert({
+    where: { userId_sender: { userId, sender } },
+    update: { verdict },
+    create: { userId, sender, verdict },
+  });
+}
+
+/**
+ * Decides whether a newly classified message goes straight to the dashboard,
+ * waits for review or is skipped. The user's verdict on earlier mail from the
+ * same sender wins unless the classifier confidently disagrees, in which case
+ * the message is put in front of the user again.
+ */
+export async function triageEmail(
+  userId: string,
+  email: Classification & { senderAddress: string | null }
+): Promise<Triage> {
+  const verdict = await getSenderVerdict(userId, email.senderAddress);
+  const confident = email.confidence.isJobApplication >= OVERRULE_CONFIDENCE;
+
+  if (verdict === 'not_job') return email.isJobApplication && confident ? 'review' : 'ignore';
+  if (verdict === 'job') return !email.isJobApplication && confident ? 'review' : 'accept';
+  return needsReview(email) ? 'review' : 'accept';
+}
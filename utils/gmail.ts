@@ -1,32 +1,65 @@
-import { google } from 'googleapis';
+import { google, gmail_v1 } from 'googleapis';
 
-export async function getGmailMessages(accessToken: string) {
+type Response<T> = Promise<{ data: T }>;
+
+/**
+ * The slice of the Gmail API that ingestion uses. The real client satisfies it,
+ * and tests can pass a plain object that serves recorded messages instead.
+ */
+export interface GmailClient {
+  users: {
+    getProfile(params: gmail_v1.Params$Resource$Users$Getprofile): Response<gmail_v1.Schema$Profile>;
+    messages: {
+      list(params: gmail_v1.Params$Resource$Users$Messages$List): Response<gmail_v1.Schema$ListMessagesResponse>;
+      get(params: gmail_v1.Params$Resource$Users$Messages$Get): Response<gmail_v1.Schema$Message>;
+    };
+    history: {
+      list(params: gmail_v1.Params$Resource$Users$History$List): Response<gmail_v1.Schema$ListHistoryResponse>;
+    };
+    watch(params: gmail_v1.Params$Resource$Users$Watch): Response<gmail_v1.Schema$WatchResponse>;
+  };
+}
+
+export function createGmailClient(accessToken: string): GmailClient {
   const oauth2Client = new google.auth.OAuth2();
   oauth2Client.setCredentials({ access_token: accessToken });
+  return google.gmail({ version: 'v1', auth: oauth2Client });
+}
 
-  const gmail = google.gmail({ version: 'v1', auth: oauth2Client });
+// Follows nextPageToken until `limit` ids are collected or the results run out
+export async function listMessageIds(gmail: GmailClient, query: string, limit: number): Promise<string[]> {
+  const ids: string[] = [];
+  let pageToken: string | undefined;
 
-  try {
+  do {
     const response = await gmail.users.messages.list({
       userId: 'me',
-      q: 'subject:"job application" OR subject:"application confirmation"',
-      maxResults: 100,
+      q: query,
+      maxResults: Math.min(100, limit - ids.length),
+      pageToken,
     });
+    for (const message of response.data.messages || []) {
+      if (message.id) ids.push(message.id);
+    }
+    pageToken = response.data.nextPageToken ?? undefined;
+  } while (pageToken && ids.length < limit);
+
+  return ids;
+}
+
+export async function getMailboxHistoryId(gmail: GmailClient): Promise<string | null> {
+  const profile = await gmail.users.getProfile({ userId: 'me' });
+  return profile.data.historyId ?? null;
+}
+
+// History ids are decimal strings that can exceed a double's precision, so compare them as text
+export function isNewerHistoryId(historyId: string | null | undefined, than: string): boolean {
+  if (!historyId) return false;
+  return historyId.length !== than.length ? historyId.length > than.length : historyId > than;
+}
 
-    const messages = response.data.messages || [];
-    const messageDetails = await Promise.all(
-      messages.map(async (message) => {
-        const details = await gmail.users.messages.get({
-          userId: 'me',
-          id: message.id!,
-        });
-        return details.data;
-      })
-    );
-
-    return messageDetails;
-  } catch (error) {
-    console.error('Error fetching Gmail messages:', error);
-    throw error;
-  }
-} 
\ No newline at end of file
+// Gmail answers 401 once an access token has expired or been revoked
+export function isGmailAuthError(error: unknown): boolean {
+  const { code, status, message } = (error ?? {}) as { code?: number | string; status?: number; message?: string };
+  return code === 401 || code === '401' || status === 401 || /invalid_grant|invalid credentials/i.test(message ?? '');
+}
@@ -0,0 +1,67 @@
+import { readFileSync } from 'fs';
+import type { gmail_v1 } from 'googleapis';
+import { isNewerHistoryId, type GmailClient } from './gmail';
+
+/**
+ * A recorded mailbox: the current history id, the history records a sync reads
+ * and the full messages they point to, as the Gmail API returned them.
+ */
+export interface GmailFixture {
+  historyId: string;
+  history?: gmail_v1.Schema$History[];
+  messages: gmail_v1.Schema$Message[];
+}
+
+const WATCH_DAYS_MS = 7 * 24 * 60 * 60 * 1000;
+
+function notFound(what: string): Error {
+  return Object.assign(new Error(`${what} not found in fixture`), { code: 404 });
+}
+
+/**
+ * A GmailClient that serves a recorded mailbox from a JSON file instead of
+ * calling Google, so syncs and push notifications can be exercised locally.
+ * The file is re-read on every call and can be edited between requests.
+ * Search queries are not evaluated: every recorded message matches.
+ */
+export function createFixtureGmailClient(path: string): GmailClient {
+  const load = (): GmailFixture => JSON.parse(readFileSync(path, 'utf8'));
+
+  return {
+    users: {
+      async getProfile() {
+        return { data: { historyId: load().historyId } };
+      },
+      messages: {
+        async list(params) {
+          const { messages } = load();
+          const offset = Number(params.pageToken ?? 0);
+          const limit = params.maxResults ?? 100;
+          const page = messages.slice(offset, offset + limit);
+          return {
+            data: {
+              messages: page.map(({ id, threadId }) => ({ id, threadId })),
+              nextPageToken: offset + limit < messages.length ? String(offset + limit) : undefined,
+              resultSizeEstimate: messages.length,
+            },
+          };
+        },
+        async get(params) {
+          const message = load().messages.find((candidate) => candidate.id === params.id);
+          if (!message) throw notFound(`Message ${params.id}`);
+          return { data: message };
+        },
+      },
+      history: {
+        async list(params) {
+          const { historyId, history = [] } = load();
+          const start = params.startHistoryId ?? '0';
+          return { data: { historyId, history: history.filter((record) => isNewerHistoryId(record.id, start)) } };
+        },
+      },
+      async watch() {
+        return { data: { historyId: load().historyId, expiration: String(Date.now() + WATCH_DAYS_MS) } };
+      },
+    },
+  };
+}
@@ -0,0 +1,26 @@
+import type { GmailClient } from './gmail';
+import { prisma } from './prisma';
+
+// Gmail drops a watch after 7 days; renew a day ahead so no change goes unannounced
+const RENEW_BEFORE_MS = 24 * 60 * 60 * 1000;
+
+// Full topic name, e.g. projects/my-project/topics/gmail; push is off without one
+export function getPubSubTopic(): string | null {
+  return process.env.GMAIL_PUBSUB_TOPIC || null;
+}
+
+export function needsWatchRenewal(expiresAt: Date | null, now = new Date()): boolean {
+  return !expiresAt || expiresAt.getTime() - now.getTime() < RENEW_BEFORE_MS;
+}
+
+/**
+ * Asks Gmail to publish changes to the user's mailbox to the Pub/Sub topic.
+ * Calling it again while a watch is active simply extends it.
+ */
+export async function renewGmailWatch(gmail: GmailClient, userId: string, topicName: string): Promise<Date> {
+  const { data } = await gmail.users.watch({ userId: 'me', requestBody: { topicName } });
+  const expiresAt = data.expiration ? new Date(Number(data.expiration)) : new Date(Date.now() + RENEW_BEFORE_MS);
+
+  await prisma.user.update({ where: { id: userId }, data: { gmailWatchExpiresAt: expiresAt } });
+  return expiresAt;
+}
@@ -0,0 +1,106 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { prisma } from './prisma';
+
+// Stored refresh tokens are AES-256-GCM ciphertext: prefix, then base64 IV, auth tag and ciphertext
+const ENCRYPTED_PREFIX = 'enc:v1:';
+
+export interface GoogleTokens {
+  accessToken: string;
+  // Milliseconds since the epoch
+  expiresAt: number;
+  refreshToken: string;
+}
+
+/**
+ * Trades a refresh token for a fresh access token. Google only sends a new
+ * refresh token when it rotates the old one, so the old one is kept otherwise.
+ * Throws Google's error body when the grant is rejected.
+ */
+export async function refreshGoogleTokens(refreshToken: string): Promise<GoogleTokens> {
+  const response = await fetch('https://oauth2.googleapis.com/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      client_id: process.env.GOOGLE_CLIENT_ID!,
+      client_secret: process.env.GOOGLE_CLIENT_SECRET!,
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+    }),
+  });
+  const refreshed = await response.json();
+
+  if (!response.ok) {
+    throw refreshed;
+  }
+
+  return {
+    accessToken: refreshed.access_token,
+    expiresAt: Date.now() + refreshed.expires_in * 1000,
+    refreshToken: refreshed.refresh_token ?? refreshToken,
+  };
+}
+
+// TOKEN_ENCRYPTION_KEY, or NEXTAUTH_SECRET when unset, hashed to a 256-bit key
+function getEncryptionKey(): Buffer {
+  const secret = process.env.TOKEN_ENCRYPTION_KEY || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('Set TOKEN_ENCRYPTION_KEY or NEXTAUTH_SECRET to store Google refresh tokens');
+  }
+  return createHash('sha256').update(secret).digest();
+}
+
+function encryptToken(token: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(token, 'utf8'), cipher.final()]);
+  const parts = [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64'));
+  return ENCRYPTED_PREFIX + parts.join(':');
+}
+
+// Tokens saved before encryption was added are read as they are and encrypted when next stored
+function decryptToken(stored: string): string {
+  if (!stored.startsWith(ENCRYPTED_PREFIX)) return stored;
+
+  const [iv, tag, ciphertext] = stored
+    .slice(ENCRYPTED_PREFIX.length)
+    .split(':')
+    .map((part) => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+// Kept server-side, encrypted, so the sync worker can reach Gmail while no dashboard is open
+export async function storeRefreshToken(email: string, refreshToken: string): Promise<void> {
+  const googleRefreshToken = encryptToken(refreshToken);
+  await prisma.user.upsert({
+    where: { email },
+    update: { googleRefreshToken },
+    create: { email, googleRefreshToken },
+  });
+}
+
+// Replaces the user's stored token after Google rotates it, or forgets it (null) once revoked
+export async function updateRefreshToken(userId: string, refreshToken: string | null): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { googleRefreshToken: refreshToken === null ? null : encryptToken(refreshToken) },
+  });
+}
+
+/**
+ * Returns the user's decrypted refresh token, or null when they have none. A
+ * token that no longer decrypts (the key changed) is treated as missing, so the
+ * user is synced again once they sign in.
+ */
+export async function loadRefreshToken(userId: string): Promise<string | null> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { googleRefreshToken: true } });
+  if (!user?.googleRefreshToken) return null;
+
+  try {
+    return decryptToken(user.googleRefreshToken);
+  } catch (error) {
+    console.warn(`Stored refresh token for user ${userId} could not be decrypted:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,68 @@
+import { DEFAULT_INTERVIEW_MINUTES } from './interviews';
+import type { UpcomingInterview } from './types';
+
+const PRODUCT_ID = '-//Job Application Tracker//Interviews//EN';
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// 20250310T140000Z
+function formatDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// RFC 5545 limits lines to 75 octets; longer ones continue on lines starting with a space
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char, 'utf8') > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function toEvent(interview: UpcomingInterview, generatedAt: Date): string[] {
+  const start = new Date(interview.startsAt);
+  const end = new Date(start.getTime() + (interview.durationMinutes ?? DEFAULT_INTERVIEW_MINUTES) * 60 * 1000);
+  const description = [
+    `${interview.jobProfile} at ${interview.companyName}`,
+    interview.interviewer ? `Interviewer: ${interview.interviewer}` : null,
+    interview.meetingUrl ? `Join: ${interview.meetingUrl}` : null,
+  ].filter(Boolean).join('\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${interview.id}@job-application-tracker`,
+    `DTSTAMP:${formatDate(generatedAt)}`,
+    `DTSTART:${formatDate(start)}`,
+    `DTEND:${formatDate(end)}`,
+    `SUMMARY:${escapeText(`Interview: ${interview.companyName}`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    ...(interview.meetingUrl ? [`LOCATION:${escapeText(interview.meetingUrl)}`, `URL:${interview.meetingUrl}`] : []),
+    'END:VEVENT',
+  ];
+}
+
+export function buildInterviewCalendar(interviews: UpcomingInterview[], generatedAt = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Job interviews',
+    ...interviews.flatMap((interview) => toEvent(interview, generatedAt)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,174 @@
+import { ApplicationInputError, createApplication, parseApplicationInput } from './applications';
+import { parseCsv } from './csv';
+import { normalizeCompanyName, normalizeJobTitle } from './normalize';
+import { prisma } from './prisma';
+import {
+  APPLICATION_STATUSES,
+  type ApplicationInput,
+  type ImportReport,
+  type ImportRowResult,
+} from './types';
+
+export const MAX_IMPORT_ROWS = 2000;
+
+// Custom fields are per user, so they are not read from spreadsheets
+type ImportField = Exclude<keyof ApplicationInput, 'customFields'>;
+
+// Application field -> CSV header it is read from
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+// Headers recognised without an explicit mapping, compared lowercased with punctuation removed
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  companyName: ['companyname', 'company', 'employer', 'organization'],
+  jobProfile: ['jobprofile', 'role', 'title', 'jobtitle', 'position'],
+  applicationStatus: ['applicationstatus', 'status', 'stage'],
+  date: ['date', 'applied', 'dateapplied', 'applieddate', 'applicationdate'],
+  link: ['link', 'url', 'joblink', 'posting', 'postingurl'],
+  salaryRange: ['salaryrange', 'salary', 'compensation', 'pay'],
+  location: ['location', 'city', 'office'],
+  notes: ['notes', 'note', 'comments'],
+  tags: ['tags', 'tag', 'labels'],
+  priority: ['priority'],
+};
+
+// Fields an import may fill in on an application that already exists
+const MERGEABLE_FIELDS = ['link', 'salaryRange', 'location', 'notes'] as const;
+
+type ExistingDetails = { id: string; overriddenFields: string[] } & Record<
+  (typeof MERGEABLE_FIELDS)[number],
+  string | null
+>;
+
+const headerKey = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Resolves each application field to a column index. Explicitly mapped headers
+ * must exist; other fields fall back to recognised header names.
+ */
+export function resolveColumns(headers: string[], mapping: ColumnMapping = {}): Map<ImportField, number> {
+  const keys = headers.map(headerKey);
+  const columns = new Map<ImportField, number>();
+
+  for (const field of Object.keys(COLUMN_ALIASES) as ImportField[]) {
+    const mapped = mapping[field];
+    const index = mapped
+      ? headers.findIndex((header) => header.trim() === mapped.trim())
+      : keys.findIndex((key) => COLUMN_ALIASES[field].includes(key));
+
+    if (mapped && index === -1) {
+      throw new ApplicationInputError(`Column "${mapped}" mapped to ${field} is not in the CSV header`);
+    }
+    if (index !== -1) columns.set(field, index);
+  }
+
+  if (!columns.has('companyName') || !columns.has('jobProfile')) {
+    throw new ApplicationInputError('The CSV needs a company and a role column; map them explicitly if they are named differently');
+  }
+  return columns;
+}
+
+function parseRow(values: string[], columns: Map<ImportField, number>): ApplicationInput {
+  const raw: Record<string, string> = {};
+  columns.forEach((index, field) => {
+    raw[field] = (values[index] ?? '').trim();
+  });
+
+  // Spreadsheets rarely match our casing, and a missing stage means the application was sent
+  const status = raw.applicationStatus
+    ? APPLICATION_STATUSES.find((known) => known.toLowerCase() === raw.applicationStatus.toLowerCase())
+    : 'Applied';
+
+  return parseApplicationInput({ ...raw, applicationStatus: status ?? raw.applicationStatus });
+}
+
+const dedupeKey = (input: ApplicationInput): string | null => {
+  const companyKey = normalizeCompanyName(input.companyName);
+  const roleKey = normalizeJobTitle(input.jobProfile);
+  return companyKey && roleKey ? `${companyKey}|${roleKey}` : null;
+};
+
+/**
+ * Imports applications from a spreadsheet export. Rows matching an existing
+ * application (or an earlier row) by normalized company and role are merged by
+ * filling in details it lacks; invalid rows are rejected without stopping the import.
+ */
+export async function importApplicationsCsv(userId: string, csv: string, mapping?: ColumnMapping): Promise<ImportReport> {
+  const [headers, ...rows] = parseCsv(csv);
+  if (!headers) throw new ApplicationInputError('The CSV is empty');
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new ApplicationInputError(`A single import is limited to ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  const columns = resolveColumns(headers, mapping);
+
+  const existing = new Map<string, ExistingDetails>();
+  const applications = await prisma.application.findMany({
+    where: { userId },
+    select: {
+      id: true,
+      companyKey: true,
+      roleKey: true,
+      link: true,
+      salaryRange: true,
+      location: true,
+      notes: true,
+      overriddenFields: true,
+    },
+  });
+  for (const { companyKey, roleKey, ...details } of applications) {
+    if (companyKey && roleKey) existing.set(`${companyKey}|${roleKey}`, details);
+  }
+
+  const report: ImportReport = { created: 0, merged: 0, rejected: 0, rows: [] };
+  const record = (result: ImportRowResult) => {
+    report[result.outcome]++;
+    report.rows.push(result);
+  };
+
+  for (const [index, values] of rows.entries()) {
+    // Row numbers match the spreadsheet, where the header is row 1
+    const row = index + 2;
+
+    let input: ApplicationInput;
+    try {
+      input = parseRow(values, columns);
+    } catch (error) {
+      if (!(error instanceof ApplicationInputError)) throw error;
+      record({ row, outcome: 'rejected', applicationId: null, error: error.message });
+      continue;
+    }
+
+    const key = dedupeKey(input);
+    const match = key ? existing.get(key) : undefined;
+
+    if (match) {
+      const updates = Object.fromEntries(
+        // A field the user cleared by hand stays cleared
+        MERGEABLE_FIELDS.filter((field) => !match[field] && input[field] && !match.overriddenFields.includes(field)).map(
+          (field) => [field, input[field]]
+        )
+      );
+      if (Object.keys(updates).length > 0) {
+        await prisma.application.update({ where: { id: match.id }, data: updates });
+        Object.assign(match, updates);
+      }
+      record({ row, outcome: 'merged', applicationId: match.id, error: null });
+      continue;
+    }
+
+    const created = await createApplication(userId, input);
+    if (key) {
+      existing.set(key, {
+        id: created.id,
+        link: created.link,
+        salaryRange: created.salaryRange,
+        location: created.location,
+        notes: created.notes,
+        overriddenFields: created.overriddenFields,
+      });
+    }
+    record({ row, outcome: 'created', applicationId: created.id, error: null });
+  }
+
+  return report;
+}
@@ -0,0 +1,145 @@
+import { gmail_v1 } from 'googleapis';
+import { saveEmailInfos } from './applications';
+import { analyzeEmailWithCache } from './cache';
+import { classifyEmailWithRules } from './classifier';
+import { extractContactDetails } from './contacts';
+import type { GmailClient } from './gmail';
+import { extractInterviewDetails } from './interviews';
+import { getEmailBody } from './mime';
+import { extractOfferDetails } from './offers';
+import { extractEmailAddress, extractSenderDomain } from './normalize';
+import type { EmailInfo } from './types';
+
+const FETCH_CONCURRENCY = 5;
+
+export interface IngestResult {
+  emails: EmailInfo[];
+  failed: number;
+  failedIds: string[];
+}
+
+/**
+ * Narrows a user's job query by time. `after` is a Unix timestamp in seconds (the
+ * only numeric form Gmail accepts); `newerThan` is a relative span like "7d".
+ */
+export function buildJobQuery(baseQuery: string, options: { after?: number; newerThan?: string } = {}): string {
+  const clauses = [baseQuery];
+  if (options.after !== undefined) clauses.push(`after:${Math.floor(options.after)}`);
+  if (options.newerThan) clauses.push(`newer_than:${options.newerThan}`);
+  return clauses.join(' ');
+}
+
+// A malformed Date header gives null rather than an Invalid Date that throws on toISOString()
+export function parseHeaderDate(value: string): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export const extractEmailInfo = async (
+  message: gmail_v1.Schema$Message,
+  userId: string
+): Promise<EmailInfo> => {
+  const headers = message.payload?.headers || [];
+  const subject = headers.find((h) => h.name === 'Subject')?.value || '';
+  const from = headers.find((h) => h.name === 'From')?.value || '';
+  const date = headers.find((h) => h.name === 'Date')?.value ?? '';
+  const body = getEmailBody(message.payload);
+
+  const sentAt = parseHeaderDate(date);
+  const receivedAt = sentAt ?? new Date();
+
+  // Only invitations carry scheduling details worth reading, and only offers carry compensation
+  const interviewFor = (status: string) =>
+    status === 'Interview' ? extractInterviewDetails({ subject, body }, receivedAt, date) : null;
+  const offerFor = (status: string) => (status === 'Offer' ? extractOfferDetails({ subject, body }, receivedAt) : null);
+
+  // Try AI parsing first, reusing earlier results for unchanged messages
+  const { result: aiResult, fromCache } = await analyzeEmailWithCache({
+    userId,
+    gmailId: message.id || '',
+    subject,
+    body,
+    from,
+  });
+
+  if (aiResult) {
+    return {
+      id: message.id || '',
+      threadId: message.threadId ?? null,
+      ...aiResult,
+      fromCache,
+      date: sentAt?.toISOString() ?? null,
+      originalSubject: subject,
+      snippet: message.snippet ?? null,
+      from: from.replace(/<[^>]+>/, '').trim(),
+      senderAddress: extractEmailAddress(from),
+      senderDomain: extractSenderDomain(from),
+      interview: interviewFor(aiResult.applicationStatus),
+      offer: offerFor(aiResult.applicationStatus),
+      contact: extractContactDetails(from, body),
+    };
+  }
+
+  // Fallback to rule-based parsing
+  const ruleResult = classifyEmailWithRules({ subject, body, from });
+
+  return {
+    id: message.id || '',
+    threadId: message.threadId ?? null,
+    ...ruleResult,
+    fromCache: false,
+    date: sentAt?.toISOString() ?? null,
+    originalSubject: subject,
+    snippet: message.snippet ?? null,
+    from: from.replace(/<[^>]+>/, '').trim(),
+    senderAddress: extractEmailAddress(from),
+    senderDomain: extractSenderDomain(from),
+    interview: interviewFor(ruleResult.applicationStatus),
+    offer: offerFor(ruleResult.applicationStatus),
+    contact: extractContactDetails(from, body),
+  };
+};
+
+// Fetches and classifies messages by id; messages that fail are logged and counted, not thrown
+export async function fetchAndExtract(gmail: GmailClient, userId: string, ids: string[]): Promise<IngestResult> {
+  const results = await mapWithConcurrency(ids, FETCH_CONCURRENCY, async (id) => {
+    try {
+      const details = await gmail.users.messages.get({ userId: 'me', id, format: 'full' });
+      return await extractEmailInfo(details.data, userId);
+    } catch (error) {
+      console.error(`Failed to process message ${id}:`, error);
+      return null;
+    }
+  });
+
+  const emails = results.filter((email): email is EmailInfo => email !== null);
+  const failedIds = ids.filter((_id, index) => results[index] === null);
+  return { emails, failed: failedIds.length, failedIds };
+}
+
+export async function ingestMessages(gmail: GmailClient, userId: string, ids: string[]): Promise<IngestResult> {
+  const result = await fetchAndExtract(gmail, userId, ids);
+  await saveEmailInfos(userId, result.emails);
+  return result;
+}
+
+// Like Promise.all over `items`, but with at most `limit` calls in flight
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  });
+
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,423 @@
+import { randomBytes } from 'crypto';
+import type { InterviewEvent } from '@prisma/client';
+import { prisma } from './prisma';
+import type { InterviewDetails, MeetingProvider, UpcomingInterview } from './types';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export const DEFAULT_INTERVIEW_MINUTES = 60;
+
+const MONTH_SOURCE =
+  '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const WEEKDAY_SOURCE = '(sun|mon|tues?|wed(?:nes)?|thu(?:rs?)?|fri|sat(?:ur)?)(?:day)?';
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// start hour, minute, meridiem, then the same for an optional range end
+const TIME_SOURCE =
+  '(\\d{1,2})(?::(\\d{2}))?\\s*([ap]\\.?m\\.?)?(?:\\s*(?:-|–|—|to|until)\\s*(\\d{1,2})(?::(\\d{2}))?\\s*([ap]\\.?m\\.?)?)?';
+const ZONE_SOURCE =
+  '(?:\\s*\\(?\\s*((?:gmt|utc)\\s*[+\\-−]\\s*\\d{1,2}(?::?\\d{2})?|(?:eastern|central|mountain|pacific)(?:\\s+(?:standard|daylight))?\\s+time|[a-z]{2,4})\\b\\)?)?';
+
+const TIME_AFTER_DATE = new RegExp(
+  `^\\s*,?\\s*(?:at|@|from|starting at|beginning at)?\\s*${TIME_SOURCE}${ZONE_SOURCE}`,
+  'i'
+);
+// "11:30 am on Thursday, March 5 Eastern Time": the zone may follow the date instead
+const ZONE_AFTER_DATE = new RegExp(`^${ZONE_SOURCE}`, 'i');
+const TIME_BEFORE_DATE = new RegExp(
+  `${TIME_SOURCE}${ZONE_SOURCE}\\s*,?\\s*(?:on)?\\s*(?:${WEEKDAY_SOURCE},?\\s*)?$`,
+  'i'
+);
+
+interface DatePattern {
+  pattern: RegExp;
+  read(match: RegExpExecArray): { year: number | null; month: number; day: number } | null;
+}
+
+const monthIndex = (name: string) => MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+
+const DATE_PATTERNS: DatePattern[] = [
+  // March 10, 2025 / Mar 10th
+  {
+    pattern: new RegExp(`\\b${MONTH_SOURCE}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`, 'gi'),
+    read: (m) => ({ year: m[3] ? Number(m[3]) : null, month: monthIndex(m[1]), day: Number(m[2]) }),
+  },
+  // 10 March 2025 / 10th of March
+  {
+    pattern: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_SOURCE}\\.?(?:,?\\s+(\\d{4}))?\\b`, 'gi'),
+    read: (m) => ({ year: m[3] ? Number(m[3]) : null, month: monthIndex(m[2]), day: Number(m[1]) }),
+  },
+  // 2025-03-10
+  {
+    pattern: /\b(\d{4})-(\d{2})-(\d{2})\b/g,
+    read: (m) => ({ year: Number(m[1]), month: Number(m[2]) - 1, day: Number(m[3]) }),
+  },
+  // 3/10/2025 (US order)
+  {
+    pattern: /\b(\d{1,2})\/(\d{1,2})(?:\/(\d{4}|\d{2}))?\b/g,
+    read: (m) => {
+      if (!m[3]) return { year: null, month: Number(m[1]) - 1, day: Number(m[2]) };
+      const year = Number(m[3]);
+      return { year: year < 100 ? 2000 + year : year, month: Number(m[1]) - 1, day: Number(m[2]) };
+    },
+  },
+];
+
+const RELATIVE_DAY = new RegExp(`\\b(today|tomorrow|(?:this\\s+|next\\s+)?${WEEKDAY_SOURCE})\\b`, 'gi');
+
+// Minutes east of UTC
+const ZONE_OFFSETS: Record<string, number> = {
+  utc: 0,
+  gmt: 0,
+  bst: 60,
+  cet: 60,
+  cest: 120,
+  eet: 120,
+  eest: 180,
+  ist: 330,
+  sgt: 480,
+  jst: 540,
+  aest: 600,
+  aedt: 660,
+  est: -300,
+  edt: -240,
+  cst: -360,
+  cdt: -300,
+  mst: -420,
+  mdt: -360,
+  pst: -480,
+  pdt: -420,
+};
+
+// Zones named without saying standard or daylight time follow US daylight saving
+const US_ZONES: Record<string, number> = { e: -300, c: -360, m: -420, p: -480 };
+
+const MEETING_LINKS: { provider: MeetingProvider; pattern: RegExp }[] = [
+  { provider: 'zoom', pattern: /https?:\/\/(?:[\w-]+\.)*zoom\.us\/(?:j|my|w)\/[^\s<>"')\]]+/i },
+  { provider: 'meet', pattern: /https?:\/\/meet\.google\.com\/[a-z]{3}-[a-z]{4}-[a-z]{3}\b/i },
+  { provider: 'teams', pattern: /https?:\/\/teams\.(?:microsoft|live)\.com\/[^\s<>"')\]]+/i },
+  { provider: 'webex', pattern: /https?:\/\/(?:[\w-]+\.)*webex\.com\/[^\s<>"')\]]+/i },
+];
+
+const INTERVIEWER_PATTERNS = [
+  /\binterviewer(?:\(s\))?:\s*([A-Z][a-z'-]+(?: [A-Z][a-z'-]+){0,2})/,
+  /\b(?:interview(?:ing)?|meet(?:ing)?|speak(?:ing)?|chat(?:ting)?|call|connect(?:ing)?) with ([A-Z][a-z'-]+(?: [A-Z][a-z'-]+){0,2})/,
+  // Any "with First Last" as a last resort; a single capitalised word is too often a company or team
+  /\bwith ([A-Z][a-z'-]+ [A-Z][a-z'-]+)\b/,
+];
+
+const DURATION_PATTERN = /\b(\d{1,3}|\d(?:\.\d)?)[\s-]?(minutes?|mins?|hours?|hrs?)\b/i;
+
+// Second Sunday of March to the first Sunday of November
+function isUsDaylightTime(year: number, month: number, day: number): boolean {
+  const nthSunday = (m: number, n: number) => {
+    const first = new Date(Date.UTC(year, m, 1)).getUTCDay();
+    return 1 + ((7 - first) % 7) + (n - 1) * 7;
+  };
+  if (month < 2 || month > 10) return false;
+  if (month > 2 && month < 10) return true;
+  return month === 2 ? day >= nthSunday(2, 2) : day < nthSunday(10, 1);
+}
+
+function zoneOffset(zone: string, year: number, month: number, day: number): number | null {
+  const name = zone.toLowerCase().replace(/\s+/g, ' ').trim();
+
+  const explicit = name.match(/^(?:gmt|utc) ?[+\-−] ?(\d{1,2})(?::?(\d{2}))?$/);
+  if (explicit) {
+    const minutes = Number(explicit[1]) * 60 + Number(explicit[2] ?? 0);
+    return /[-−]/.test(name) ? -minutes : minutes;
+  }
+
+  if (name in ZONE_OFFSETS) return ZONE_OFFSETS[name];
+
+  const us = name.match(/^(?:(e|c|m|p)t|(e|c|m|p)[a-z]+ (?:(standard|daylight) )?time)$/);
+  if (us) {
+    const standard = US_ZONES[us[1] ?? us[2]];
+    if (us[3] === 'standard') return standard;
+    if (us[3] === 'daylight') return standard + 60;
+    return isUsDaylightTime(year, month, day) ? standard + 60 : standard;
+  }
+  return null;
+}
+
+function toHour(hour: number, meridiem: string | undefined): number {
+  if (!meridiem) return hour;
+  const pm = meridiem[0].toLowerCase() === 'p';
+  return (hour % 12) + (pm ? 12 : 0);
+}
+
+interface ParsedTime {
+  hour: number;
+  minute: number;
+  durationMinutes: number | null;
+  zone: string | null;
+}
+
+function readTime(match: RegExpExecArray): ParsedTime | null {
+  const [, startHour, startMinute, startMeridiem, endHour, endMinute, endMeridiem, zone] = match;
+  // Bare numbers are too ambiguous; a time needs a colon or am/pm
+  if (!startMinute && !startMeridiem && !(endHour && (endMinute || endMeridiem))) return null;
+
+  let hour = toHour(Number(startHour), startMeridiem ?? endMeridiem);
+  const minute = Number(startMinute ?? 0);
+  let durationMinutes: number | null = null;
+
+  // Nobody schedules an interview at 3 in the morning
+  if (!startMeridiem && !endMeridiem && hour >= 1 && hour <= 7) hour += 12;
+
+  if (endHour) {
+    let end = toHour(Number(endHour), endMeridiem ?? startMeridiem) * 60 + Number(endMinute ?? 0);
+    // "11:30 - 12:15 pm": the shared meridiem belongs to the end time only
+    if (!startMeridiem && endMeridiem && hour * 60 + minute > end) hour -= 12;
+    if (!startMeridiem && !endMeridiem && end < hour * 60 + minute) end += 12 * 60;
+    const length = end - (hour * 60 + minute);
+    if (length > 0 && length <= 8 * 60) durationMinutes = length;
+  }
+
+  if (hour > 23 || minute > 59) return null;
+  // The zone pattern also catches ordinary short words; keep only names we can resolve
+  const knownZone = zone && zoneOffset(zone, 2000, 0, 1) !== null ? zone : null;
+  return { hour, minute, durationMinutes, zone: knownZone };
+}
+
+function findTimeAround(text: string, start: number, end: number): ParsedTime | null {
+  const after = TIME_AFTER_DATE.exec(text.slice(end, end + 60));
+  const afterTime = after && readTime(after);
+  if (afterTime) return afterTime;
+
+  const before = TIME_BEFORE_DATE.exec(text.slice(Math.max(0, start - 60), start));
+  const beforeTime = before && readTime(before);
+  if (!beforeTime || beforeTime.zone) return beforeTime;
+
+  const zone = ZONE_AFTER_DATE.exec(text.slice(end, end + 30))?.[1];
+  return zone && zoneOffset(zone, 2000, 0, 1) !== null ? { ...beforeTime, zone } : beforeTime;
+}
+
+/**
+ * Resolves a wall-clock time to UTC. Without a recognised zone the sender's own
+ * offset, taken from the email's Date header, is assumed.
+ */
+function toUtc(
+  date: { year: number; month: number; day: number },
+  time: ParsedTime,
+  fallbackOffset: number
+): { startsAt: Date; zone: string | null } {
+  const offset = time.zone ? zoneOffset(time.zone, date.year, date.month, date.day) : null;
+  const local = Date.UTC(date.year, date.month, date.day, time.hour, time.minute);
+  return {
+    startsAt: new Date(local - (offset ?? fallbackOffset) * MINUTE_MS),
+    zone: offset === null ? null : time.zone!.replace(/\s+/g, ' '),
+  };
+}
+
+// The sender's UTC offset in minutes, e.g. "Tue, 4 Mar 2025 09:12:00 -0800" gives -480
+export function parseHeaderOffset(dateHeader: string): number {
+  const match = dateHeader.match(/([+-])(\d{2})(\d{2})\s*(?:\([^)]*\))?\s*$/);
+  if (!match) return 0;
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+function findStart(
+  text: string,
+  receivedAt: Date,
+  fallbackOffset: number
+): { startsAt: Date; zone: string | null; durationMinutes: number | null } | null {
+  // The sender's calendar day when the email was sent, for dates without a year or weekday names
+  const local = new Date(receivedAt.getTime() + fallbackOffset * MINUTE_MS);
+  const today = { year: local.getUTCFullYear(), month: local.getUTCMonth(), day: local.getUTCDate() };
+  const earliest = receivedAt.getTime() - DAY_MS;
+  const latest = receivedAt.getTime() + 366 * DAY_MS;
+
+  for (const { pattern, read } of DATE_PATTERNS) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      const date = read(match);
+      if (!date || date.month < 0 || date.month > 11 || date.day < 1 || date.day > 31) continue;
+
+      const time = findTimeAround(text, match.index, match.index + match[0].length);
+      if (!time) continue;
+
+      let resolved = toUtc({ ...date, year: date.year ?? today.year }, time, fallbackOffset);
+      // A year-less date long past is early next year ("Jan 5" sent in December); a recent one is history
+      if (date.year === null && resolved.startsAt.getTime() < earliest - 180 * DAY_MS) {
+        resolved = toUtc({ ...date, year: today.year + 1 }, time, fallbackOffset);
+      }
+
+      // Dates the email refers back to, such as when the candidate applied, are not the interview
+      const at = resolved.startsAt.getTime();
+      if (at >= earliest && at <= latest) return { ...resolved, durationMinutes: time.durationMinutes };
+    }
+  }
+
+  RELATIVE_DAY.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = RELATIVE_DAY.exec(text))) {
+    const time = findTimeAround(text, match.index, match.index + match[0].length);
+    if (!time) continue;
+
+    const word = match[1].toLowerCase();
+    let days = 0;
+    if (word === 'tomorrow') {
+      days = 1;
+    } else if (match[2]) {
+      const weekday = WEEKDAYS.indexOf(match[2].slice(0, 3).toLowerCase());
+      const current = new Date(Date.UTC(today.year, today.month, today.day)).getUTCDay();
+      days = (weekday - current + 7) % 7 || 7;
+      if (word.startsWith('next') && days < 7) days += 7;
+    }
+
+    const day = new Date(Date.UTC(today.year, today.month, today.day + days));
+    const resolved = toUtc(
+      { year: day.getUTCFullYear(), month: day.getUTCMonth(), day: day.getUTCDate() },
+      time,
+      fallbackOffset
+    );
+    return { ...resolved, durationMinutes: time.durationMinutes };
+  }
+
+  return null;
+}
+
+/**
+ * Finds the first calendar date written in the text (no time needed), read in
+ * UTC and resolved against when the email arrived like interview dates are.
+ * Used for deadlines, so dates before the email are skipped.
+ */
+export function findDateMention(text: string, receivedAt: Date): Date | null {
+  const earliest = receivedAt.getTime() - DAY_MS;
+  const currentYear = receivedAt.getUTCFullYear();
+
+  for (const { pattern, read } of DATE_PATTERNS) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      const date = read(match);
+      if (!date || date.month < 0 || date.month > 11 || date.day < 1 || date.day > 31) continue;
+
+      // Noon keeps the calendar day the same in every time zone it is shown in
+      let resolved = new Date(Date.UTC(date.year ?? currentYear, date.month, date.day, 12));
+      if (date.year === null && resolved.getTime() < earliest) {
+        resolved = new Date(Date.UTC(currentYear + 1, date.month, date.day, 12));
+      }
+      if (resolved.getTime() >= earliest) return resolved;
+    }
+  }
+
+  return null;
+}
+
+function findMeetingLink(text: string): { meetingUrl: string; meetingProvider: MeetingProvider } | null {
+  for (const { provider, pattern } of MEETING_LINKS) {
+    const match = text.match(pattern);
+    if (match) return { meetingUrl: match[0].replace(/[.,;:]+$/, ''), meetingProvider: provider };
+  }
+  return null;
+}
+
+function findInterviewer(text: string): string | null {
+  for (const pattern of INTERVIEWER_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+function findDuration(text: string): number | null {
+  const match = text.match(DURATION_PATTERN);
+  if (!match) return null;
+  const minutes = /^h/i.test(match[2]) ? Number(match[1]) * 60 : Number(match[1]);
+  return minutes >= 10 && minutes <= 8 * 60 ? Math.round(minutes) : null;
+}
+
+/**
+ * Pulls the scheduled time, length, interviewer and video link out of an
+ * interview invitation. Returns null unless a date and time can be found, since
+ * an event without a start cannot go on a calendar.
+ */
+export function extractInterviewDetails(
+  { subject, body }: { subject: string; body: string },
+  receivedAt: Date,
+  dateHeader = ''
+): InterviewDetails | null {
+  const text = `${subject}\n${body}`;
+  const meeting = findMeetingLink(text);
+  // Meeting ids and dates inside URLs would otherwise be read as dates and times
+  const prose = text.replace(/https?:\/\/\S+/g, ' ');
+
+  const start = findStart(prose, receivedAt, parseHeaderOffset(dateHeader));
+  if (!start) return null;
+
+  return {
+    startsAt: start.startsAt.toISOString(),
+    durationMinutes: start.durationMinutes ?? findDuration(prose),
+    timezone: start.zone,
+    interviewer: findInterviewer(prose),
+    meetingUrl: meeting?.meetingUrl ?? null,
+    meetingProvider: meeting?.meetingProvider ?? null,
+  };
+}
+
+// Keeps the stored interview in step with the latest reading of its email
+export async function saveInterviewEvent(
+  applicationId: string,
+  emailMessageId: string,
+  interview: InterviewDetails | null
+): Promise<void> {
+  if (!interview) {
+    await prisma.interviewEvent.deleteMany({ where: { emailMessageId } });
+    return;
+  }
+
+  const fields = { applicationId, ...interview, startsAt: new Date(interview.startsAt) };
+  await prisma.interviewEvent.upsert({
+    where: { emailMessageId },
+    update: fields,
+    create: { emailMessageId, ...fields },
+  });
+}
+
+type InterviewWithApplication = InterviewEvent & { application: { companyName: string; jobProfile: string } };
+
+function toUpcomingInterview(event: InterviewWithApplication): UpcomingInterview {
+  return {
+    id: event.id,
+    applicationId: event.applicationId,
+    companyName: event.application.companyName,
+    jobProfile: event.application.jobProfile,
+    startsAt: event.startsAt.toISOString(),
+    durationMinutes: event.durationMinutes,
+    timezone: event.timezone,
+    interviewer: event.interviewer,
+    meetingUrl: event.meetingUrl,
+    meetingProvider: event.meetingProvider as MeetingProvider | null,
+  };
+}
+
+export async function listInterviews(userId: string, since: Date): Promise<UpcomingInterview[]> {
+  const events = await prisma.interviewEvent.findMany({
+    where: { startsAt: { gte: since }, application: { userId } },
+    orderBy: { startsAt: 'asc' },
+    include: { application: { select: { companyName: true, jobProfile: true } } },
+  });
+  return events.map(toUpcomingInterview);
+}
+
+export async function getCalendarToken(userId: string, rotate = false): Promise<string> {
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+  if (user.calendarToken && !rotate) return user.calendarToken;
+
+  const calendarToken = randomBytes(24).toString('base64url');
+  await prisma.user.update({ where: { id: userId }, data: { calendarToken } });
+  return calendarToken;
+}
+
+export const calendarFeedPath = (token: string) => `/api/calendar/${token}.ics`;
+
+export async function findUserIdByCalendarToken(token: string): Promise<string | null> {
+  const user = await prisma.user.findUnique({ where: { calendarToken: token }, select: { id: true } });
+  return user?.id ?? null;
+}
@@ -0,0 +1,158 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import OpenAI from 'openai';
+
+export type LLMProviderName = 'gemini' | 'openai' | 'local' | 'mock';
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  complete(prompt: string): Promise<string>;
+}
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  gemini: 'gemini-1.5-flash',
+  openai: 'gpt-4o-mini',
+  local: 'llama3.1',
+  mock: 'mock',
+};
+
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+// Matches the shape buildAnalysisPrompt asks for, so it passes parseAnalysisResult
+const MOCK_RESPONSE = JSON.stringify({
+  isJobApplication: true,
+  companyName: 'Mock Company',
+  jobProfile: 'Mock Position',
+  applicationStatus: 'Applied',
+  confidence: {
+    isJobApplication: 1,
+    companyName: 1,
+    jobProfile: 1,
+    applicationStatus: 1,
+  },
+});
+
+export function createGeminiProvider(apiKey: string, model = DEFAULT_MODELS.gemini): LLMProvider {
+  const genAI = new GoogleGenerativeAI(apiKey);
+  const generativeModel = genAI.getGenerativeModel({
+    model,
+    generationConfig: { temperature: 0, responseMimeType: 'application/json' },
+  });
+
+  return {
+    name: 'gemini',
+    model,
+    async complete(prompt) {
+      const result = await generativeModel.generateContent(prompt);
+      return result.response.text();
+    },
+  };
+}
+
+// Also used for local servers (Ollama, LM Studio, vLLM) that speak the OpenAI API
+export function createOpenAIProvider(
+  options: { apiKey?: string; baseURL?: string; model?: string; local?: boolean } = {}
+): LLMProvider {
+  const local = options.local ?? false;
+  const model = options.model ?? (local ? DEFAULT_MODELS.local : DEFAULT_MODELS.openai);
+  const client = new OpenAI({
+    apiKey: options.apiKey ?? (local ? 'not-needed' : undefined),
+    baseURL: options.baseURL,
+  });
+
+  return {
+    name: local ? 'local' : 'openai',
+    model,
+    async complete(prompt) {
+      const completion = await client.chat.completions.create({
+        model,
+        temperature: 0,
+        messages: [{ role: 'user', content: prompt }],
+        // Not every local server implements JSON mode
+        ...(local ? {} : { response_format: { type: 'json_object' as const } }),
+      });
+      return completion.choices[0]?.message?.content ?? '';
+    },
+  };
+}
+
+/**
+ * Deterministic provider for tests and offline development. Replies are served
+ * in order and the last one repeats; a function receives the prompt instead.
+ */
+export function createMockProvider(
+  responses: string[] | ((prompt: string) => string) = [MOCK_RESPONSE]
+): LLMProvider {
+  let calls = 0;
+
+  return {
+    name: 'mock',
+    model: DEFAULT_MODELS.mock,
+    async complete(prompt) {
+      if (typeof responses === 'function') return responses(prompt);
+      const response = responses[Math.min(calls, responses.length - 1)];
+      calls += 1;
+      return response ?? '';
+    },
+  };
+}
+
+function resolveProviderName(): LLMProviderName | null {
+  const configured = process.env.LLM_PROVIDER?.trim().toLowerCase();
+
+  if (configured) {
+    if (configured === 'none') return null;
+    if (configured in DEFAULT_MODELS) return configured as LLMProviderName;
+    console.warn(`Unknown LLM_PROVIDER "${configured}", falling back to rule-based classification`);
+    return null;
+  }
+
+  if (process.env.GEMINI_API_KEY) return 'gemini';
+  if (process.env.OPENAI_API_KEY) return 'openai';
+  return null;
+}
+
+/**
+ * Builds the provider selected by LLM_PROVIDER (gemini | openai | local | mock | none).
+ * When unset, whichever of GEMINI_API_KEY / OPENAI_API_KEY is present wins.
+ * LLM_MODEL overrides the model and LLM_BASE_URL points `local` at another server.
+ */
+export function createLLMProviderFromEnv(): LLMProvider | null {
+  const name = resolveProviderName();
+  const model = process.env.LLM_MODEL || undefined;
+
+  switch (name) {
+    case 'gemini':
+      if (!process.env.GEMINI_API_KEY) {
+        console.warn('LLM_PROVIDER is gemini but GEMINI_API_KEY is not set');
+        return null;
+      }
+      return createGeminiProvider(process.env.GEMINI_API_KEY, model);
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) {
+        console.warn('LLM_PROVIDER is openai but OPENAI_API_KEY is not set');
+        return null;
+      }
+      return createOpenAIProvider({ apiKey: process.env.OPENAI_API_KEY, model });
+    case 'local':
+      return createOpenAIProvider({
+        local: true,
+        apiKey: process.env.OPENAI_API_KEY,
+        baseURL: process.env.LLM_BASE_URL || DEFAULT_LOCAL_BASE_URL,
+        model,
+      });
+    case 'mock':
+      return createMockProvider();
+    default:
+      return null;
+  }
+}
+
+let cachedProvider: LLMProvider | null | undefined;
+
+export function getLLMProvider(): LLMProvider | null {
+  if (cachedProvider === undefined) {
+    cachedProvider = createLLMProviderFromEnv();
+  }
+  return cachedProvider;
+}
@@ -0,0 +1,191 @@
+import { gmail_v1 } from 'googleapis';
+
+type MessagePart = gmail_v1.Schema$MessagePart;
+
+interface TextParts {
+  plain: string[];
+  html: string[];
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: ' ',
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  bull: '•',
+};
+
+// Where a reply starts quoting the previous message. Forwarded messages are left
+// alone: when someone forwards an ATS email the forwarded part is the content.
+const QUOTE_MARKERS = [
+  /^On .{1,200} wrote:$/,
+  /^-{2,}\s*Original Message\s*-{2,}/i,
+  /^_{10,}$/,
+];
+
+// Boilerplate that only appears in the trailing footer of marketing-style ATS mail
+const FOOTER_MARKERS =
+  /unsubscribe|manage (?:your )?(?:email )?preferences|privacy policy|you are receiving this|this (?:e-?mail|message) was sent (?:to|by)|all rights reserved|confidentiality notice|^©|do not reply to this (?:e-?mail|message)/i;
+
+function getHeader(part: MessagePart, name: string): string {
+  return part.headers?.find((header) => header.name?.toLowerCase() === name.toLowerCase())?.value ?? '';
+}
+
+function getCharset(part: MessagePart): string {
+  const match = getHeader(part, 'Content-Type').match(/charset="?([^";\s]+)"?/i);
+  return match ? match[1].toLowerCase() : 'utf-8';
+}
+
+// Gmail encodes body data as base64url; plain base64 is tolerated as well
+export function decodeBase64Url(data: string): Buffer {
+  return Buffer.from(data.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+}
+
+export function decodeQuotedPrintable(bytes: Buffer): Buffer {
+  const text = bytes.toString('latin1').replace(/=\r?\n/g, '');
+  const out: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const hex = text.slice(i + 1, i + 3);
+    if (text[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      out.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      out.push(text.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(out);
+}
+
+// Bytes 0x80-0x9F in windows-1252; unassigned ones stay as control characters
+const WINDOWS_1252_HIGH = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ';
+
+function decodeCharset(bytes: Buffer, charset: string): string {
+  try {
+    const decoder = new TextDecoder(charset);
+    const text = decoder.decode(bytes);
+    // Node decodes windows-1252, and the latin1 and ascii labels that mean it, as
+    // ISO-8859-1, which turns Outlook's quotes and dashes into control characters
+    return decoder.encoding === 'windows-1252'
+      ? text.replace(/[\u0080-\u009f]/g, (char) => WINDOWS_1252_HIGH[char.charCodeAt(0) - 0x80])
+      : text;
+  } catch {
+    return bytes.toString('utf8');
+  }
+}
+
+function decodePartBody(part: MessagePart): string {
+  if (!part.body?.data) return '';
+
+  let bytes = decodeBase64Url(part.body.data);
+  // The API normally undoes the transfer encoding, but some senders double-encode
+  const encoding = getHeader(part, 'Content-Transfer-Encoding').toLowerCase();
+  if (encoding === 'quoted-printable' && /=(?:\r?\n|[0-9A-F]{2})/.test(bytes.toString('latin1'))) {
+    bytes = decodeQuotedPrintable(bytes);
+  }
+
+  return decodeCharset(bytes, getCharset(part));
+}
+
+function isAttachment(part: MessagePart): boolean {
+  return !!part.filename || /^\s*attachment/i.test(getHeader(part, 'Content-Disposition'));
+}
+
+function collectTextParts(part: MessagePart | null | undefined, found: TextParts): TextParts {
+  if (!part || isAttachment(part)) return found;
+
+  const mimeType = (part.mimeType || '').toLowerCase();
+  if (mimeType === 'text/plain') {
+    found.plain.push(decodePartBody(part));
+  } else if (mimeType === 'text/html') {
+    found.html.push(decodePartBody(part));
+  }
+
+  for (const child of part.parts || []) {
+    collectTextParts(child, found);
+  }
+  return found;
+}
+
+// Out-of-range code points and lone surrogates would make String.fromCodePoint throw or produce garbage
+const isValidCodePoint = (value: number) =>
+  Number.isInteger(value) && value >= 0 && value <= 0x10ffff && (value < 0xd800 || value > 0xdfff);
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return isValidCodePoint(value) ? String.fromCodePoint(value) : '\ufffd';
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(head|script|style|title|noscript)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<blockquote\b[\s\S]*?<\/blockquote>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(p|div|li|tr|h[1-6]|table|section|article)\b[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function isQuoteStart(lines: string[], index: number): boolean {
+  const line = lines[index].trim();
+  if (QUOTE_MARKERS.some((marker) => marker.test(line))) return true;
+
+  // Outlook-style header block: "From:" followed shortly by "Sent:" or "Date:"
+  return /^From: /.test(line) && lines.slice(index + 1, index + 5).some((next) => /^(Sent|Date): /.test(next.trim()));
+}
+
+/**
+ * Drops quoted reply history and the trailing unsubscribe/legal footer. A footer
+ * marker only counts in the last part of the message so that a body mentioning
+ * "privacy policy" early on is not cut short.
+ */
+export function stripQuotedAndFooter(text: string): string {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+
+  const quoteStart = lines.findIndex((_, i) => isQuoteStart(lines, i));
+  const kept = lines
+    .slice(0, quoteStart === -1 ? lines.length : quoteStart)
+    .filter((line) => !line.trimStart().startsWith('>'));
+
+  const footerSearchStart = Math.floor(kept.length * 0.6);
+  const footerIndex = kept.findIndex((line, i) => i >= footerSearchStart && FOOTER_MARKERS.test(line.trim()));
+  const body = footerIndex === -1 ? kept : kept.slice(0, footerIndex);
+
+  return body.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Walks nested multiparts and returns the readable text of a message: text/plain
+ * when present, otherwise the HTML alternative converted to text, with quoted
+ * history and footers removed.
+ */
+export function getEmailBody(payload: MessagePart | null | undefined): string {
+  const { plain, html } = collectTextParts(payload, { plain: [], html: [] });
+
+  const plainText = plain.join('\n').trim();
+  const text = plainText || html.map(htmlToText).join('\n').trim();
+
+  return stripQuotedAndFooter(text);
+}
@@ -0,0 +1,109 @@
+// Personal mailbox providers: a recruiter writing from one of these is a person, not a company
+export const FREE_MAIL_DOMAINS = [
+  'gmail.com',
+  'googlemail.com',
+  'outlook.com',
+  'hotmail.com',
+  'yahoo.com',
+  'icloud.com',
+];
+
+// Applicant tracking systems and job boards that send on behalf of many employers
+export const ATS_DOMAINS = [
+  'greenhouse.io',
+  'greenhouse-mail.io',
+  'lever.co',
+  'hire.lever.co',
+  'myworkday.com',
+  'myworkdayjobs.com',
+  'workday.com',
+  'smartrecruiters.com',
+  'ashbyhq.com',
+  'icims.com',
+  'jobvite.com',
+  'taleo.net',
+  'successfactors.com',
+  'bamboohr.com',
+  'breezy.hr',
+  'workable.com',
+  'recruitee.com',
+  'linkedin.com',
+  'indeed.com',
+  'indeedemail.com',
+  'glassdoor.com',
+];
+
+function matchesDomain(domain: string, candidates: string[]): boolean {
+  return candidates.some((candidate) => domain === candidate || domain.endsWith(`.${candidate}`));
+}
+
+const PLACEHOLDER_VALUES = ['unknown company', 'unknown position', 'unknown'];
+
+const COMPANY_SUFFIXES =
+  /\b(inc|incorporated|llc|l\.l\.c|ltd|limited|corp|corporation|co|company|gmbh|ag|plc|sa|bv|pty|pvt|private|technologies|holdings|group)\b\.?/g;
+
+export function extractEmailAddress(from: string): string | null {
+  const bracketed = from.match(/<([^>]+)>/);
+  const candidate = (bracketed ? bracketed[1] : from).trim();
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(candidate) ? candidate.toLowerCase() : null;
+}
+
+// The display name of a From header such as `"Jane Doe" <jane@acme.com>`, if it has one
+export function extractSenderName(from: string): string | null {
+  const match = from.match(/^\s*"?([^"<]*?)"?\s*</);
+  const name = match ? match[1].trim() : '';
+  return name && !name.includes('@') ? name : null;
+}
+
+// Automated senders such as no-reply@ or notifications@ are not people to contact
+export function isNoReplyAddress(address: string): boolean {
+  return /^(?:no-?reply|do-?not-?reply|notifications?|mailer-daemon|jobs-noreply)[^@]*@/i.test(address);
+}
+
+export function extractSenderDomain(from: string): string | null {
+  const address = extractEmailAddress(from);
+  return address ? address.split('@')[1] : null;
+}
+
+export function isFreeMailDomain(domain: string): boolean {
+  return matchesDomain(domain, FREE_MAIL_DOMAINS);
+}
+
+export function isAtsDomain(domain: string): boolean {
+  return matchesDomain(domain, ATS_DOMAINS);
+}
+
+// A sender on a shared mail host or ATS tells us nothing about which company the email is from
+export function isGenericSenderDomain(domain: string): boolean {
+  return isFreeMailDomain(domain) || isAtsDomain(domain);
+}
+
+export function normalizeCompanyName(name: string): string {
+  const lower = name.toLowerCase().trim();
+  if (PLACEHOLDER_VALUES.includes(lower)) return '';
+
+  return lower
+    .replace(/^www\./, '')
+    .replace(/\.(com|io|co|ai|net|org|dev)$/, '')
+    .replace(/&/g, ' and ')
+    .replace(/[.,]/g, ' ')
+    .replace(COMPANY_SUFFIXES, ' ')
+    .replace(/[^a-z0-9 ]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function normalizeJobTitle(title: string): string {
+  const lower = title.toLowerCase().trim();
+  if (PLACEHOLDER_VALUES.includes(lower)) return '';
+
+  return lower
+    .replace(/\((?:req|job|id)?[^)]*\d[^)]*\)/g, ' ')
+    .replace(/\b(?:req|job id|requisition)\s*#?\s*[a-z0-9-]*\d[a-z0-9-]*/g, ' ')
+    .replace(/\bsr\b\.?/g, 'senior')
+    .replace(/\bjr\b\.?/g, 'junior')
+    .replace(/\beng\b\.?/g, 'engineer')
+    .replace(/[^a-z0-9+# ]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
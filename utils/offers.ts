@@ -0,0 +1,395 @@
+import type { Offer } from '@prisma/client';
+import { findDateMention } from './interviews';
+import { prisma } from './prisma';
+import type { DeadlineStatus, JobOffer, OfferDetails, OfferInput, RemotePolicy } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Offers whose deadline is this close are flagged in the comparison
+export const DEADLINE_SOON_DAYS = 3;
+const COMPARISON_YEARS = 4;
+const MAX_AMOUNT = 100000000;
+
+const REMOTE_POLICIES: RemotePolicy[] = ['remote', 'hybrid', 'onsite'];
+
+// Fields the offer email can fill in; the user's own edits are never overwritten
+const PREFILLABLE_FIELDS = [
+  'currency',
+  'baseSalary',
+  'annualBonus',
+  'signOnBonus',
+  'equityValue',
+  'equityVesting',
+  'vestingCliffMonths',
+  'location',
+  'remotePolicy',
+  'deadline',
+] as const;
+
+export class OfferInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OfferInputError';
+  }
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = { $: 'USD', '€': 'EUR', '£': 'GBP' };
+
+// "$150,000", "$150k", "USD 150000", "€1.2m"
+const MONEY_SOURCE = '([$€£]|USD|EUR|GBP|CAD|AUD)\\s?(\\d{1,3}(?:,\\d{3})+|\\d+(?:\\.\\d+)?)\\s?(k|m)?\\b';
+// Words between a label and its amount, without running into another number
+const GAP_SOURCE = '[^$€£\\d%\\n]{0,40}?';
+
+const moneyAfter = (label: string) => new RegExp(`${label}${GAP_SOURCE}${MONEY_SOURCE}`, 'i');
+
+const BASE_PATTERNS = [
+  moneyAfter('\\b(?:base (?:salary|pay|compensation)|annual (?:base )?salary|starting salary|salary)\\b'),
+  new RegExp(`${MONEY_SOURCE}\\s+(?:annual |yearly )?base\\b`, 'i'),
+];
+const BONUS_LABEL = '\\b(?:(?:target|annual|yearly|performance) bonus|bonus target)\\b';
+const BONUS_AMOUNT = moneyAfter(BONUS_LABEL);
+const BONUS_PERCENT = new RegExp(`${BONUS_LABEL}${GAP_SOURCE}(\\d{1,2}(?:\\.\\d+)?)\\s?%`, 'i');
+const SIGN_ON_PATTERN = moneyAfter('\\b(?:sign[- ]?on|signing|joining|relocation) bonus\\b');
+const EQUITY_PATTERNS = [
+  moneyAfter('\\b(?:equity|rsus?|restricted stock units|stock options|stock|shares)(?: grant| award| package)?\\b'),
+  new RegExp(`${MONEY_SOURCE}\\s+(?:in|of|worth of)\\s+(?:rsus|equity|stock|shares)\\b`, 'i'),
+];
+
+const NUMBER_WORDS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, twelve: 12 };
+const VESTING_YEARS = /\bvest(?:s|ed|ing)?\b[^.\n]{0,40}?\b(?:over|across)\s+(\d|two|three|four|five)\s+years?\b/i;
+const VESTING_SCHEDULE = /\b(\d{1,2})\s*%?\s*\/\s*(\d{1,2})\s*%?\s*\/\s*(\d{1,2})\s*%?(?:\s*\/\s*(\d{1,2})\s*%?)?(?:\s*\/\s*(\d{1,2})\s*%?)?/;
+const CLIFF_PATTERN = /\b(\d{1,2}|one|six|twelve)[\s-](year|month)s?[\s-]cliff\b/i;
+
+const LOCATION_PATTERN =
+  /\b(?:based (?:in|out of)|located in|work(?:ing)? (?:from|out of)|report(?:ing)? to)\s+(?:our\s+)?([A-Z][A-Za-z.' -]{1,40}?)(?:\s+office\b|[.,;\n])/;
+const DEADLINE_PATTERN =
+  /\b(?:(?:respond|reply|accept|sign(?: and return)?|decision|let us know|get back to us)\b[^.\n]{0,30}?\bby\b|deadline\b|expires?\b|valid until\b)/gi;
+
+function readMoney(match: RegExpMatchArray): { amount: number; currency: string } | null {
+  const [, symbol, digits, scale] = match;
+  let amount = Number(digits.replace(/,/g, ''));
+  if (scale?.toLowerCase() === 'k') amount *= 1000;
+  if (scale?.toLowerCase() === 'm') amount *= 1000000;
+  if (!Number.isFinite(amount) || amount <= 0 || amount > MAX_AMOUNT) return null;
+  return { amount: Math.round(amount), currency: CURRENCY_SYMBOLS[symbol] ?? symbol.toUpperCase() };
+}
+
+function findMoney(text: string, patterns: RegExp[]): { amount: number; currency: string } | null {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    const money = match && readMoney(match);
+    if (money) return money;
+  }
+  return null;
+}
+
+// Even yearly percentages over `years`, with any rounding remainder in the last year
+function evenSchedule(years: number): number[] {
+  const share = Math.floor(100 / years);
+  return Array.from({ length: years }, (_, year) => (year === years - 1 ? 100 - share * (years - 1) : share));
+}
+
+function findVesting(text: string): Pick<OfferDetails, 'equityVesting' | 'vestingCliffMonths'> {
+  const details: Pick<OfferDetails, 'equityVesting' | 'vestingCliffMonths'> = {};
+
+  const schedule = text.match(VESTING_SCHEDULE);
+  const percents = schedule ? schedule.slice(1).filter(Boolean).map(Number) : [];
+  if (percents.length > 0 && percents.reduce((sum, percent) => sum + percent, 0) === 100) {
+    details.equityVesting = percents;
+  } else {
+    const years = text.match(VESTING_YEARS);
+    const count = years ? Number(years[1]) || NUMBER_WORDS[years[1].toLowerCase()] : null;
+    if (count && count !== COMPARISON_YEARS) details.equityVesting = evenSchedule(count);
+  }
+
+  const cliff = text.match(CLIFF_PATTERN);
+  if (cliff) {
+    const amount = Number(cliff[1]) || NUMBER_WORDS[cliff[1].toLowerCase()];
+    details.vestingCliffMonths = cliff[2].toLowerCase() === 'year' ? amount * 12 : amount;
+  }
+
+  return details;
+}
+
+function findRemotePolicy(text: string): RemotePolicy | null {
+  if (/\bhybrid\b/i.test(text)) return 'hybrid';
+  if (/\b(?:fully |100% )?remote\b/i.test(text)) return 'remote';
+  if (/\bon-?site\b|\bin[- ]office\b|\bin the office\b/i.test(text)) return 'onsite';
+  return null;
+}
+
+function findDeadline(text: string, receivedAt: Date): string | null {
+  DEADLINE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = DEADLINE_PATTERN.exec(text))) {
+    const end = match.index + match[0].length;
+    const date = findDateMention(text.slice(end, end + 60), receivedAt);
+    if (date) return date.toISOString();
+  }
+  return null;
+}
+
+/**
+ * Reads what it can of an offer from the email: pay, bonus, equity and vesting,
+ * where and how the job is worked, and the reply deadline. Fields it cannot
+ * find are left out rather than guessed.
+ */
+export function extractOfferDetails({ subject, body }: { subject: string; body: string }, receivedAt: Date): OfferDetails {
+  const text = `${subject}\n${body}`;
+  const details: OfferDetails = {};
+
+  const base = findMoney(text, BASE_PATTERNS);
+  if (base) {
+    details.baseSalary = base.amount;
+    details.currency = base.currency;
+  }
+
+  const bonus = findMoney(text, [BONUS_AMOUNT]);
+  const bonusPercent = text.match(BONUS_PERCENT);
+  if (bonus) {
+    details.annualBonus = bonus.amount;
+  } else if (bonusPercent && base) {
+    details.annualBonus = Math.round((base.amount * Number(bonusPercent[1])) / 100);
+  }
+
+  const signOn = findMoney(text, [SIGN_ON_PATTERN]);
+  if (signOn) details.signOnBonus = signOn.amount;
+
+  const equity = findMoney(text, EQUITY_PATTERNS);
+  if (equity) details.equityValue = equity.amount;
+  Object.assign(details, findVesting(text));
+
+  const location = text.match(LOCATION_PATTERN)?.[1]?.trim();
+  if (location) details.location = location;
+
+  const remotePolicy = findRemotePolicy(text);
+  if (remotePolicy) details.remotePolicy = remotePolicy;
+
+  const deadline = findDeadline(text, receivedAt);
+  if (deadline) details.deadline = deadline;
+
+  return details;
+}
+
+// Percent vesting in each of the first four years
+export function vestingSchedule(equityVesting: number[]): number[] {
+  const schedule = equityVesting.length > 0 ? equityVesting : evenSchedule(COMPARISON_YEARS);
+  return Array.from({ length: COMPARISON_YEARS }, (_, year) => schedule[year] ?? 0);
+}
+
+/**
+ * Totals an offer the same way for every company: salary and target bonus each
+ * year, the sign-on bonus once, and equity as it vests. A cliff past the first
+ * year moves the first vest out of year one.
+ */
+export function computeOfferTotals(
+  offer: Pick<OfferInput, 'baseSalary' | 'annualBonus' | 'signOnBonus' | 'equityValue' | 'equityVesting' | 'vestingCliffMonths'>
+): { firstYearTotal: number; fourYearTotal: number } {
+  const yearly = (offer.baseSalary ?? 0) + (offer.annualBonus ?? 0);
+  const signOn = offer.signOnBonus ?? 0;
+  const equity = offer.equityValue ?? 0;
+  const schedule = vestingSchedule(offer.equityVesting);
+
+  const firstYearEquity = (offer.vestingCliffMonths ?? 0) > 12 ? 0 : (equity * schedule[0]) / 100;
+  const fourYearEquity = (equity * schedule.reduce((sum, percent) => sum + percent, 0)) / 100;
+
+  return {
+    firstYearTotal: Math.round(yearly + signOn + firstYearEquity),
+    fourYearTotal: Math.round(yearly * COMPARISON_YEARS + signOn + fourYearEquity),
+  };
+}
+
+export function getDeadlineStatus(deadline: Date | null, now = new Date()): DeadlineStatus {
+  if (!deadline) return 'none';
+  // Deadlines are calendar days, so one counts as passed only once its day is over
+  const endOfDay = deadline.getTime() + DAY_MS / 2;
+  if (endOfDay < now.getTime()) return 'passed';
+  return endOfDay - now.getTime() <= DEADLINE_SOON_DAYS * DAY_MS ? 'soon' : 'open';
+}
+
+function optionalAmount(value: unknown, field: string): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > MAX_AMOUNT) {
+    throw new OfferInputError(`${field} must be a number between 0 and ${MAX_AMOUNT}`);
+  }
+  return Math.round(value);
+}
+
+function optionalText(value: unknown, field: string, maxLength: number): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string') throw new OfferInputError(`${field} must be a string`);
+  if (value.length > maxLength) throw new OfferInputError(`${field} is too long`);
+  return value.trim() || null;
+}
+
+// Validates the offer form; fields left out are cleared
+export function parseOfferInput(body: unknown): OfferInput {
+  if (!body || typeof body !== 'object') {
+    throw new OfferInputError('Request body must be a JSON object');
+  }
+  const data = body as Record<string, unknown>;
+
+  const currency = optionalText(data.currency, 'currency', 3)?.toUpperCase() ?? 'USD';
+  if (!/^[A-Z]{3}$/.test(currency)) throw new OfferInputError('currency must be a three-letter code');
+
+  const equityVesting = data.equityVesting ?? [];
+  if (
+    !Array.isArray(equityVesting) ||
+    equityVesting.length > 10 ||
+    equityVesting.some((percent) => !Number.isInteger(percent) || percent < 0 || percent > 100)
+  ) {
+    throw new OfferInputError('equityVesting must be a list of whole percentages');
+  }
+  if (equityVesting.length > 0 && equityVesting.reduce((sum: number, percent: number) => sum + percent, 0) !== 100) {
+    throw new OfferInputError('equityVesting must add up to 100');
+  }
+
+  const cliff = data.vestingCliffMonths;
+  if (cliff !== undefined && cliff !== null && (!Number.isInteger(cliff) || (cliff as number) < 0 || (cliff as number) > 60)) {
+    throw new OfferInputError('vestingCliffMonths must be a whole number of months up to 60');
+  }
+
+  const remotePolicy = data.remotePolicy ?? null;
+  if (remotePolicy !== null && !REMOTE_POLICIES.includes(remotePolicy as RemotePolicy)) {
+    throw new OfferInputError(`remotePolicy must be one of: ${REMOTE_POLICIES.join(', ')}`);
+  }
+
+  const deadline = optionalText(data.deadline, 'deadline', 40);
+  if (deadline && Number.isNaN(new Date(deadline).getTime())) {
+    throw new OfferInputError('deadline must be a valid date');
+  }
+
+  return {
+    currency,
+    baseSalary: optionalAmount(data.baseSalary, 'baseSalary'),
+    annualBonus: optionalAmount(data.annualBonus, 'annualBonus'),
+    signOnBonus: optionalAmount(data.signOnBonus, 'signOnBonus'),
+    equityValue: optionalAmount(data.equityValue, 'equityValue'),
+    equityVesting: equityVesting as number[],
+    vestingCliffMonths: (cliff as number | null | undefined) ?? null,
+    benefitsNotes: optionalText(data.benefitsNotes, 'benefitsNotes', 5000),
+    location: optionalText(data.location, 'location', 200),
+    remotePolicy: remotePolicy as RemotePolicy | null,
+    deadline: deadline ? new Date(deadline).toISOString() : null,
+  };
+}
+
+type OfferWithApplication = Offer & { application: { companyName: string; jobProfile: string } };
+
+function toJobOffer(offer: OfferWithApplication, now = new Date()): JobOffer {
+  return {
+    id: offer.id,
+    applicationId: offer.applicationId,
+    companyName: offer.application.companyName,
+    jobProfile: offer.application.jobProfile,
+    currency: offer.currency,
+    baseSalary: offer.baseSalary,
+    annualBonus: offer.annualBonus,
+    signOnBonus: offer.signOnBonus,
+    equityValue: offer.equityValue,
+    equityVesting: offer.equityVesting,
+    vestingCliffMonths: offer.vestingCliffMonths,
+    benefitsNotes: offer.benefitsNotes,
+    location: offer.location,
+    remotePolicy: offer.remotePolicy as RemotePolicy | null,
+    deadline: offer.deadline?.toISOString() ?? null,
+    prefilledFields: offer.prefilledFields,
+    ...computeOfferTotals(offer),
+    deadlineStatus: getDeadlineStatus(offer.deadline, now),
+  };
+}
+
+const withApplication = { application: { select: { companyName: true, jobProfile: true } } } as const;
+
+// Offers with the best four-year value first
+export async function listOffers(userId: string): Promise<JobOffer[]> {
+  const offers = await prisma.offer.findMany({
+    where: { application: { userId } },
+    include: withApplication,
+  });
+  return offers.map((offer) => toJobOffer(offer)).sort((a, b) => b.fourYearTotal - a.fourYearTotal);
+}
+
+function toOfferData(details: OfferDetails) {
+  return {
+    ...details,
+    ...(details.deadline !== undefined ? { deadline: details.deadline ? new Date(details.deadline) : null } : {}),
+  };
+}
+
+const isEmpty = (value: unknown) => value === null || value === undefined || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Fills in an application's offer from an offer email. Only fields still empty
+ * are written, so details the user entered or corrected stay as they are, and
+ * fields the user cleared stay empty. An offer the user deleted is not re-created.
+ */
+export async function saveOfferDetails(applicationId: string, details: OfferDetails | null): Promise<void> {
+  if (!details) return;
+  const found = PREFILLABLE_FIELDS.filter((field) => !isEmpty(details[field]));
+  if (found.length === 0) return;
+
+  const application = await prisma.application.findUnique({
+    where: { id: applicationId },
+    select: { offerDismissedAt: true, offer: true },
+  });
+  if (!application || application.offerDismissedAt) return;
+
+  const existing = application.offer;
+  const fill = existing
+    ? found.filter((field) => isEmpty(existing[field]) && !existing.clearedFields.includes(field))
+    : found;
+  if (fill.length === 0) return;
+
+  const data = toOfferData(Object.fromEntries(fill.map((field) => [field, details[field]])) as OfferDetails);
+  const prefilledFields = Array.from(new Set([...(existing?.prefilledFields ?? []), ...fill]));
+
+  await prisma.offer.upsert({
+    where: { applicationId },
+    update: { ...data, prefilledFields },
+    create: { applicationId, ...data, prefilledFields },
+  });
+}
+
+/**
+ * Saves the offer form. Fields the user changed stop counting as prefilled, and
+ * fields they emptied are remembered so offer emails leave them empty. Saving
+ * an offer by hand undoes an earlier deletion. Returns null when the
+ * application does not belong to the user.
+ */
+export async function saveOffer(userId: string, applicationId: string, input: OfferInput): Promise<JobOffer | null> {
+  const application = await prisma.application.findFirst({ where: { id: applicationId, userId } });
+  if (!application) return null;
+
+  const existing = await prisma.offer.findUnique({ where: { applicationId } });
+  const data = toOfferData(input);
+  const unchanged = (field: (typeof PREFILLABLE_FIELDS)[number]) =>
+    JSON.stringify(existing?.[field] ?? null) === JSON.stringify(data[field] ?? null);
+  const prefilledFields = (existing?.prefilledFields ?? []).filter((field) =>
+    unchanged(field as (typeof PREFILLABLE_FIELDS)[number])
+  );
+  const clearedFields = PREFILLABLE_FIELDS.filter(
+    (field) =>
+      isEmpty(data[field]) &&
+      (existing?.clearedFields.includes(field) || (existing && !isEmpty(existing[field]) && !unchanged(field)))
+  );
+
+  if (application.offerDismissedAt) {
+    await prisma.application.update({ where: { id: applicationId }, data: { offerDismissedAt: null } });
+  }
+  const offer = await prisma.offer.upsert({
+    where: { applicationId },
+    update: { ...data, prefilledFields, clearedFields },
+    create: { applicationId, ...data },
+    include: withApplication,
+  });
+  return toJobOffer(offer);
+}
+
+export async function deleteOffer(userId: string, applicationId: string): Promise<boolean> {
+  const { count } = await prisma.offer.deleteMany({ where: { applicationId, application: { userId } } });
+  if (count === 0) return false;
+
+  await prisma.application.update({ where: { id: applicationId }, data: { offerDismissedAt: new Date() } });
+  return true;
+}
@@ -0,0 +1,10 @@
+import { PrismaClient } from '@prisma/client';
+
+// Reuse a single client across hot reloads in development
+const globalForPrisma = globalThis as unknown as { prisma?: PrismaClient };
+
+export const prisma = globalForPrisma.prisma ?? new PrismaClient();
+
+if (process.env.NODE_ENV !== 'production') {
+  globalForPrisma.prisma = prisma;
+}
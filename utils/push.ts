@@ -0,0 +1,133 @@
+import { timingSafeEqual } from 'crypto';
+import { google } from 'googleapis';
+import { isNewerHistoryId } from './gmail';
+import { prisma } from './prisma';
+import { syncUserInBackground } from './syncWorker';
+
+export class PushPayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PushPayloadError';
+  }
+}
+
+// What Gmail publishes when a watched mailbox changes
+export interface GmailPushNotification {
+  emailAddress: string;
+  historyId: string;
+}
+
+export type PushOutcome = 'queued' | 'stale' | 'unknown_user';
+
+// Users with a notification not yet synced, drained one at a time in the background
+const pendingUsers = new Set<string>();
+let draining = false;
+
+export function isPushVerificationConfigured(): boolean {
+  return !!(process.env.GMAIL_PUSH_TOKEN || process.env.GMAIL_PUSH_AUDIENCE);
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Checks that a push request came from our Pub/Sub subscription. With
+ * GMAIL_PUSH_TOKEN set the subscription URL must carry ?token=<value>; with
+ * GMAIL_PUSH_AUDIENCE set the request must carry a Google-signed OIDC token for
+ * that audience, from GMAIL_PUSH_SERVICE_ACCOUNT when that is set too. When both
+ * are configured both must pass.
+ */
+export async function verifyPushRequest(request: Request): Promise<boolean> {
+  const sharedToken = process.env.GMAIL_PUSH_TOKEN;
+  if (sharedToken && !safeEqual(new URL(request.url).searchParams.get('token') ?? '', sharedToken)) {
+    return false;
+  }
+
+  const audience = process.env.GMAIL_PUSH_AUDIENCE;
+  if (audience) {
+    const idToken = request.headers.get('authorization')?.match(/^Bearer (.+)$/)?.[1];
+    if (!idToken) return false;
+
+    try {
+      const ticket = await new google.auth.OAuth2().verifyIdToken({ idToken, audience });
+      const payload = ticket.getPayload();
+      const serviceAccount = process.env.GMAIL_PUSH_SERVICE_ACCOUNT;
+      if (!payload?.email_verified || (serviceAccount && payload.email !== serviceAccount)) return false;
+    } catch (error) {
+      console.warn('Rejected push request with an invalid OIDC token:', error);
+      return false;
+    }
+  }
+
+  return isPushVerificationConfigured();
+}
+
+/**
+ * Unwraps a Pub/Sub push body: { message: { data: base64(JSON) }, subscription }.
+ */
+export function parsePushPayload(body: unknown): GmailPushNotification {
+  const data = (body as { message?: { data?: unknown } } | null)?.message?.data;
+  if (typeof data !== 'string') {
+    throw new PushPayloadError('Body must be a Pub/Sub push message with base64 data');
+  }
+
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(data, 'base64').toString('utf8'));
+  } catch {
+    throw new PushPayloadError('Message data is not base64-encoded JSON');
+  }
+
+  const { emailAddress, historyId } = (decoded ?? {}) as Record<string, unknown>;
+  if (typeof emailAddress !== 'string' || !emailAddress.includes('@')) {
+    throw new PushPayloadError('Message data has no emailAddress');
+  }
+  if ((typeof historyId !== 'string' && typeof historyId !== 'number') || !/^\d+$/.test(String(historyId))) {
+    throw new PushPayloadError('Message data has no numeric historyId');
+  }
+
+  return { emailAddress: emailAddress.toLowerCase(), historyId: String(historyId) };
+}
+
+async function drainQueue(): Promise<void> {
+  if (draining) return;
+  draining = true;
+  try {
+    while (pendingUsers.size > 0) {
+      const [userId] = pendingUsers;
+      pendingUsers.delete(userId);
+      try {
+        await syncUserInBackground(userId);
+      } catch (error) {
+        console.error(`Push-triggered sync failed for user ${userId}:`, error);
+      }
+    }
+  } finally {
+    draining = false;
+  }
+}
+
+/**
+ * Schedules an incremental sync for the mailbox in the notification and returns
+ * at once, since Pub/Sub expects a quick acknowledgement. Notifications for a
+ * user already waiting are coalesced, and ones older than the user's sync
+ * checkpoint are dropped.
+ */
+export async function queuePushSync(notification: GmailPushNotification): Promise<PushOutcome> {
+  const user = await prisma.user.findFirst({
+    where: { email: { equals: notification.emailAddress, mode: 'insensitive' } },
+    select: { id: true, historyId: true },
+  });
+  if (!user) return 'unknown_user';
+
+  if (user.historyId && !isNewerHistoryId(notification.historyId, user.historyId)) {
+    return 'stale';
+  }
+
+  pendingUsers.add(user.id);
+  void drainQueue();
+  return 'queued';
+}
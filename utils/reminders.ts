@@ -0,0 +1,106 @@
+import { prisma } from './prisma';
+import type { ApplicationStatus } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_SNOOZE_DAYS = 7;
+
+// Rejected and Offer are outcomes; there is nothing left to chase
+const OPEN_STATUSES: ApplicationStatus[] = ['Applied', 'Application Received', 'Interview'];
+
+export class ReminderInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReminderInputError';
+  }
+}
+
+export interface FollowUpState {
+  applicationStatus: string;
+  date: Date | null;
+  createdAt: Date;
+  reminderSnoozedUntil: Date | null;
+  reminderDismissedAt: Date | null;
+  statusEvents: { date: Date }[];
+}
+
+export function lastActivityAt(application: FollowUpState): Date {
+  return application.statusEvents.reduce(
+    (latest, event) => (event.date > latest ? event.date : latest),
+    application.date ?? application.createdAt
+  );
+}
+
+/**
+ * An open application needs a follow-up once nothing has happened on it for
+ * `followUpAfterDays`, unless it is snoozed or was dismissed since its last activity.
+ */
+export function needsFollowUp(application: FollowUpState, followUpAfterDays: number, now = new Date()): boolean {
+  if (!OPEN_STATUSES.includes(application.applicationStatus as ApplicationStatus)) return false;
+  if (application.reminderSnoozedUntil && application.reminderSnoozedUntil > now) return false;
+
+  const activity = lastActivityAt(application);
+  if (application.reminderDismissedAt && application.reminderDismissedAt >= activity) return false;
+
+  return now.getTime() - activity.getTime() >= followUpAfterDays * DAY_MS;
+}
+
+export function parseFollowUpAfterDays(value: unknown): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > 365) {
+    throw new ReminderInputError('followUpAfterDays must be a whole number between 1 and 365');
+  }
+  return value;
+}
+
+export async function setFollowUpAfterDays(userId: string, days: number): Promise<void> {
+  await prisma.user.update({ where: { id: userId }, data: { followUpAfterDays: days } });
+}
+
+export async function snoozeReminder(userId: string, applicationId: string, days = DEFAULT_SNOOZE_DAYS): Promise<boolean> {
+  const { count } = await prisma.application.updateMany({
+    where: { id: applicationId, userId },
+    data: { reminderSnoozedUntil: new Date(Date.now() + days * DAY_MS) },
+  });
+  return count > 0;
+}
+
+export async function dismissReminder(userId: string, applicationId: string): Promise<boolean> {
+  const { count } = await prisma.application.updateMany({
+    where: { id: applicationId, userId },
+    data: { reminderDismissedAt: new Date(), reminderSnoozedUntil: null },
+  });
+  return count > 0;
+}
+
+/**
+ * Returns the ids of applications that went stale since the user was last told
+ * about them, and records that they have now been notified.
+ */
+export async function collectNewlyStale(userId: string, now = new Date()): Promise<string[]> {
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+  const applications = await prisma.application.findMany({
+    where: { userId, applicationStatus: { in: OPEN_STATUSES } },
+    include: { statusEvents: { select: { date: true } } },
+  });
+
+  const newlyStale = applications
+    .filter((application) => needsFollowUp(application, user.followUpAfterDays, now))
+    .filter((application) => {
+      // Notify again once newer activity has gone quiet too, or once a snooze has run out
+      const { staleNotifiedAt, reminderSnoozedUntil } = application;
+      if (!staleNotifiedAt) return true;
+      return (
+        staleNotifiedAt < lastActivityAt(application) ||
+        (!!reminderSnoozedUntil && staleNotifiedAt < reminderSnoozedUntil)
+      );
+    })
+    .map((application) => application.id);
+
+  if (newlyStale.length > 0) {
+    await prisma.application.updateMany({
+      where: { id: { in: newlyStale } },
+      data: { staleNotifiedAt: now },
+    });
+  }
+  return newlyStale;
+}
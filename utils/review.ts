@@ -0,0 +1,91 @@
+import type { EmailMessage } from '@prisma/client';
+import { saveEmailInfos } from './applications';
+import { recordSenderVerdict } from './feedback';
+import { prisma } from './prisma';
+import type { ApplicationStatus, EmailInfo, FieldConfidence, ReviewAction, ReviewItem } from './types';
+
+export class ReviewInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReviewInputError';
+  }
+}
+
+export function parseReviewAction(body: unknown): ReviewAction {
+  const action = body && typeof body === 'object' ? (body as Record<string, unknown>).action : undefined;
+  if (action !== 'confirm' && action !== 'dismiss') {
+    throw new ReviewInputError('action must be confirm or dismiss');
+  }
+  return action;
+}
+
+function toReviewItem(message: EmailMessage): ReviewItem {
+  return {
+    id: message.id,
+    subject: message.subject,
+    from: message.from,
+    date: message.date?.toISOString() ?? null,
+    companyName: message.companyName,
+    jobProfile: message.jobProfile,
+    applicationStatus: message.applicationStatus as ApplicationStatus,
+    isJobApplication: message.isJobApplication,
+    confidence: message.confidence as unknown as FieldConfidence | null,
+  };
+}
+
+// The stored classification, in the shape sync hands to saveEmailInfos
+function toEmailInfo(message: EmailMessage): EmailInfo {
+  return {
+    id: message.gmailId,
+    threadId: message.threadId,
+    isJobApplication: true,
+    companyName: message.companyName,
+    jobProfile: message.jobProfile,
+    applicationStatus: message.applicationStatus,
+    confidence: message.confidence as unknown as FieldConfidence,
+    date: message.date?.toISOString() ?? null,
+    originalSubject: message.subject,
+    snippet: message.snippet,
+    from: message.from,
+    senderAddress: message.senderAddress,
+    senderDomain: message.senderAddress?.split('@')[1] ?? null,
+    fromCache: false,
+    // Scheduling, offer and signature details are read again when the message is next synced
+    interview: null,
+    offer: null,
+    contact: null,
+  };
+}
+
+export async function listReviewQueue(userId: string): Promise<ReviewItem[]> {
+  const messages = await prisma.emailMessage.findMany({
+    where: { userId, reviewState: 'pending' },
+    orderBy: { date: 'desc' },
+  });
+  return messages.map(toReviewItem);
+}
+
+/**
+ * Confirming a message adds it to the dashboard like any synced email;
+ * dismissing it keeps it off for good. Either way the verdict is remembered for
+ * the sender, so its later mail skips the queue. Returns false when no pending
+ * message has that id.
+ */
+export async function resolveReview(userId: string, id: string, action: ReviewAction): Promise<boolean> {
+  const message = await prisma.emailMessage.findFirst({ where: { id, userId, reviewState: 'pending' } });
+  if (!message) return false;
+
+  if (action === 'dismiss') {
+    await prisma.emailMessage.update({ where: { id }, data: { reviewState: 'dismissed', ignored: true } });
+    await recordSenderVerdict(userId, message.senderAddress, 'not_job');
+    return true;
+  }
+
+  const confirmed = await prisma.emailMessage.update({
+    where: { id },
+    data: { reviewState: 'confirmed', isJobApplication: true },
+  });
+  await recordSenderVerdict(userId, message.senderAddress, 'job');
+  await saveEmailInfos(userId, [toEmailInfo(confirmed)]);
+  return true;
+}
@@ -0,0 +1,277 @@
+import type { Prisma } from '@prisma/client';
+import {
+  APPLICATION_STATUSES,
+  PRIORITIES,
+  type ApplicationSource,
+  type ApplicationStatus,
+  type CustomFieldDefinition,
+  type Priority,
+} from './types';
+
+export class SearchQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SearchQueryError';
+  }
+}
+
+// A parsed dashboard search; every part must match, and any one of several statuses will do
+export interface ApplicationSearch {
+  terms: string[];
+  statuses: ApplicationStatus[];
+  companies: string[];
+  roles: string[];
+  senders: string[];
+  tags: string[];
+  priorities: Priority[];
+  // Operators that are not built in, resolved against the user's custom fields
+  fields: { operator: string; value: string; token: string }[];
+  source: ApplicationSource | null;
+  // YYYY-MM-DD; after is inclusive and before exclusive, like Gmail's operators
+  after: string | null;
+  before: string | null;
+}
+
+// `key:value`, `key:"quoted value"`, `"quoted phrase"` or a bare word
+const TOKEN = /(\w+):"([^"]*)"|(\w+):(\S+)|"([^"]*)"|(\S+)/g;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Operator names; custom fields may not use these
+export const SEARCH_OPERATORS = ['status', 'company', 'role', 'from', 'tag', 'priority', 'source', 'after', 'before'];
+
+const squash = (value: string) => value.toLowerCase().replace(/[\s_-]+/g, '');
+
+// How a custom field's name is written as an operator: "Referral source" is referralsource:
+export const operatorKey = squash;
+
+// "interview", "Application Received", "received" or "app" all name statuses
+function matchStatuses(value: string): ApplicationStatus[] {
+  const wanted = squash(value);
+  const exact = APPLICATION_STATUSES.filter((status) => squash(status) === wanted);
+  if (exact.length > 0) return exact;
+
+  const partial = APPLICATION_STATUSES.filter((status) =>
+    status.toLowerCase().split(' ').some((word) => word.startsWith(wanted))
+  );
+  if (partial.length === 0) {
+    throw new SearchQueryError(`Unknown status "${value}"; use one of: ${APPLICATION_STATUSES.join(', ')}`);
+  }
+  return partial;
+}
+
+function matchPriority(value: string): Priority {
+  const priority = PRIORITIES.find((known) => known === value.toLowerCase());
+  if (!priority) throw new SearchQueryError(`Unknown priority "${value}"; use one of: ${PRIORITIES.join(', ')}`);
+  return priority;
+}
+
+// Round-tripping rejects days a month does not have, which Date would roll over (2026-02-31 to March 3)
+function parseDate(value: string, operator: string): string {
+  const date = new Date(`${value}T00:00:00Z`);
+  if (!DATE.test(value) || Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value) {
+    throw new SearchQueryError(`${operator}: needs a date like 2026-01-31`);
+  }
+  return value;
+}
+
+function emptySearch(): ApplicationSearch {
+  return {
+    terms: [],
+    statuses: [],
+    companies: [],
+    roles: [],
+    senders: [],
+    tags: [],
+    priorities: [],
+    fields: [],
+    source: null,
+    after: null,
+    before: null,
+  };
+}
+
+/**
+ * Parses the dashboard search box, e.g. `status:interview company:acme after:2026-01-01 "data platform"`.
+ * Operators: status and priority (comma-separated for several), company, role,
+ * from, tag, source, after and before. Other operators may name a custom field;
+ * buildSearchWhere searches them as text when no field matches.
+ */
+export function parseSearchQuery(query: string): ApplicationSearch {
+  const search = emptySearch();
+
+  TOKEN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN.exec(query)) !== null) {
+    const operator = (match[1] ?? match[3])?.toLowerCase();
+    const value = (match[2] ?? match[4] ?? match[5] ?? match[6] ?? '').trim();
+    if (!value) continue;
+
+    switch (operator) {
+      case 'status':
+        for (const part of value.split(',').filter(Boolean)) search.statuses.push(...matchStatuses(part));
+        break;
+      case 'company':
+        search.companies.push(value);
+        break;
+      case 'role':
+        search.roles.push(value);
+        break;
+      case 'from':
+        search.senders.push(value);
+        break;
+      case 'tag':
+        search.tags.push(value.toLowerCase());
+        break;
+      case 'priority':
+        for (const part of value.split(',').filter(Boolean)) search.priorities.push(matchPriority(part));
+        break;
+      case 'source':
+        if (value !== 'email' && value !== 'manual') throw new SearchQueryError('source: must be email or manual');
+        search.source = value;
+        break;
+      case 'after':
+      case 'before':
+        search[operator] = parseDate(value, operator);
+        break;
+      default:
+        if (operator) search.fields.push({ operator, value, token: match[0] });
+        else search.terms.push(value);
+    }
+  }
+
+  search.statuses = Array.from(new Set(search.statuses));
+  search.priorities = Array.from(new Set(search.priorities));
+  return search;
+}
+
+/**
+ * Reads a search from dashboard URL parameters: the search box in `q`, plus
+ * the status picker (`status`, comma-separated) and date range (`after`, `before`).
+ */
+export function searchFromParams(params: URLSearchParams): ApplicationSearch {
+  const search = parseSearchQuery(params.get('q') ?? '');
+
+  const statuses = (params.get('status') ?? '').split(',').filter(Boolean);
+  for (const value of statuses) {
+    const status = APPLICATION_STATUSES.find((known) => known.toLowerCase() === value.toLowerCase());
+    if (!status) throw new SearchQueryError(`Unknown status "${value}"`);
+    if (!search.statuses.includes(status)) search.statuses.push(status);
+  }
+
+  const after = params.get('after');
+  const before = params.get('before');
+  if (after) search.after = parseDate(after, 'after');
+  if (before) search.before = parseDate(before, 'before');
+  return search;
+}
+
+const contains = (value: string) => ({ contains: value, mode: 'insensitive' as const });
+
+// `>5`, `<=2026-03-01` or a plain value
+const COMPARISON = /^(>=|<=|>|<)?(.+)$/;
+
+/**
+ * Filter on one custom field's value. Text fields match a substring in any
+ * case, select fields an option, and number and date fields a value or a
+ * comparison.
+ */
+function customFieldCondition(field: CustomFieldDefinition, value: string): Prisma.ApplicationWhereInput {
+  const path = [field.id];
+
+  if (field.type === 'text') {
+    return { customSearchValues: { path, string_contains: value.toLowerCase() } };
+  }
+  if (field.type === 'select') {
+    const option = field.options.find((known) => known.toLowerCase() === value.toLowerCase());
+    if (!option) throw new SearchQueryError(`${field.name} must be one of: ${field.options.join(', ')}`);
+    return { customValues: { path, equals: option } };
+  }
+
+  const [, comparison, operand] = COMPARISON.exec(value)!;
+  let target: string | number;
+  if (field.type === 'number') {
+    target = Number(operand);
+    if (!Number.isFinite(target)) throw new SearchQueryError(`${field.name} needs a number, like >50000`);
+  } else {
+    target = parseDate(operand, operatorKey(field.name));
+  }
+
+  switch (comparison) {
+    case '>':
+      return { customValues: { path, gt: target } };
+    case '>=':
+      return { customValues: { path, gte: target } };
+    case '<':
+      return { customValues: { path, lt: target } };
+    case '<=':
+      return { customValues: { path, lte: target } };
+    default:
+      return { customValues: { path, equals: target } };
+  }
+}
+
+/**
+ * Prisma filter for a search. Free text matches the application's own fields
+ * and tags, and the subject, snippet and sender of any of its emails.
+ */
+export function buildSearchWhere(
+  search: ApplicationSearch,
+  customFields: CustomFieldDefinition[] = []
+): Prisma.ApplicationWhereInput {
+  const conditions: Prisma.ApplicationWhereInput[] = [];
+  const terms = [...search.terms];
+
+  for (const { operator, value, token } of search.fields) {
+    const field = customFields.find((known) => operatorKey(known.name) === operatorKey(operator));
+    if (field) conditions.push(customFieldCondition(field, value));
+    else terms.push(token);
+  }
+
+  if (search.statuses.length > 0) conditions.push({ applicationStatus: { in: search.statuses } });
+  if (search.priorities.length > 0) conditions.push({ priority: { in: search.priorities } });
+  for (const tag of search.tags) conditions.push({ tags: { has: tag } });
+  if (search.source) conditions.push({ source: search.source });
+  if (search.after) conditions.push({ date: { gte: new Date(`${search.after}T00:00:00Z`) } });
+  if (search.before) conditions.push({ date: { lt: new Date(`${search.before}T00:00:00Z`) } });
+
+  for (const company of search.companies) {
+    conditions.push({ OR: [{ companyName: contains(company) }, { company: { name: contains(company) } }] });
+  }
+  for (const role of search.roles) {
+    conditions.push({ jobProfile: contains(role) });
+  }
+  for (const sender of search.senders) {
+    conditions.push({
+      OR: [
+        { from: contains(sender) },
+        { emails: { some: { OR: [{ from: contains(sender) }, { senderAddress: contains(sender) }] } } },
+      ],
+    });
+  }
+  for (const term of terms) {
+    conditions.push({
+      OR: [
+        { companyName: contains(term) },
+        { jobProfile: contains(term) },
+        { notes: contains(term) },
+        { location: contains(term) },
+        { from: contains(term) },
+        { tags: { has: term.toLowerCase() } },
+        {
+          emails: {
+            some: {
+              OR: [
+                { subject: contains(term) },
+                { snippet: contains(term) },
+                { from: contains(term) },
+                { senderAddress: contains(term) },
+              ],
+            },
+          },
+        },
+      ],
+    });
+  }
+
+  return { AND: conditions };
+}
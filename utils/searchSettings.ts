@@ -0,0 +1,138 @@
+import { listMessageIds, type GmailClient } from './gmail';
+import { mapWithConcurrency } from './ingest';
+import { prisma } from './prisma';
+import type { SearchPreview, SearchSettings } from './types';
+
+export const DEFAULT_SEARCH_TERMS = ['job', 'application', 'applied', 'position', 'opportunity', 'software'];
+
+const MAX_ENTRIES = 50;
+const MAX_ENTRY_LENGTH = 100;
+const PREVIEW_LIMIT = 20;
+const PREVIEW_CONCURRENCY = 5;
+
+const SENDER_PATTERN = /^(?:[^\s@()"]+@)?[a-z0-9-]+(?:\.[a-z0-9-]+)+$/i;
+
+export class SearchSettingsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SearchSettingsError';
+  }
+}
+
+// Multi-word terms become quoted phrases
+function formatTerm(term: string): string {
+  const clean = term.replace(/\s+/g, ' ').trim();
+  return /\s/.test(clean) ? `"${clean}"` : clean;
+}
+
+// Gmail writes label names in searches with dashes for spaces and slashes
+const formatLabel = (label: string) => `label:${label.trim().toLowerCase().replace(/[\s/]+/g, '-')}`;
+
+const anyOf = (items: string[]) => (items.length === 1 ? items[0] : `(${items.join(' OR ')})`);
+
+/**
+ * Builds the Gmail query for a user's settings: messages whose subject has any
+ * search term, or from an always-included sender, within the chosen labels and
+ * never from an excluded sender.
+ */
+export function buildSearchQuery(settings: SearchSettings): string {
+  const terms = (settings.searchTerms.length > 0 ? settings.searchTerms : DEFAULT_SEARCH_TERMS).map(formatTerm);
+  let match = `subject:${anyOf(terms)}`;
+  if (settings.includeSenders.length > 0) {
+    match = `(${match} OR from:${anyOf(settings.includeSenders)})`;
+  }
+
+  const clauses = [match];
+  if (settings.labelFilters.length > 0) {
+    clauses.push(anyOf(settings.labelFilters.map(formatLabel)));
+  }
+  if (settings.excludeSenders.length > 0) {
+    clauses.push(`-from:${anyOf(settings.excludeSenders)}`);
+  }
+  return clauses.join(' ');
+}
+
+interface EntryRule {
+  test: (entry: string) => boolean;
+  problem: string;
+}
+
+const SENDER_RULE: EntryRule = { test: (entry) => SENDER_PATTERN.test(entry), problem: 'is not a domain or email address' };
+const QUERY_TEXT_RULE: EntryRule = { test: (entry) => /^[^"(){}]+$/.test(entry), problem: 'cannot contain quotes, parentheses or braces' };
+
+function parseList(value: unknown, field: keyof SearchSettings, rule: EntryRule): string[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some((entry) => typeof entry !== 'string')) {
+    throw new SearchSettingsError(`${field} must be an array of strings`);
+  }
+
+  const entries = Array.from(new Set((value as string[]).map((entry) => entry.trim()).filter(Boolean)));
+  if (entries.length > MAX_ENTRIES) {
+    throw new SearchSettingsError(`${field} can have at most ${MAX_ENTRIES} entries`);
+  }
+
+  for (const entry of entries) {
+    if (entry.length > MAX_ENTRY_LENGTH) throw new SearchSettingsError(`${field} entries must be at most ${MAX_ENTRY_LENGTH} characters`);
+    if (!rule.test(entry)) throw new SearchSettingsError(`${field} entry "${entry}" ${rule.problem}`);
+  }
+  return entries;
+}
+
+export function parseSearchSettings(body: unknown): SearchSettings {
+  if (!body || typeof body !== 'object') {
+    throw new SearchSettingsError('Request body must be a JSON object');
+  }
+
+  const data = body as Record<string, unknown>;
+  const lowercase = (entries: string[]) => entries.map((entry) => entry.toLowerCase());
+  return {
+    searchTerms: parseList(data.searchTerms, 'searchTerms', QUERY_TEXT_RULE),
+    labelFilters: parseList(data.labelFilters, 'labelFilters', QUERY_TEXT_RULE),
+    includeSenders: lowercase(parseList(data.includeSenders, 'includeSenders', SENDER_RULE)),
+    excludeSenders: lowercase(parseList(data.excludeSenders, 'excludeSenders', SENDER_RULE)),
+  };
+}
+
+export async function getSearchSettings(userId: string): Promise<SearchSettings> {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { searchTerms: true, labelFilters: true, includeSenders: true, excludeSenders: true },
+  });
+  return user;
+}
+
+export async function saveSearchSettings(userId: string, settings: SearchSettings): Promise<void> {
+  await prisma.user.update({ where: { id: userId }, data: settings });
+}
+
+export async function getUserSearchQuery(userId: string): Promise<string> {
+  return buildSearchQuery(await getSearchSettings(userId));
+}
+
+/**
+ * Lists the most recent messages a draft of the settings would match, reading
+ * only their headers, so the user can check it before saving.
+ */
+export async function previewSearch(gmail: GmailClient, settings: SearchSettings): Promise<SearchPreview> {
+  const query = buildSearchQuery(settings);
+  const ids = await listMessageIds(gmail, query, PREVIEW_LIMIT);
+
+  const messages = await mapWithConcurrency(ids, PREVIEW_CONCURRENCY, async (id) => {
+    const { data } = await gmail.users.messages.get({
+      userId: 'me',
+      id,
+      format: 'metadata',
+      metadataHeaders: ['Subject', 'From', 'Date'],
+    });
+    const header = (name: string) => data.payload?.headers?.find((h) => h.name === name)?.value ?? '';
+    const date = header('Date');
+    return {
+      id,
+      subject: header('Subject'),
+      from: header('From'),
+      date: date && !Number.isNaN(new Date(date).getTime()) ? new Date(date).toISOString() : null,
+    };
+  });
+
+  return { query, messages };
+}
@@ -0,0 +1,207 @@
+import { assignUnresolvedApplications } from './companies';
+import { assignUnlinkedMessages } from './contacts';
+import { getMailboxHistoryId, listMessageIds, type GmailClient } from './gmail';
+import { buildJobQuery, ingestMessages, type IngestResult } from './ingest';
+import { prisma } from './prisma';
+import { getUserSearchQuery } from './searchSettings';
+import type { EmailInfo } from './types';
+
+// Used when there is no usable history checkpoint
+const RESCAN_WINDOW = '7d';
+const RESCAN_LIMIT = 100;
+
+// Slack for clock skew between Gmail's internalDate and our checkpoint timestamp
+const AFTER_MARGIN_SECONDS = 60 * 60;
+
+const SKIPPED_LABELS = ['SENT', 'DRAFT', 'SPAM', 'TRASH'];
+
+// A message that keeps failing is given up on after this many syncs
+const MAX_MESSAGE_ATTEMPTS = 5;
+
+export interface SyncResult {
+  emails: EmailInfo[];
+  failed: number;
+  mode: 'history' | 'rescan';
+}
+
+// Gmail answers 404 once a startHistoryId is older than it keeps history for (about a week)
+function isHistoryExpired(error: unknown): boolean {
+  const { code, status } = (error ?? {}) as { code?: number | string; status?: number };
+  return code === 404 || code === '404' || status === 404;
+}
+
+async function listAddedSince(
+  gmail: GmailClient,
+  startHistoryId: string
+): Promise<{ ids: string[]; historyId: string }> {
+  const added = new Set<string>();
+  let historyId = startHistoryId;
+  let pageToken: string | undefined;
+
+  do {
+    const response = await gmail.users.history.list({
+      userId: 'me',
+      startHistoryId,
+      historyTypes: ['messageAdded'],
+      pageToken,
+    });
+
+    for (const record of response.data.history || []) {
+      for (const { message } of record.messagesAdded || []) {
+        if (!message?.id) continue;
+        if (message.labelIds?.some((label) => SKIPPED_LABELS.includes(label))) continue;
+        added.add(message.id);
+      }
+    }
+
+    historyId = response.data.historyId ?? historyId;
+    pageToken = response.data.nextPageToken ?? undefined;
+  } while (pageToken);
+
+  return { ids: Array.from(added), historyId };
+}
+
+export async function saveSyncCheckpoint(userId: string, historyId: string | null, syncedAt = new Date()) {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { historyId, lastSyncedAt: syncedAt },
+  });
+}
+
+// Remembers which messages failed so later syncs retry them, and forgets those that succeeded
+async function recordFailedMessages(userId: string, attemptedIds: string[], failedIds: string[]): Promise<void> {
+  const failed = new Set(failedIds);
+  const succeeded = attemptedIds.filter((id) => !failed.has(id));
+  if (succeeded.length > 0) {
+    await prisma.failedMessage.deleteMany({ where: { userId, gmailId: { in: succeeded } } });
+  }
+
+  for (const gmailId of failedIds) {
+    await prisma.failedMessage.upsert({
+      where: { userId_gmailId: { userId, gmailId } },
+      create: { userId, gmailId },
+      update: { attempts: { increment: 1 } },
+    });
+  }
+
+  const abandoned = await prisma.failedMessage.findMany({
+    where: { userId, attempts: { gte: MAX_MESSAGE_ATTEMPTS } },
+    select: { gmailId: true },
+  });
+  if (abandoned.length > 0) {
+    const ids = abandoned.map((message) => message.gmailId).join(', ');
+    console.warn(`Giving up on messages after ${MAX_MESSAGE_ATTEMPTS} attempts: ${ids}`);
+    await prisma.failedMessage.deleteMany({ where: { userId, attempts: { gte: MAX_MESSAGE_ATTEMPTS } } });
+  }
+}
+
+// Ingests messages earlier syncs failed on
+async function retryFailedMessages(gmail: GmailClient, userId: string): Promise<IngestResult> {
+  const pending = await prisma.failedMessage.findMany({ where: { userId }, select: { gmailId: true } });
+  const ids = pending.map((message) => message.gmailId);
+  if (ids.length === 0) return { emails: [], failed: 0, failedIds: [] };
+
+  const result = await ingestMessages(gmail, userId, ids);
+  await recordFailedMessages(userId, ids, result.failedIds);
+  return result;
+}
+
+// Catches up records the per-message save could not link; companies first so contacts inherit them
+async function linkUnresolvedRecords(userId: string): Promise<void> {
+  await assignUnresolvedApplications(userId);
+  await assignUnlinkedMessages(userId);
+}
+
+/**
+ * Re-reads the most recent job emails regardless of the checkpoint, then moves
+ * the checkpoint to now so incremental syncs continue from here.
+ */
+export async function syncRecentMessages(gmail: GmailClient, userId: string, limit = RESCAN_LIMIT): Promise<SyncResult> {
+  const syncStartedAt = new Date();
+  const historyId = await getMailboxHistoryId(gmail);
+  const ids = await listMessageIds(gmail, buildJobQuery(await getUserSearchQuery(userId)), limit);
+
+  const { emails, failed, failedIds } = await ingestMessages(gmail, userId, ids);
+  await recordFailedMessages(userId, ids, failedIds);
+  await saveSyncCheckpoint(userId, historyId, syncStartedAt);
+  await linkUnresolvedRecords(userId);
+
+  return { emails, failed, mode: 'rescan' };
+}
+
+// Syncs in progress per user. The background worker and the dashboard's refresh
+// share one run instead of processing the same messages twice; kept on globalThis
+// because the worker and the routes may be bundled separately.
+const globalForSync = globalThis as unknown as { inFlightSyncs?: Map<string, Promise<SyncResult>> };
+
+const inFlightSyncs = globalForSync.inFlightSyncs ?? new Map<string, Promise<SyncResult>>();
+globalForSync.inFlightSyncs = inFlightSyncs;
+
+/**
+ * Fetches only the job emails added since the user's stored Gmail history id.
+ * History records every new message, so the ids are narrowed to those the job
+ * query matches. Without a checkpoint, or once it has expired, the last
+ * RESCAN_WINDOW of mail is scanned instead.
+ */
+export function syncNewMessages(gmail: GmailClient, userId: string): Promise<SyncResult> {
+  const running = inFlightSyncs.get(userId);
+  if (running) return running;
+
+  const sync = runIncrementalSync(gmail, userId).finally(() => inFlightSyncs.delete(userId));
+  inFlightSyncs.set(userId, sync);
+  return sync;
+}
+
+async function runIncrementalSync(gmail: GmailClient, userId: string): Promise<SyncResult> {
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+  const baseQuery = await getUserSearchQuery(userId);
+  const syncStartedAt = new Date();
+
+  let ids: string[] | null = null;
+  let historyId: string | null = null;
+
+  if (user.historyId) {
+    try {
+      const history = await listAddedSince(gmail, user.historyId);
+      historyId = history.historyId;
+
+      if (history.ids.length > 0) {
+        const since = user.lastSyncedAt ?? syncStartedAt;
+        const after = Math.floor(since.getTime() / 1000) - AFTER_MARGIN_SECONDS;
+        const matching = new Set(
+          await listMessageIds(gmail, buildJobQuery(baseQuery, { after }), history.ids.length + RESCAN_LIMIT)
+        );
+        ids = history.ids.filter((id) => matching.has(id));
+      } else {
+        ids = [];
+      }
+    } catch (error) {
+      if (!isHistoryExpired(error)) throw error;
+      console.warn(`History id ${user.historyId} expired, re-scanning the last ${RESCAN_WINDOW}`);
+    }
+  }
+
+  const mode = ids === null ? 'rescan' : 'history';
+  if (ids === null) {
+    // Take the checkpoint first so nothing that arrives during the scan is missed next time
+    historyId = await getMailboxHistoryId(gmail);
+    ids = await listMessageIds(gmail, buildJobQuery(baseQuery, { newerThan: RESCAN_WINDOW }), RESCAN_LIMIT);
+  }
+
+  // Earlier failures are retried first, so this run's failures wait for the next sync
+  const retried = await retryFailedMessages(gmail, userId);
+  const retriedIds = new Set([...retried.emails.map((email) => email.id), ...retried.failedIds]);
+  const freshIds = ids.filter((id) => !retriedIds.has(id));
+  const result = await ingestMessages(gmail, userId, freshIds);
+
+  // The checkpoint always advances; one message that keeps failing must not hold back every later sync
+  await recordFailedMessages(userId, freshIds, result.failedIds);
+  await saveSyncCheckpoint(userId, historyId, syncStartedAt);
+  await linkUnresolvedRecords(userId);
+
+  return {
+    emails: [...retried.emails, ...result.emails],
+    failed: retried.failed + result.failed,
+    mode,
+  };
+}
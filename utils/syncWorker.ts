@@ -0,0 +1,135 @@
+import { createGmailClient, type GmailClient } from './gmail';
+import { createFixtureGmailClient } from './gmailFixtures';
+import { getPubSubTopic, needsWatchRenewal, renewGmailWatch } from './gmailWatch';
+import { loadRefreshToken, refreshGoogleTokens, updateRefreshToken, type GoogleTokens } from './googleAuth';
+import { prisma } from './prisma';
+import { syncNewMessages, type SyncResult } from './sync';
+
+const DEFAULT_INTERVAL_MINUTES = 5;
+
+// Reuse an access token until a minute before it expires
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+const globalForWorker = globalThis as unknown as { syncWorkerStarted?: boolean };
+
+const accessTokens = new Map<string, GoogleTokens>();
+
+// Google answers invalid_grant once the user revokes access or the refresh token expires
+function isRevokedGrant(error: unknown): boolean {
+  return (error as { error?: string } | null)?.error === 'invalid_grant';
+}
+
+async function getAccessToken(userId: string, refreshToken: string): Promise<string | null> {
+  const cached = accessTokens.get(userId);
+  if (cached && cached.refreshToken === refreshToken && Date.now() < cached.expiresAt - EXPIRY_MARGIN_MS) {
+    return cached.accessToken;
+  }
+
+  try {
+    const tokens = await refreshGoogleTokens(refreshToken);
+    accessTokens.set(userId, tokens);
+    if (tokens.refreshToken !== refreshToken) {
+      await updateRefreshToken(userId, tokens.refreshToken);
+    }
+    return tokens.accessToken;
+  } catch (error) {
+    if (!isRevokedGrant(error)) throw error;
+    // Stop trying until the user signs in again and grants a new token
+    console.warn(`Gmail access revoked for user ${userId}, pausing background sync`);
+    accessTokens.delete(userId);
+    await updateRefreshToken(userId, null);
+    return null;
+  }
+}
+
+// A recorded mailbox (see gmailFixtures.ts) stands in for every user's Gmail in development
+function getFixtureFile(): string | null {
+  return process.env.NODE_ENV !== 'production' ? process.env.GMAIL_FIXTURE_FILE || null : null;
+}
+
+async function getGmailClient(userId: string, refreshToken: string | null): Promise<GmailClient | null> {
+  const fixtureFile = getFixtureFile();
+  if (fixtureFile) return createFixtureGmailClient(fixtureFile);
+  if (!refreshToken) return null;
+
+  const accessToken = await getAccessToken(userId, refreshToken);
+  return accessToken ? createGmailClient(accessToken) : null;
+}
+
+/**
+ * Syncs one user's mailbox without a session, renewing their Gmail watch when
+ * it is close to lapsing. Returns null when the user has not granted offline
+ * access (or revoked it).
+ */
+export async function syncUserInBackground(userId: string): Promise<SyncResult | null> {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { gmailWatchExpiresAt: true },
+  });
+  const gmail = await getGmailClient(userId, await loadRefreshToken(userId));
+  if (!gmail) return null;
+
+  const topic = getPubSubTopic();
+  if (topic && needsWatchRenewal(user.gmailWatchExpiresAt)) {
+    try {
+      await renewGmailWatch(gmail, userId, topic);
+    } catch (error) {
+      // Polling still picks up new mail; the next round retries the watch
+      console.error(`Failed to renew Gmail watch for user ${userId}:`, error);
+    }
+  }
+
+  const result = await syncNewMessages(gmail, userId);
+  if (result.emails.length > 0 || result.failed > 0) {
+    console.log(`Background sync for user ${userId}: ${result.emails.length} emails, ${result.failed} failed`);
+  }
+  return result;
+}
+
+/**
+ * Runs an incremental sync for every user who granted offline access. Users are
+ * synced one at a time; a failure is logged and the next user still runs. New
+ * and changed applications reach open dashboards through the events stream.
+ */
+export async function syncAllUsers(): Promise<void> {
+  const users = await prisma.user.findMany({
+    where: getFixtureFile() ? {} : { googleRefreshToken: { not: null } },
+    select: { id: true },
+  });
+
+  for (const user of users) {
+    try {
+      await syncUserInBackground(user.id);
+    } catch (error) {
+      console.error(`Background sync failed for user ${user.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Starts syncing every SYNC_INTERVAL_MINUTES (default 5; 0 turns it off). A
+ * round still running when the next is due is not overlapped.
+ */
+export function startSyncWorker(): void {
+  if (globalForWorker.syncWorkerStarted) return;
+
+  const minutes = Number(process.env.SYNC_INTERVAL_MINUTES ?? DEFAULT_INTERVAL_MINUTES);
+  if (!Number.isFinite(minutes) || minutes <= 0) {
+    console.log('Background sync is turned off');
+    return;
+  }
+  globalForWorker.syncWorkerStarted = true;
+
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await syncAllUsers();
+    } finally {
+      running = false;
+    }
+  }, minutes * 60 * 1000);
+  // Never keep the process alive just for the worker
+  timer.unref();
+}
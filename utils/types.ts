@@ -0,0 +1,324 @@
+export const APPLICATION_STATUSES = [
+  'Applied',
+  'Application Received',
+  'Interview',
+  'Rejected',
+  'Offer',
+] as const;
+
+export type ApplicationStatus = (typeof APPLICATION_STATUSES)[number];
+
+// How sure the classifier is of each field, from 0 to 1
+export interface FieldConfidence {
+  isJobApplication: number;
+  companyName: number;
+  jobProfile: number;
+  applicationStatus: number;
+}
+
+export interface AIAnalysisResult {
+  // False for job alerts, newsletters, cold outreach and anything else not about one of the user's applications
+  isJobApplication: boolean;
+  companyName: string;
+  jobProfile: string;
+  applicationStatus: string;
+  confidence: FieldConfidence;
+}
+
+export type MeetingProvider = 'zoom' | 'meet' | 'teams' | 'webex';
+
+// Scheduling details read from an interview invitation
+export interface InterviewDetails {
+  startsAt: string;
+  durationMinutes: number | null;
+  // The zone named in the email, or null when the sender's offset was assumed
+  timezone: string | null;
+  interviewer: string | null;
+  meetingUrl: string | null;
+  meetingProvider: MeetingProvider | null;
+}
+
+export interface UpcomingInterview extends InterviewDetails {
+  id: string;
+  applicationId: string;
+  companyName: string;
+  jobProfile: string;
+}
+
+export interface InterviewSummary {
+  interviews: UpcomingInterview[];
+  // Path of the user's subscribable .ics feed
+  feedPath: string;
+}
+
+export type ContactRole = 'recruiter' | 'hiring_manager' | 'ats_noreply' | 'other';
+
+// Who sent an email, with whatever its signature adds to the From header
+export interface ContactDetails {
+  email: string;
+  name: string | null;
+  title: string | null;
+  phone: string | null;
+  linkedinUrl: string | null;
+  role: ContactRole;
+}
+
+export interface EmailInfo extends AIAnalysisResult {
+  id: string;
+  threadId: string | null;
+  date: string | null;
+  originalSubject: string;
+  snippet: string | null;
+  from: string;
+  senderAddress: string | null;
+  senderDomain: string | null;
+  fromCache: boolean;
+  interview: InterviewDetails | null;
+  offer: OfferDetails | null;
+  contact: ContactDetails | null;
+}
+
+export type ReviewAction = 'confirm' | 'dismiss';
+
+// A message held back from the dashboard until the user confirms or dismisses it
+export interface ReviewItem {
+  id: string;
+  subject: string;
+  from: string;
+  date: string | null;
+  companyName: string;
+  jobProfile: string;
+  applicationStatus: ApplicationStatus;
+  isJobApplication: boolean;
+  confidence: FieldConfidence | null;
+}
+
+export type ApplicationSource = 'email' | 'manual';
+
+export interface StatusHistoryEntry {
+  id: string;
+  status: ApplicationStatus;
+  date: string;
+  source: ApplicationSource;
+  subject: string | null;
+  from: string | null;
+}
+
+export const PRIORITIES = ['high', 'medium', 'low'] as const;
+
+export type Priority = (typeof PRIORITIES)[number];
+
+export const CUSTOM_FIELD_TYPES = ['text', 'number', 'date', 'select'] as const;
+
+export type CustomFieldType = (typeof CUSTOM_FIELD_TYPES)[number];
+
+// A field the user added to their applications
+export interface CustomFieldDefinition {
+  id: string;
+  name: string;
+  type: CustomFieldType;
+  // The choices of a select field
+  options: string[];
+}
+
+// Dates are YYYY-MM-DD strings
+export type CustomFieldValue = string | number;
+
+// Fields a user can set on an application by hand
+export interface ApplicationInput {
+  companyName: string;
+  jobProfile: string;
+  applicationStatus: ApplicationStatus;
+  date: string | null;
+  link: string | null;
+  salaryRange: string | null;
+  location: string | null;
+  notes: string | null;
+  tags: string[];
+  priority: Priority | null;
+  // Custom field values by field id; null clears a value
+  customFields: Record<string, CustomFieldValue | null>;
+}
+
+// Shape returned by /api/applications and rendered by the dashboard
+export interface JobApplication {
+  id: string;
+  companyName: string;
+  // The company profile this application is grouped under
+  companyId: string | null;
+  jobProfile: string;
+  applicationStatus: ApplicationStatus;
+  date: string;
+  from: string;
+  source: ApplicationSource;
+  link: string | null;
+  salaryRange: string | null;
+  location: string | null;
+  notes: string | null;
+  tags: string[];
+  priority: Priority | null;
+  // Custom field values by field id
+  customFields: Record<string, CustomFieldValue>;
+  overriddenFields: string[];
+  needsFollowUp: boolean;
+  lastActivityAt: string;
+  history: StatusHistoryEntry[];
+}
+
+export interface ReminderSummary {
+  followUpAfterDays: number;
+  reminders: JobApplication[];
+}
+
+export type ImportOutcome = 'created' | 'merged' | 'rejected';
+
+export interface ImportRowResult {
+  row: number;
+  outcome: ImportOutcome;
+  applicationId: string | null;
+  error: string | null;
+}
+
+export interface ImportReport {
+  created: number;
+  merged: number;
+  rejected: number;
+  rows: ImportRowResult[];
+}
+
+export interface FunnelStage {
+  stage: 'Applied' | 'Interview' | 'Offer';
+  count: number;
+  // Percentages, null for the first stage or when the base is empty
+  conversionFromPrevious: number | null;
+  conversionFromApplied: number | null;
+}
+
+export interface AnalyticsSummary {
+  total: number;
+  funnel: FunnelStage[];
+  medianDaysToFirstResponse: number | null;
+  medianDaysToRejection: number | null;
+  // The last 12 weeks, oldest first; weekStart is the Monday as YYYY-MM-DD
+  weeklyApplications: { weekStart: string; count: number }[];
+  ghosted: number;
+  ghostedAfterDays: number;
+}
+
+// Per-user control over which Gmail messages are ingested
+export interface SearchSettings {
+  // Subject words or phrases, any of which marks a job email
+  searchTerms: string[];
+  // Gmail labels to restrict the search to; empty means the whole mailbox
+  labelFilters: string[];
+  // Sender domains or addresses always ingested, whatever the subject
+  includeSenders: string[];
+  // Sender domains or addresses never ingested
+  excludeSenders: string[];
+}
+
+export interface SearchPreview {
+  query: string;
+  messages: { id: string; subject: string; from: string; date: string | null }[];
+}
+
+export type SyncJobStatus = 'running' | 'completed' | 'failed';
+
+export interface BackfillProgress {
+  id: string;
+  status: SyncJobStatus;
+  processed: number;
+  failed: number;
+  total: number | null;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+export type ApplicationEventType = 'application.created' | 'application.updated';
+
+// Payload of one server-sent event on /api/events
+export interface ApplicationEventMessage {
+  id: number;
+  type: ApplicationEventType;
+  application: JobApplication;
+}
+
+export type RemotePolicy = 'remote' | 'hybrid' | 'onsite';
+
+// Amounts are yearly except sign-on and equity, in whole units of `currency`
+export interface OfferInput {
+  currency: string;
+  baseSalary: number | null;
+  annualBonus: number | null;
+  signOnBonus: number | null;
+  // Value of the whole grant
+  equityValue: number | null;
+  // Percent of the grant vesting in each year; empty means evenly over four years
+  equityVesting: number[];
+  vestingCliffMonths: number | null;
+  benefitsNotes: string | null;
+  location: string | null;
+  remotePolicy: RemotePolicy | null;
+  deadline: string | null;
+}
+
+// What the classifier could read from an offer email
+export type OfferDetails = Partial<OfferInput>;
+
+export type DeadlineStatus = 'none' | 'open' | 'soon' | 'passed';
+
+export interface JobOffer extends OfferInput {
+  id: string;
+  applicationId: string;
+  companyName: string;
+  jobProfile: string;
+  // Fields filled from the offer email rather than by the user
+  prefilledFields: string[];
+  firstYearTotal: number;
+  fourYearTotal: number;
+  deadlineStatus: DeadlineStatus;
+}
+
+// An employer with every name variant and sender domain that resolves to it
+export interface CompanySummary {
+  id: string;
+  name: string;
+  // Normalized name variants, e.g. "google" for both "Google" and "Google LLC"
+  aliases: string[];
+  domains: string[];
+  applicationCount: number;
+  statusCounts: Partial<Record<ApplicationStatus, number>>;
+  latestActivityAt: string | null;
+}
+
+export interface CompanyRole {
+  applicationId: string;
+  jobProfile: string;
+  applicationStatus: ApplicationStatus;
+  appliedAt: string;
+  lastActivityAt: string;
+}
+
+export interface CompanyProfile extends CompanySummary {
+  roles: CompanyRole[];
+  contacts: JobContact[];
+}
+
+// A person the user has heard from, merged across every message they sent
+export interface JobContact extends ContactDetails {
+  id: string;
+  companyId: string | null;
+  companyName: string | null;
+  notes: string | null;
+  messageCount: number;
+  lastContactedAt: string | null;
+  applications: { id: string; companyName: string; jobProfile: string; applicationStatus: ApplicationStatus }[];
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  // Dashboard URL parameters without the leading "?", e.g. "q=company%3Aacme&status=Interview"
+  query: string;
+}
@@ -0,0 +1,46 @@
+import { prisma } from './prisma';
+import type { SavedView } from './types';
+
+export class ViewInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ViewInputError';
+  }
+}
+
+export function parseViewInput(body: unknown): { name: string; query: string } {
+  const data = body && typeof body === 'object' ? (body as Record<string, unknown>) : {};
+
+  if (typeof data.name !== 'string' || !data.name.trim()) throw new ViewInputError('name is required');
+  if (data.name.trim().length > 60) throw new ViewInputError('name is too long');
+  if (typeof data.query !== 'string') throw new ViewInputError('query must be a string');
+
+  const query = data.query.replace(/^\?/, '');
+  if (!query) throw new ViewInputError('A view needs at least one filter');
+  if (query.length > 2000) throw new ViewInputError('query is too long');
+
+  return { name: data.name.trim(), query };
+}
+
+export async function listViews(userId: string): Promise<SavedView[]> {
+  return prisma.savedView.findMany({
+    where: { userId },
+    orderBy: { name: 'asc' },
+    select: { id: true, name: true, query: true },
+  });
+}
+
+// Saving under an existing name replaces that view's filters
+export async function saveView(userId: string, input: { name: string; query: string }): Promise<SavedView> {
+  return prisma.savedView.upsert({
+    where: { userId_name: { userId, name: input.name } },
+    update: { query: input.query },
+    create: { userId, ...input },
+    select: { id: true, name: true, query: true },
+  });
+}
+
+export async function deleteView(userId: string, id: string): Promise<boolean> {
+  const { count } = await prisma.savedView.deleteMany({ where: { id, userId } });
+  return count > 0;
+}